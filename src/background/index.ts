@@ -1,5 +1,25 @@
 import browser from 'webextension-polyfill';
 
+import { registerOmnibox } from './omnibox';
+
+import type { RuntimeMessage } from '@/types/messages';
+
+import { INDEXING_QUEUE_CONFIG } from '@/constants/config';
+import { IndexingQueueService } from '@/services/IndexingQueueService';
+import { SearchHistoryService } from '@/services/SearchHistoryService';
+import { TextIndexService } from '@/services/TextIndexService';
+import { MessageType } from '@/types/messages';
+
+// Indexes bookmarks the text index has not seen, so searches never wait
+// for it
+const ensureTextIndex = () =>
+  TextIndexService.getInstance()
+    .ensureIndexed()
+    .catch((error) => {
+      console.error('Failed to build text index:', error);
+      return 0;
+    });
+
 // Basic installation handler
 browser.runtime.onInstalled.addListener((details) => {
   if (details.reason === 'install') {
@@ -7,8 +27,106 @@ browser.runtime.onInstalled.addListener((details) => {
   } else if (details.reason === 'update') {
     // Extension updated - migration logic can be added here
   }
+  void ensureTextIndex();
+});
+
+browser.runtime.onStartup.addListener(() => {
+  void ensureTextIndex();
+});
+
+const indexingQueue = IndexingQueueService.getInstance();
+let queueRun: Promise<void> | null = null;
+
+const refreshSavedSearches = () =>
+  SearchHistoryService.getInstance()
+    .runSavedSearches()
+    .catch((error) => {
+      console.error('Failed to refresh saved searches:', error);
+      return 0;
+    });
+
+// The alarm wakes a suspended service worker to resume the jobs, and
+// retries jobs paused while their provider was down
+const runIndexingQueue = async (): Promise<void> => {
+  if (!(await indexingQueue.getActiveJob())) {
+    return;
+  }
+
+  await browser.alarms.create(INDEXING_QUEUE_CONFIG.ALARM_NAME, {
+    periodInMinutes: INDEXING_QUEUE_CONFIG.ALARM_PERIOD_MINUTES,
+  });
+  const jobs = await indexingQueue.process();
+  if (await indexingQueue.getActiveJob()) {
+    return;
+  }
+
+  await browser.alarms.clear(INDEXING_QUEUE_CONFIG.ALARM_NAME);
+  if (jobs.some((job) => job.succeeded > 0)) {
+    await refreshSavedSearches();
+  }
+};
+
+const processIndexingQueue = (): Promise<void> => {
+  queueRun ??= runIndexingQueue()
+    .catch((error) => {
+      console.error('Indexing queue failed:', error);
+    })
+    .finally(() => {
+      queueRun = null;
+    });
+  return queueRun;
+};
+
+browser.runtime.onMessage.addListener((message: unknown) => {
+  const runtimeMessage = message as RuntimeMessage | undefined;
+  switch (runtimeMessage?.type) {
+    // Re-run saved searches once extension pages finish indexing
+    case MessageType.INDEXING_COMPLETED:
+      return refreshSavedSearches();
+    case MessageType.INDEXING_START:
+      return (
+        runtimeMessage.providerId
+          ? indexingQueue.enqueue(runtimeMessage).then((job) => [job])
+          : indexingQueue.enqueueForProviders(runtimeMessage.bookmarkIds)
+      ).then((jobs) => {
+        void processIndexingQueue();
+        return jobs.map((job) => job.id);
+      });
+    case MessageType.BOOKMARKS_CHANGED:
+      return indexingQueue
+        .enqueueChanged(runtimeMessage.bookmarkIds)
+        .then((jobs) => {
+          if (jobs.length > 0) {
+            void processIndexingQueue();
+          }
+        });
+    case MessageType.INDEXING_CANCEL:
+      return indexingQueue.cancel(runtimeMessage.jobId);
+    case MessageType.INDEXING_RESUME:
+      return indexingQueue.resume(runtimeMessage.jobId).then(() => {
+        void processIndexingQueue();
+      });
+    case MessageType.INDEXING_RETRY_FAILED:
+      return indexingQueue.retryFailed(runtimeMessage.providerId).then(() => {
+        void processIndexingQueue();
+      });
+    default:
+      return undefined;
+  }
+});
+
+browser.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === INDEXING_QUEUE_CONFIG.ALARM_NAME) {
+    void processIndexingQueue();
+  }
 });
 
+// Resume a job left unfinished when the service worker was suspended
+void processIndexingQueue();
+
+// Search bookmarks from the address bar with the "bs" keyword
+registerOmnibox();
+
 // Keep service worker alive (Chrome)
 if (typeof self !== 'undefined' && 'ServiceWorkerGlobalScope' in self) {
   self.addEventListener('activate', () => {
@@ -0,0 +1,107 @@
+import browser from 'webextension-polyfill';
+
+import type { Omnibox } from 'webextension-polyfill';
+
+import { OMNIBOX_CONFIG } from '@/constants/config';
+import { SearchService } from '@/services/SearchService';
+import { isAbortError } from '@/utils/abort';
+import { formatOmniboxSuggestion, isOmniboxUrl } from '@/utils/omnibox';
+
+// Firefox shows descriptions as plain text; Chrome expects XML markup
+const supportsMarkup = !('getBrowserInfo' in browser.runtime);
+
+let suggestionTimer: ReturnType<typeof setTimeout> | undefined;
+let suggestionSearch: AbortController | undefined;
+
+async function suggestBookmarks(
+  text: string,
+  signal: AbortSignal
+): Promise<Omnibox.SuggestResult[]> {
+  const query = text.trim();
+  if (!query) {
+    return [];
+  }
+
+  const results = await SearchService.getInstance().searchWithFallback(query, {
+    limit: OMNIBOX_CONFIG.SUGGESTION_LIMIT,
+    signal,
+  });
+
+  return results.map(({ bookmark }) => ({
+    content: bookmark.url,
+    description: formatOmniboxSuggestion(
+      bookmark.title,
+      bookmark.url,
+      supportsMarkup
+    ),
+  }));
+}
+
+async function openBookmark(
+  text: string,
+  disposition: Omnibox.OnInputEnteredDisposition
+): Promise<void> {
+  const url = isOmniboxUrl(text)
+    ? text.trim()
+    : (
+        await SearchService.getInstance().searchWithFallback(text.trim(), {
+          limit: 1,
+        })
+      )[0]?.bookmark.url;
+
+  if (!url) {
+    return;
+  }
+
+  switch (disposition) {
+    case 'currentTab':
+      await browser.tabs.update({ url });
+      break;
+    case 'newForegroundTab':
+      await browser.tabs.create({ url });
+      break;
+    case 'newBackgroundTab':
+      await browser.tabs.create({ url, active: false });
+      break;
+  }
+}
+
+/**
+ * Registers the "bs" address-bar keyword: suggests bookmarks as the user
+ * types and opens the chosen one, or the top result for a typed query.
+ */
+export function registerOmnibox(): void {
+  browser.omnibox.setDefaultSuggestion({
+    description: 'Search bookmarks semantically',
+  });
+
+  browser.omnibox.onInputChanged.addListener((text, suggest) => {
+    clearTimeout(suggestionTimer);
+    suggestionSearch?.abort();
+
+    suggestionTimer = setTimeout(() => {
+      const controller = new AbortController();
+      suggestionSearch = controller;
+
+      suggestBookmarks(text, controller.signal).then(suggest, (error) => {
+        if (!isAbortError(error)) {
+          console.error('Failed to suggest bookmarks:', error);
+        }
+      });
+    }, OMNIBOX_CONFIG.DEBOUNCE_MS);
+  });
+
+  browser.omnibox.onInputCancelled.addListener(() => {
+    clearTimeout(suggestionTimer);
+    suggestionSearch?.abort();
+  });
+
+  browser.omnibox.onInputEntered.addListener((text, disposition) => {
+    clearTimeout(suggestionTimer);
+    suggestionSearch?.abort();
+
+    openBookmark(text, disposition).catch((error) => {
+      console.error('Failed to open bookmark from the address bar:', error);
+    });
+  });
+}
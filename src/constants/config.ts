@@ -4,14 +4,118 @@ export const APP_VERSION = '0.1.0';
 export const SEARCH_CONFIG = {
   DEFAULT_RESULTS_LIMIT: 20,
   MIN_SIMILARITY_THRESHOLD: 0.3,
+  HYBRID_SEMANTIC_WEIGHT: 0.5,
+  RRF_K: 60,
+  BM25_K1: 1.2,
+  BM25_B: 0.75,
+  RESCORE_MULTIPLIER: 4,
+  MMR_LAMBDA: 0.7,
+  DIVERSITY_POOL_MULTIPLIER: 3,
+  HISTORY_LIMIT: 100,
+  LEXICAL_FIELD_WEIGHTS: {
+    title: 3,
+    url: 1.5,
+    userDescription: 2,
+    aiSummary: 1.5,
+    content: 1,
+  },
+};
+
+export const RECENCY_CONFIG = {
+  HALF_LIFE_DAYS: 90,
+  /** Recency weight used when the query names a time period. */
+  DATE_HINT_WEIGHT: 0.3,
+};
+
+export const FEEDBACK_CONFIG = {
+  QUERY_SIMILARITY_THRESHOLD: 0.5,
+  ROCCHIO_ALPHA: 1,
+  ROCCHIO_BETA: 0.75,
+  ROCCHIO_GAMMA: 0.15,
+  CLICK_WEIGHT: 0.5,
+  CLICK_PRIOR_WEIGHT: 0.05,
+};
+
+export const RERANK_CONFIG = {
+  TOP_N: 10,
+  TIMEOUT_MS: 15000,
+  MAX_FIELD_CHARS: 500,
+};
+
+export const ASK_CONFIG = {
+  MAX_SOURCES: 6,
+  MAX_PASSAGE_CHARS: 1200,
+  MAX_ANSWER_TOKENS: 600,
+  TIMEOUT_MS: 60000,
+};
+
+export const QUERY_EXPANSION_CONFIG = {
+  REWRITE_COUNT: 3,
+  /** Combined RRF weight of all expansions, relative to 1 for the query. */
+  EXPANSION_WEIGHT: 1,
+  TIMEOUT_MS: 15000,
+  CACHE_TTL_MS: 7 * 24 * 60 * 60 * 1000,
+  CACHE_LIMIT: 500,
+};
+
+export const QUERY_EMBEDDING_CACHE_CONFIG = {
+  MEMORY_ENTRIES: 100,
+  PERSISTED_ENTRIES: 500,
+};
+
+export const OMNIBOX_CONFIG = {
+  SUGGESTION_LIMIT: 6,
+  DEBOUNCE_MS: 250,
+};
+
+export const TEXT_INDEX_CONFIG = {
+  MAX_CONTENT_TERMS: 1000,
+  MAX_TERM_LENGTH: 40,
+  MIN_PREFIX_LENGTH: 2,
+  MIN_FUZZY_LENGTH: 3,
+  FUZZY_THRESHOLD: 0.45,
+  PREFIX_MATCH_WEIGHT: 0.8,
+  FUZZY_MATCH_WEIGHT: 0.7,
+  MAX_EXPANSIONS: 16,
+  MAX_FUZZY_CANDIDATES: 200,
+};
+
+export const ANN_CONFIG = {
+  M: 16,
+  EF_CONSTRUCTION: 64,
+  EF_SEARCH: 64,
+  MIN_VECTORS: 500,
+  CANDIDATE_MULTIPLIER: 4,
+};
+
+export const VECTOR_SCORING_CONFIG = {
+  WORKER_URL: '/vectorScoring.js',
+  UPDATES_CHANNEL: 'embedding-updates',
+  SCAN_BATCH_SIZE: 2000,
 };
 
 export const INDEXING_CONFIG = {
   BATCH_SIZE: 10,
+  BATCH_TIMEOUT_MS: 120000,
   RATE_LIMIT_MS: 1000,
+  CHUNK_MAX_TOKENS: 200,
+  CHUNK_OVERLAP_TOKENS: 40,
+  MAX_CHUNKS_PER_BOOKMARK: 32,
+};
+
+export const INDEXING_QUEUE_CONFIG = {
+  ITEM_DELAY_MS: 200,
+  BACKOFF_BASE_MS: 1000,
+  BACKOFF_MAX_MS: 60000,
+  // Consecutive bookmarks failing with retryable errors before pausing
+  PAUSE_AFTER_FAILURES: 3,
+  PAUSE_MS: 5 * 60 * 1000,
+  // Wakes a suspended service worker so an unfinished job resumes
+  ALARM_NAME: 'indexing-queue',
+  ALARM_PERIOD_MINUTES: 1,
 };
 
 export const STORAGE_CONFIG = {
   DB_NAME: 'SemanticBookmarkDB',
-  DB_VERSION: 4,
+  DB_VERSION: 13,
 };
@@ -1,20 +1,77 @@
+import { ProviderRequestError } from './ProviderRequestError';
+
 import type {
   ProviderType,
   ProviderTestResult,
   EmbeddingGenerationResult,
 } from '@/types/provider';
 
+import { INDEXING_CONFIG } from '@/constants/config';
+import { throwIfAborted } from '@/utils/abort';
+import { parseRetryAfter } from '@/utils/backoff';
+
 export abstract class BaseProviderAdapter {
   abstract type: ProviderType;
+  // Endpoints that answered a batched request with an error or bad format
+  private unbatchedEndpoints = new Set<string>();
 
   abstract generateEmbedding(
     text: string,
     endpoint: string,
     model: string,
     prefix?: string,
-    suffix?: string
+    suffix?: string,
+    signal?: AbortSignal
   ): Promise<EmbeddingGenerationResult>;
 
+  /**
+   * Embeds texts in input order, in a single request where the provider
+   * supports it and one request per text otherwise. Transient failures are
+   * thrown as retryable `ProviderRequestError`s for the caller to retry.
+   */
+  async generateEmbeddings(
+    texts: string[],
+    endpoint: string,
+    model: string,
+    prefix?: string,
+    suffix?: string,
+    signal?: AbortSignal
+  ): Promise<EmbeddingGenerationResult[]> {
+    const key = `${endpoint}|${model}`;
+    if (texts.length > 1 && !this.unbatchedEndpoints.has(key)) {
+      try {
+        const embeddings = await this.requestEmbeddingBatch(
+          texts.map((text) => this.applyTokens(text, prefix, suffix)),
+          endpoint,
+          model,
+          signal
+        );
+        if (embeddings?.length === texts.length) {
+          return embeddings.map((embedding) => ({ embedding }));
+        }
+        this.unbatchedEndpoints.add(key);
+      } catch (error) {
+        throwIfAborted(signal);
+        throw this.generationError(error);
+      }
+    }
+
+    const results: EmbeddingGenerationResult[] = [];
+    for (const text of texts) {
+      results.push(
+        await this.generateEmbedding(
+          text,
+          endpoint,
+          model,
+          prefix,
+          suffix,
+          signal
+        )
+      );
+    }
+    return results;
+  }
+
   abstract testConnection(
     endpoint: string,
     model: string,
@@ -22,6 +79,58 @@ export abstract class BaseProviderAdapter {
     suffix?: string
   ): Promise<ProviderTestResult>;
 
+  /**
+   * Sends already prefixed inputs in one request. Resolves null when the
+   * endpoint cannot batch and throws on transient failures; adapters
+   * without a batch API keep this default.
+   */
+  protected requestEmbeddingBatch(
+    _inputs: string[],
+    _endpoint: string,
+    _model: string,
+    _signal?: AbortSignal
+  ): Promise<number[][] | null> {
+    return Promise.resolve(null);
+  }
+
+  /** Batches through an OpenAI-compatible `/v1/embeddings` endpoint. */
+  protected async requestOpenAIEmbeddingBatch(
+    inputs: string[],
+    endpoint: string,
+    model: string,
+    signal?: AbortSignal
+  ): Promise<number[][] | null> {
+    const response = await this.fetchWithTimeout(
+      `${endpoint}/v1/embeddings`,
+      {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          input: inputs,
+        }),
+      },
+      INDEXING_CONFIG.BATCH_TIMEOUT_MS
+    );
+    if (!response.ok) {
+      return this.unbatchedResponse(response);
+    }
+
+    const data = (await response.json()) as {
+      data?: Array<{ embedding?: number[]; index?: number }>;
+    };
+    if (!data.data?.every((item) => item.embedding)) {
+      return null;
+    }
+
+    return [...data.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding!);
+  }
+
   protected applyTokens(
     text: string,
     prefix?: string,
@@ -30,6 +139,7 @@ export abstract class BaseProviderAdapter {
     return `${prefix ?? ''}${text}${suffix ?? ''}`;
   }
 
+  /** Aborts after `timeoutMs` or as soon as `options.signal` aborts. */
   protected async fetchWithTimeout(
     url: string,
     options: RequestInit,
@@ -37,6 +147,12 @@ export abstract class BaseProviderAdapter {
   ): Promise<Response> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+    options.signal?.addEventListener('abort', abort);
 
     try {
       const response = await fetch(url, {
@@ -46,7 +162,40 @@ export abstract class BaseProviderAdapter {
       return response;
     } finally {
       clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /** Null for responses that reject batching, an error for transient ones. */
+  protected unbatchedResponse(response: Response): null {
+    const error = this.responseError(response);
+    if (error.retryable) {
+      throw error;
+    }
+    return null;
+  }
+
+  protected responseError(response: Response): ProviderRequestError {
+    const { status } = response;
+    return new ProviderRequestError(`HTTP ${status}: ${response.statusText}`, {
+      status,
+      retryable: status === 408 || status === 429 || status >= 500,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+
+  /** Wraps a failed generation, keeping whether it is worth retrying. */
+  protected generationError(error: unknown): ProviderRequestError {
+    const message = `Failed to generate embedding: ${this.handleFetchError(error)}`;
+    if (error instanceof ProviderRequestError) {
+      return new ProviderRequestError(message, error);
     }
+
+    // fetch rejects with a TypeError when the provider is unreachable
+    const retryable =
+      error instanceof TypeError ||
+      (error instanceof Error && error.name === 'AbortError');
+    return new ProviderRequestError(message, { retryable });
   }
 
   protected handleFetchError(error: unknown): string {
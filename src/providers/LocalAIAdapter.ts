@@ -5,6 +5,8 @@ import type {
   EmbeddingGenerationResult,
 } from '@/types/provider';
 
+import { throwIfAborted } from '@/utils/abort';
+
 export class LocalAIAdapter extends BaseProviderAdapter {
   type = 'localai' as const;
 
@@ -13,13 +15,15 @@ export class LocalAIAdapter extends BaseProviderAdapter {
     endpoint: string,
     model: string,
     prefix?: string,
-    suffix?: string
+    suffix?: string,
+    signal?: AbortSignal
   ): Promise<EmbeddingGenerationResult> {
     try {
       const processedText = this.applyTokens(text, prefix, suffix);
       const url = `${endpoint}/v1/embeddings`;
       const response = await this.fetchWithTimeout(url, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
         },
@@ -30,7 +34,7 @@ export class LocalAIAdapter extends BaseProviderAdapter {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw this.responseError(response);
       }
 
       const data = (await response.json()) as {
@@ -47,12 +51,20 @@ export class LocalAIAdapter extends BaseProviderAdapter {
         embedding,
       };
     } catch (error) {
-      throw new Error(
-        `Failed to generate embedding: ${this.handleFetchError(error)}`
-      );
+      throwIfAborted(signal);
+      throw this.generationError(error);
     }
   }
 
+  protected override requestEmbeddingBatch(
+    inputs: string[],
+    endpoint: string,
+    model: string,
+    signal?: AbortSignal
+  ): Promise<number[][] | null> {
+    return this.requestOpenAIEmbeddingBatch(inputs, endpoint, model, signal);
+  }
+
   async testConnection(
     endpoint: string,
     model: string,
@@ -5,6 +5,9 @@ import type {
   EmbeddingGenerationResult,
 } from '@/types/provider';
 
+import { INDEXING_CONFIG } from '@/constants/config';
+import { throwIfAborted } from '@/utils/abort';
+
 export class OllamaAdapter extends BaseProviderAdapter {
   type = 'ollama' as const;
 
@@ -13,13 +16,15 @@ export class OllamaAdapter extends BaseProviderAdapter {
     endpoint: string,
     model: string,
     prefix?: string,
-    suffix?: string
+    suffix?: string,
+    signal?: AbortSignal
   ): Promise<EmbeddingGenerationResult> {
     try {
       const processedText = this.applyTokens(text, prefix, suffix);
       const url = `${endpoint}/api/embeddings`;
       const response = await this.fetchWithTimeout(url, {
         method: 'POST',
+        signal,
         headers: {
           'Content-Type': 'application/json',
         },
@@ -30,7 +35,7 @@ export class OllamaAdapter extends BaseProviderAdapter {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw this.responseError(response);
       }
 
       const data = (await response.json()) as {
@@ -47,10 +52,41 @@ export class OllamaAdapter extends BaseProviderAdapter {
         embedding,
       };
     } catch (error) {
-      throw new Error(
-        `Failed to generate embedding: ${this.handleFetchError(error)}`
-      );
+      throwIfAborted(signal);
+      throw this.generationError(error);
+    }
+  }
+
+  /** `/api/embed` accepts an array input; older servers answer 404. */
+  protected override async requestEmbeddingBatch(
+    inputs: string[],
+    endpoint: string,
+    model: string,
+    signal?: AbortSignal
+  ): Promise<number[][] | null> {
+    const response = await this.fetchWithTimeout(
+      `${endpoint}/api/embed`,
+      {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          input: inputs,
+        }),
+      },
+      INDEXING_CONFIG.BATCH_TIMEOUT_MS
+    );
+    if (!response.ok) {
+      return this.unbatchedResponse(response);
     }
+
+    const data = (await response.json()) as {
+      embeddings?: number[][];
+    };
+    return data.embeddings ?? null;
   }
 
   async testConnection(
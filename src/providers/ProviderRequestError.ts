@@ -0,0 +1,24 @@
+interface ProviderRequestErrorOptions {
+  status?: number;
+  retryable: boolean;
+  /** Delay requested by the provider through a Retry-After header. */
+  retryAfterMs?: number;
+}
+
+/**
+ * A failed request to an embedding provider. Timeouts, network failures,
+ * 429 and 5xx responses are retryable; other failures are not.
+ */
+export class ProviderRequestError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: ProviderRequestErrorOptions) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
@@ -1,9 +1,17 @@
+import { BookmarkChangeService } from './BookmarkChangeService';
 import { SettingsService } from './SettingsService';
+import { TextIndexService } from './TextIndexService';
 
 import type { Content } from '@/types/content';
 import type { ProviderType } from '@/types/provider';
 
+import {
+  ASK_CONFIG,
+  QUERY_EXPANSION_CONFIG,
+  RERANK_CONFIG,
+} from '@/constants/config';
 import { db } from '@/storage/database';
+import { throwIfAborted } from '@/utils/abort';
 
 const SUMMARY_GENERATION_PROMPT = `You are an AI assistant helping to generate summaries for a bookmark retrieval system (RAG).
 
@@ -21,12 +29,75 @@ Webpage Content:
 
 Generate a retrieval-optimized summary:`;
 
+const RERANK_PROMPT = `You are ranking bookmarked pages for a search query.
+
+Rate how well each document matches the query on a scale from 0 (irrelevant) to 10 (exactly what the user is looking for).
+
+Query: {query}
+
+Documents:
+{documents}
+
+Respond with only a JSON array containing one entry per document, for example: [{"id": 1, "score": 7}, {"id": 2, "score": 3}]`;
+
+const ANSWER_PROMPT = `Answer the question using only the numbered sources below, which are passages from the user's bookmarked pages.
+
+Cite every statement with the number of the source it comes from in square brackets, for example [1] or [2][3]. If the sources do not contain the answer, say so briefly instead of guessing.
+
+Question: {question}
+
+Sources:
+{sources}
+
+Answer:`;
+
+const QUERY_REWRITE_PROMPT = `Rewrite the search query below into {count} alternative queries for searching bookmarked web pages. Expand abbreviations and add synonyms and closely related technical terms, keeping the original intent.
+
+Query: {query}
+
+Respond with one query per line and nothing else.`;
+
+const HYPOTHETICAL_DOCUMENT_PROMPT = `Write a short passage (about 100 words) from a web page that answers the search query below. Write it as the page itself would, using the terminology such a page would use. It does not need to be accurate.
+
+Query: {query}
+
+Respond with only the passage.`;
+
+export interface RerankCandidate {
+  id: string;
+  title: string;
+  url: string;
+  summary?: string;
+  passage?: string;
+}
+
+export interface AnswerSource {
+  title: string;
+  url: string;
+  text: string;
+}
+
+export interface CompletionOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+interface ChatOptions {
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
 export class AIService {
   private static instance: AIService;
   private settingsService: SettingsService;
+  private textIndex: TextIndexService;
+  private changes: BookmarkChangeService;
 
   private constructor() {
     this.settingsService = SettingsService.getInstance();
+    this.textIndex = TextIndexService.getInstance();
+    this.changes = BookmarkChangeService.getInstance();
   }
 
   static getInstance(): AIService {
@@ -70,17 +141,218 @@ export class AIService {
       aiSettings.endpoint,
       aiSettings.modelName,
       aiSettings.type,
-      prompt
+      prompt,
+      { maxTokens: 300, temperature: 0.3 }
     );
 
     await db.bookmarks.update(bookmarkId, {
       aiSummary: summary,
       lastModified: new Date(),
     });
+    await this.textIndex.indexBookmark(bookmarkId);
+    await this.changes.recordChanges([bookmarkId]);
 
     return summary;
   }
 
+  /**
+   * Scores candidates against the query with the chat model. Returns a
+   * relevance in [0, 1] per candidate id; candidates the model skipped
+   * are absent.
+   */
+  async rerank(
+    query: string,
+    candidates: RerankCandidate[],
+    options: CompletionOptions = {}
+  ): Promise<Map<string, number>> {
+    const documents = candidates
+      .map((candidate, index) => this.formatRerankCandidate(candidate, index))
+      .join('\n\n');
+    const prompt = RERANK_PROMPT.replace('{query}', query).replace(
+      '{documents}',
+      documents
+    );
+
+    const response = await this.requestCompletion(
+      prompt,
+      { maxTokens: 20 * candidates.length + 50, temperature: 0 },
+      { timeoutMs: RERANK_CONFIG.TIMEOUT_MS, ...options }
+    );
+
+    return this.parseRerankScores(response, candidates);
+  }
+
+  /**
+   * Answers a question from the given sources only, citing them inline as
+   * [n] where n is the 1-based position of the source.
+   */
+  async answerQuestion(
+    question: string,
+    sources: AnswerSource[],
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    const formatted = sources
+      .map(
+        (source, index) =>
+          `[${index + 1}] ${source.title} (${source.url})\n${source.text}`
+      )
+      .join('\n\n');
+    const prompt = ANSWER_PROMPT.replace('{question}', question).replace(
+      '{sources}',
+      formatted
+    );
+
+    return await this.requestCompletion(
+      prompt,
+      { maxTokens: ASK_CONFIG.MAX_ANSWER_TOKENS, temperature: 0.2 },
+      { timeoutMs: ASK_CONFIG.TIMEOUT_MS, ...options }
+    );
+  }
+
+  /** Returns up to `count` alternative phrasings of the query. */
+  async rewriteQuery(
+    query: string,
+    count: number = QUERY_EXPANSION_CONFIG.REWRITE_COUNT,
+    options: CompletionOptions = {}
+  ): Promise<string[]> {
+    const prompt = QUERY_REWRITE_PROMPT.replace(
+      '{count}',
+      String(count)
+    ).replace('{query}', query);
+    const response = await this.requestCompletion(
+      prompt,
+      { maxTokens: 40 * count, temperature: 0.3 },
+      { timeoutMs: QUERY_EXPANSION_CONFIG.TIMEOUT_MS, ...options }
+    );
+
+    const original = query.trim().toLowerCase();
+    const rewrites = response
+      .split('\n')
+      .map((line) =>
+        line
+          .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+          .replace(/^["']|["']$/g, '')
+          .trim()
+      )
+      .filter((line) => line && line.toLowerCase() !== original);
+
+    return [...new Set(rewrites)].slice(0, count);
+  }
+
+  /** Writes a passage answering the query, for HyDE retrieval. */
+  async writeHypotheticalDocument(
+    query: string,
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    return await this.requestCompletion(
+      HYPOTHETICAL_DOCUMENT_PROMPT.replace('{query}', query),
+      { maxTokens: 200, temperature: 0.5 },
+      { timeoutMs: QUERY_EXPANSION_CONFIG.TIMEOUT_MS, ...options }
+    );
+  }
+
+  /**
+   * Sends a prompt to the configured chat model, aborting the request when
+   * the timeout elapses or the caller's signal aborts.
+   */
+  private async requestCompletion(
+    prompt: string,
+    chatOptions: Omit<ChatOptions, 'signal'>,
+    { timeoutMs = 30000, signal }: CompletionOptions
+  ): Promise<string> {
+    throwIfAborted(signal);
+
+    const aiSettings = await this.settingsService.getAIProviderSettings();
+
+    if (!aiSettings.enabled) {
+      throw new Error('AI provider is not enabled');
+    }
+
+    if (!aiSettings.endpoint || !aiSettings.modelName) {
+      throw new Error('AI provider is not properly configured');
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    try {
+      return await this.callAIProvider(
+        aiSettings.endpoint,
+        aiSettings.modelName,
+        aiSettings.type,
+        prompt,
+        { ...chatOptions, signal: controller.signal }
+      );
+    } catch (error) {
+      throwIfAborted(signal);
+      if (controller.signal.aborted) {
+        throw new Error(`AI provider did not respond within ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private formatRerankCandidate(
+    candidate: RerankCandidate,
+    index: number
+  ): string {
+    const lines = [
+      `[${index + 1}] Title: ${candidate.title}`,
+      `URL: ${candidate.url}`,
+    ];
+
+    if (candidate.summary) {
+      lines.push(
+        `Summary: ${candidate.summary.slice(0, RERANK_CONFIG.MAX_FIELD_CHARS)}`
+      );
+    }
+
+    if (candidate.passage) {
+      lines.push(
+        `Passage: ${candidate.passage.slice(0, RERANK_CONFIG.MAX_FIELD_CHARS)}`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  private parseRerankScores(
+    response: string,
+    candidates: RerankCandidate[]
+  ): Map<string, number> {
+    const json = /\[[\s\S]*\]/.exec(response)?.[0];
+    if (!json) {
+      throw new Error('Invalid re-ranking response from AI provider');
+    }
+
+    let entries: unknown;
+    try {
+      entries = JSON.parse(json);
+    } catch {
+      throw new Error('Invalid re-ranking response from AI provider');
+    }
+
+    const scores = new Map<string, number>();
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      const { id, score } = (entry ?? {}) as { id?: unknown; score?: unknown };
+      const candidate = typeof id === 'number' ? candidates[id - 1] : undefined;
+      if (candidate && typeof score === 'number' && Number.isFinite(score)) {
+        scores.set(candidate.id, Math.min(Math.max(score, 0), 10) / 10);
+      }
+    }
+
+    if (scores.size === 0) {
+      throw new Error('AI provider returned no re-ranking scores');
+    }
+
+    return scores;
+  }
+
   private prepareContentForSummary(content: Content): string {
     const parts: string[] = [];
 
@@ -104,12 +376,14 @@ export class AIService {
     endpoint: string,
     modelName: string,
     type: ProviderType,
-    prompt: string
+    prompt: string,
+    options: ChatOptions
   ): Promise<string> {
     const url = this.getAIEndpoint(endpoint, type);
 
     const response = await fetch(url, {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -121,8 +395,8 @@ export class AIService {
             content: prompt,
           },
         ],
-        max_tokens: 300,
-        temperature: 0.3,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
       }),
     });
 
@@ -138,13 +412,13 @@ export class AIService {
       }>;
     };
 
-    const summary = data.choices?.[0]?.message?.content?.trim();
+    const message = data.choices?.[0]?.message?.content?.trim();
 
-    if (!summary) {
+    if (!message) {
       throw new Error('Invalid response from AI provider');
     }
 
-    return summary;
+    return message;
   }
 
   private getAIEndpoint(baseEndpoint: string, type: ProviderType): string {
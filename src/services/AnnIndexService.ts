@@ -0,0 +1,280 @@
+import type { Embedding } from '@/types/provider';
+import type { HnswOptions } from '@/utils/hnsw';
+
+import { ANN_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { HnswIndex } from '@/utils/hnsw';
+import { getEmbeddingVector } from '@/utils/quantization';
+
+interface LoadedIndex {
+  index: HnswIndex;
+  revision: number;
+  dimension: number;
+}
+
+const HNSW_OPTIONS: HnswOptions = {
+  m: ANN_CONFIG.M,
+  efConstruction: ANN_CONFIG.EF_CONSTRUCTION,
+};
+
+/**
+ * Maintains each provider's HNSW graph in IndexedDB as embeddings are
+ * written. Searches run in the vector scoring worker, which restores the
+ * graph over the vectors it already holds.
+ */
+export class AnnIndexService {
+  private static instance: AnnIndexService;
+  private indexes = new Map<string, LoadedIndex>();
+  private builds = new Map<string, Promise<void>>();
+  /** Tail of each provider's chain of graph updates. */
+  private updates = new Map<string, Promise<void>>();
+
+  private constructor() {}
+
+  static getInstance(): AnnIndexService {
+    if (!AnnIndexService.instance) {
+      AnnIndexService.instance = new AnnIndexService();
+    }
+    return AnnIndexService.instance;
+  }
+
+  static resetInstance(): void {
+    AnnIndexService.instance = undefined as unknown as AnnIndexService;
+  }
+
+  upsert(
+    providerId: string,
+    bookmarkId: string,
+    vector: Float32Array
+  ): Promise<void> {
+    return this.enqueue(providerId, () =>
+      this.insert(providerId, bookmarkId, vector)
+    );
+  }
+
+  async remove(bookmarkId: string, providerId?: string): Promise<void> {
+    const providerIds = providerId
+      ? [providerId]
+      : (await db.annIndexes.toArray()).map((meta) => meta.providerId);
+
+    for (const id of providerIds) {
+      await this.enqueue(id, () => this.unlink(id, bookmarkId));
+    }
+  }
+
+  async rebuildIndex(providerId: string): Promise<void> {
+    const embeddings = await db.embeddings
+      .where('providerId')
+      .equals(providerId)
+      .toArray();
+
+    if (embeddings.length < ANN_CONFIG.MIN_VECTORS) {
+      await this.dropIndex(providerId);
+      return;
+    }
+
+    const vectors = this.decodeVectors(embeddings);
+    const dimension = [...vectors.values()].pop()?.length ?? 0;
+    const index = new HnswIndex(HNSW_OPTIONS);
+    for (const [bookmarkId, vector] of vectors) {
+      if (vector.length === dimension) {
+        index.insert(bookmarkId, vector);
+      }
+    }
+
+    const previous = await db.annIndexes.get(providerId);
+    const loaded: LoadedIndex = {
+      index,
+      revision: previous?.revision ?? 0,
+      dimension,
+    };
+
+    await db.transaction('rw', db.annIndexes, db.annNodes, async () => {
+      await db.annNodes.where('providerId').equals(providerId).delete();
+      await this.persist(
+        providerId,
+        loaded,
+        embeddings.map((e) => e.bookmarkId),
+        []
+      );
+    });
+  }
+
+  async dropIndex(providerId: string): Promise<void> {
+    this.indexes.delete(providerId);
+    await db.transaction('rw', db.annIndexes, db.annNodes, async () => {
+      await db.annNodes.where('providerId').equals(providerId).delete();
+      await db.annIndexes.delete(providerId);
+    });
+  }
+
+  /**
+   * Runs graph updates for a provider one at a time, so concurrent writers
+   * extend the same loaded graph instead of each persisting its own copy.
+   */
+  private enqueue(
+    providerId: string,
+    task: () => Promise<void>
+  ): Promise<void> {
+    const previous = this.updates.get(providerId) ?? Promise.resolve();
+    const run = previous.then(task);
+    const tail = run.catch(() => undefined);
+    this.updates.set(providerId, tail);
+    void tail.then(() => {
+      if (this.updates.get(providerId) === tail) {
+        this.updates.delete(providerId);
+      }
+    });
+    return run;
+  }
+
+  private async insert(
+    providerId: string,
+    bookmarkId: string,
+    vector: Float32Array
+  ): Promise<void> {
+    await this.builds.get(providerId);
+
+    const loaded = await this.getIndex(providerId);
+    if (!loaded) {
+      await this.scheduleBuildIfNeeded(providerId);
+      return;
+    }
+
+    if (loaded.dimension !== vector.length) {
+      await this.dropIndex(providerId);
+      return;
+    }
+
+    const changed = loaded.index.insert(bookmarkId, vector);
+    await this.persist(providerId, loaded, changed, []);
+  }
+
+  private async unlink(providerId: string, bookmarkId: string): Promise<void> {
+    await this.builds.get(providerId);
+
+    const loaded = await this.getIndex(providerId);
+    if (!loaded?.index.has(bookmarkId)) {
+      return;
+    }
+
+    const changed = loaded.index.remove(bookmarkId);
+    await this.persist(providerId, loaded, changed, [bookmarkId]);
+  }
+
+  private async scheduleBuildIfNeeded(providerId: string): Promise<void> {
+    if (this.builds.has(providerId)) {
+      return;
+    }
+
+    const count = await db.embeddings
+      .where('providerId')
+      .equals(providerId)
+      .count();
+    if (count < ANN_CONFIG.MIN_VECTORS || this.builds.has(providerId)) {
+      return;
+    }
+
+    const build = this.rebuildIndex(providerId)
+      .catch((error) => {
+        console.error('Failed to build ANN index:', error);
+      })
+      .finally(() => {
+        this.builds.delete(providerId);
+      });
+    this.builds.set(providerId, build);
+  }
+
+  private async getIndex(providerId: string): Promise<LoadedIndex | null> {
+    const meta = await db.annIndexes.get(providerId);
+    if (!meta) {
+      this.indexes.delete(providerId);
+      return null;
+    }
+
+    const cached = this.indexes.get(providerId);
+    if (cached?.revision === meta.revision) {
+      return cached;
+    }
+
+    const [nodes, embeddings] = await Promise.all([
+      db.annNodes.where('providerId').equals(providerId).toArray(),
+      db.embeddings.where('providerId').equals(providerId).toArray(),
+    ]);
+
+    const vectors = new Map(
+      [...this.decodeVectors(embeddings)].filter(
+        ([, vector]) => vector.length === meta.dimension
+      )
+    );
+
+    const loaded: LoadedIndex = {
+      index: HnswIndex.fromRecords(
+        HNSW_OPTIONS,
+        nodes.map(({ bookmarkId, level, neighbors }) => ({
+          id: bookmarkId,
+          level,
+          neighbors,
+        })),
+        vectors,
+        meta.entryPoint
+      ),
+      revision: meta.revision,
+      dimension: meta.dimension,
+    };
+
+    this.indexes.set(providerId, loaded);
+    return loaded;
+  }
+
+  private decodeVectors(embeddings: Embedding[]): Map<string, Float32Array> {
+    const vectors = new Map<string, Float32Array>();
+    for (const embedding of embeddings) {
+      const vector = getEmbeddingVector(embedding);
+      if (vector) {
+        vectors.set(embedding.bookmarkId, vector);
+      }
+    }
+    return vectors;
+  }
+
+  private async persist(
+    providerId: string,
+    loaded: LoadedIndex,
+    changedIds: string[],
+    removedIds: string[]
+  ): Promise<void> {
+    loaded.revision++;
+
+    const records = changedIds.flatMap((id) => {
+      const record = loaded.index.getRecord(id);
+      return record
+        ? [
+            {
+              providerId,
+              bookmarkId: id,
+              level: record.level,
+              neighbors: record.neighbors,
+            },
+          ]
+        : [];
+    });
+
+    await db.transaction('rw', db.annIndexes, db.annNodes, async () => {
+      await db.annNodes.bulkPut(records);
+      await db.annNodes.bulkDelete(
+        removedIds.map((id) => [providerId, id] as [string, string])
+      );
+      await db.annIndexes.put({
+        providerId,
+        dimension: loaded.dimension,
+        entryPoint: loaded.index.entryPoint,
+        nodeCount: loaded.index.size,
+        revision: loaded.revision,
+        updatedAt: new Date(),
+      });
+    });
+
+    this.indexes.set(providerId, loaded);
+  }
+}
@@ -0,0 +1,161 @@
+import { AIService } from './AIService';
+import { SearchService } from './SearchService';
+
+import type { SearchOptions, SearchResult } from './SearchService';
+import type { Bookmark } from '@/types/bookmark';
+import type { AnswerSegment } from '@/utils/citations';
+
+import { ASK_CONFIG, INDEXING_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { throwIfAborted } from '@/utils/abort';
+import { chunkText } from '@/utils/chunking';
+import { citedSources, parseCitations } from '@/utils/citations';
+import { parseSearchQuery } from '@/utils/queryParser';
+import { tokenize } from '@/utils/textUtils';
+
+export interface AskSource {
+  /** 1-based number the answer uses to cite this source. */
+  number: number;
+  bookmark: Bookmark;
+  url: string;
+  passage: string;
+  cited: boolean;
+}
+
+export interface AskAnswer {
+  question: string;
+  answer: string;
+  segments: AnswerSegment[];
+  sources: AskSource[];
+}
+
+export type AskOptions = Pick<
+  SearchOptions,
+  'providerId' | 'aggregate' | 'signal'
+>;
+
+/**
+ * Answers questions from crawled bookmark content: retrieves the best
+ * passages with hybrid search and has the chat model answer with inline
+ * citations back to them.
+ */
+export class AskService {
+  private static instance: AskService;
+  private searchService: SearchService;
+  private aiService: AIService;
+
+  private constructor() {
+    this.searchService = SearchService.getInstance();
+    this.aiService = AIService.getInstance();
+  }
+
+  static getInstance(): AskService {
+    if (!AskService.instance) {
+      AskService.instance = new AskService();
+    }
+    return AskService.instance;
+  }
+
+  static resetInstance(): void {
+    AskService.instance = undefined as unknown as AskService;
+  }
+
+  async ask(question: string, options: AskOptions = {}): Promise<AskAnswer> {
+    const results = await this.searchService.searchWithFallback(question, {
+      ...options,
+      mode: 'hybrid',
+      limit: ASK_CONFIG.MAX_SOURCES,
+    });
+
+    const queryTerms = new Set(tokenize(parseSearchQuery(question).text));
+    const sources: Omit<AskSource, 'number' | 'cited'>[] = [];
+
+    for (const result of results) {
+      const passage = await this.selectPassage(result, queryTerms);
+      if (passage) {
+        sources.push({ bookmark: result.bookmark, ...passage });
+      }
+    }
+    throwIfAborted(options.signal);
+
+    if (sources.length === 0) {
+      throw new Error('No bookmarked content matches this question');
+    }
+
+    const answer = await this.aiService.answerQuestion(
+      question,
+      sources.map((source) => ({
+        title: source.bookmark.title,
+        url: source.url,
+        text: source.passage,
+      })),
+      { signal: options.signal }
+    );
+    const segments = parseCitations(answer, sources.length);
+    const cited = new Set(citedSources(segments));
+
+    return {
+      question,
+      answer,
+      segments,
+      sources: sources.map((source, index) => ({
+        ...source,
+        number: index + 1,
+        cited: cited.has(index + 1),
+      })),
+    };
+  }
+
+  /**
+   * Uses the chunk that matched during search when there is one, otherwise
+   * the crawled chunk sharing the most terms with the question, and finally
+   * the bookmark's own summary or description.
+   */
+  private async selectPassage(
+    result: SearchResult,
+    queryTerms: Set<string>
+  ): Promise<{ url: string; passage: string } | undefined> {
+    const { bookmark } = result;
+
+    if (result.passage) {
+      return {
+        url: result.passage.url,
+        passage: this.truncate(result.passage.text),
+      };
+    }
+
+    const contents = (
+      await db.content.where('bookmarkId').equals(bookmark.id).toArray()
+    ).filter((content) => !content.fetchError && content.content);
+
+    let best: { url: string; text: string; overlap: number } | undefined;
+    for (const content of contents) {
+      for (const chunk of chunkText(content.content, {
+        maxTokens: INDEXING_CONFIG.CHUNK_MAX_TOKENS,
+        overlapTokens: INDEXING_CONFIG.CHUNK_OVERLAP_TOKENS,
+      })) {
+        const overlap = new Set(
+          tokenize(chunk.text).filter((term) => queryTerms.has(term))
+        ).size;
+        if (!best || overlap > best.overlap) {
+          best = { url: content.url, text: chunk.text, overlap };
+        }
+      }
+    }
+
+    if (best) {
+      return { url: best.url, passage: this.truncate(best.text) };
+    }
+
+    const summary = bookmark.aiSummary ?? bookmark.userDescription;
+    return summary
+      ? { url: bookmark.url, passage: this.truncate(summary) }
+      : undefined;
+  }
+
+  private truncate(text: string): string {
+    return text.length > ASK_CONFIG.MAX_PASSAGE_CHARS
+      ? `${text.slice(0, ASK_CONFIG.MAX_PASSAGE_CHARS)}…`
+      : text;
+  }
+}
@@ -0,0 +1,49 @@
+import browser from 'webextension-polyfill';
+
+import type { RuntimeMessage } from '@/types/messages';
+
+import { db } from '@/storage/database';
+import { MessageType } from '@/types/messages';
+
+/**
+ * Records changes to the text a bookmark is embedded from (title, notes,
+ * tags, crawled content or summary). Embeddings remember the bookmark
+ * version they were generated from, so a bumped version marks them stale,
+ * and the background script re-indexes the bookmark with providers set to
+ * `autoIndex`.
+ */
+export class BookmarkChangeService {
+  private static instance: BookmarkChangeService;
+
+  private constructor() {}
+
+  static getInstance(): BookmarkChangeService {
+    if (!BookmarkChangeService.instance) {
+      BookmarkChangeService.instance = new BookmarkChangeService();
+    }
+    return BookmarkChangeService.instance;
+  }
+
+  async recordChanges(bookmarkIds: string[]): Promise<void> {
+    if (bookmarkIds.length === 0) {
+      return;
+    }
+
+    await db.bookmarks
+      .where(':id')
+      .anyOf(bookmarkIds)
+      .modify((bookmark) => {
+        bookmark.version++;
+      });
+
+    const message: RuntimeMessage = {
+      type: MessageType.BOOKMARKS_CHANGED,
+      bookmarkIds,
+    };
+    try {
+      await browser.runtime.sendMessage(message);
+    } catch (error) {
+      console.warn('Failed to notify background of bookmark changes:', error);
+    }
+  }
+}
@@ -1,7 +1,10 @@
 import browser from 'webextension-polyfill';
 
+import { BookmarkChangeService } from './BookmarkChangeService';
 import { CrawlerService } from './CrawlerService';
+import { IndexingService } from './IndexingService';
 import { TagService } from './TagService';
+import { TextIndexService } from './TextIndexService';
 
 import type { Bookmark } from '@/types/bookmark';
 import type { Content, RelatedPage } from '@/types/content';
@@ -14,10 +17,16 @@ export class BookmarkService {
 
   private tagService: TagService;
   private crawlerService: CrawlerService;
+  private textIndex: TextIndexService;
+  private indexing: IndexingService;
+  private changes: BookmarkChangeService;
 
   constructor() {
     this.tagService = TagService.getInstance();
     this.crawlerService = CrawlerService.getInstance();
+    this.textIndex = TextIndexService.getInstance();
+    this.indexing = IndexingService.getInstance();
+    this.changes = BookmarkChangeService.getInstance();
   }
 
   static getInstance(): BookmarkService {
@@ -77,6 +86,8 @@ export class BookmarkService {
       title,
       lastModified: new Date(),
     });
+    await this.textIndex.indexBookmark(id);
+    await this.changes.recordChanges([id]);
   }
 
   async updateUserDescription(id: string, description: string): Promise<void> {
@@ -87,9 +98,10 @@ export class BookmarkService {
 
     await db.bookmarks.update(id, {
       userDescription: description,
-      version: bookmark.version + 1,
       lastModified: new Date(),
     });
+    await this.textIndex.indexBookmark(id);
+    await this.changes.recordChanges([id]);
   }
 
   async updateCrawlDepth(
@@ -117,13 +129,14 @@ export class BookmarkService {
     const browserBookmarkIds = new Set(browserBookmarks.map((b) => b.id));
     const existingBookmarkIds = new Set(existingBookmarks.map((b) => b.id));
 
-    let addedCount = 0;
+    const addedIds: string[] = [];
     let removedCount = 0;
 
     for (const browserBookmark of browserBookmarks) {
       if (!existingBookmarkIds.has(browserBookmark.id)) {
         await db.bookmarks.add(browserBookmark);
-        addedCount++;
+        await this.textIndex.indexBookmark(browserBookmark.id);
+        addedIds.push(browserBookmark.id);
 
         if (browserBookmark.folderPath) {
           await this.assignFolderTag(
@@ -141,7 +154,8 @@ export class BookmarkService {
       }
     }
 
-    return { added: addedCount, removed: removedCount };
+    await this.changes.recordChanges(addedIds);
+    return { added: addedIds.length, removed: removedCount };
   }
 
   private async removeBookmark(id: string): Promise<void> {
@@ -149,6 +163,8 @@ export class BookmarkService {
       await db.bookmarkTags.where('bookmarkId').equals(id).delete();
       await db.bookmarks.delete(id);
     });
+    await this.textIndex.removeBookmark(id);
+    await this.indexing.deleteBookmarkEmbeddings(id);
   }
 
   private async assignFolderTag(
@@ -226,7 +242,12 @@ export class BookmarkService {
     }
 
     const effectiveDepth = depth ?? bookmark.crawlDepth;
-    await this.crawlerService.crawlBookmark(id, bookmark.url, effectiveDepth);
+    try {
+      await this.crawlerService.crawlBookmark(id, bookmark.url, effectiveDepth);
+    } finally {
+      await this.textIndex.indexBookmark(id);
+      await this.changes.recordChanges([id]);
+    }
   }
 
   async getBookmarkContent(id: string): Promise<Content[]> {
@@ -239,5 +260,7 @@ export class BookmarkService {
 
   async deleteBookmarkContent(id: string): Promise<void> {
     await this.crawlerService.deleteBookmarkContent(id);
+    await this.textIndex.indexBookmark(id);
+    await this.changes.recordChanges([id]);
   }
 }
@@ -1,6 +1,6 @@
 import { IndexingService } from './IndexingService';
 
-import type { Bookmark } from '@/types/bookmark';
+import type { Bookmark, EmbeddingStatus } from '@/types/bookmark';
 
 import { db } from '@/storage/database';
 
@@ -38,32 +38,18 @@ export class BookmarkStatusService {
       contentByBookmark.set(content.bookmarkId, true);
     }
 
-    const allEmbeddings = await db.embeddings.toArray();
-    const embeddingsByBookmark = new Map<
-      string,
-      { createdAt: Date; modelName: string }
-    >();
-    for (const embedding of allEmbeddings) {
-      embeddingsByBookmark.set(embedding.bookmarkId, {
-        createdAt: embedding.createdAt,
-        modelName: embedding.modelName,
-      });
-    }
+    const indexedIds = new Set(
+      await db.embeddings.orderBy('bookmarkId').uniqueKeys()
+    );
+    const embeddingStatuses =
+      await this.indexingService.getEmbeddingStatuses(bookmarks);
 
     for (const bookmark of bookmarks) {
       const isCrawled = contentByBookmark.has(bookmark.id);
-      const isIndexed = embeddingsByBookmark.has(bookmark.id);
+      const isIndexed = indexedIds.has(bookmark.id);
       const hasAISummary = !!bookmark.aiSummary;
       const hasUserDescription = !!bookmark.userDescription;
-
-      let isStale = false;
-      if (isIndexed) {
-        const embeddingInfo = embeddingsByBookmark.get(bookmark.id);
-        if (embeddingInfo) {
-          isStale =
-            bookmark.lastModified.getTime() > embeddingInfo.createdAt.getTime();
-        }
-      }
+      const isStale = this.isStale(embeddingStatuses.get(bookmark.id));
 
       statusMap.set(bookmark.id, {
         isCrawled,
@@ -97,17 +83,10 @@ export class BookmarkStatusService {
     const hasAISummary = !!bookmark.aiSummary;
     const hasUserDescription = !!bookmark.userDescription;
 
-    let isStale = false;
-    if (isIndexed) {
-      const embedding = await db.embeddings
-        .where('bookmarkId')
-        .equals(bookmarkId)
-        .first();
-      if (embedding) {
-        isStale =
-          bookmark.lastModified.getTime() > embedding.createdAt.getTime();
-      }
-    }
+    const embeddingStatuses = await this.indexingService.getEmbeddingStatuses([
+      bookmark,
+    ]);
+    const isStale = this.isStale(embeddingStatuses.get(bookmarkId));
 
     return {
       isCrawled,
@@ -117,4 +96,9 @@ export class BookmarkStatusService {
       isStale,
     };
   }
+
+  /** Indexed by the active provider from content that has since changed. */
+  private isStale(status?: EmbeddingStatus): boolean {
+    return !!status?.isIndexed && !status.isUpToDate;
+  }
 }
@@ -1,7 +1,7 @@
 import type { Bookmark } from '@/types/bookmark';
 import type { Tag } from '@/types/tag';
 
-interface PreparedContent {
+export interface PreparedContent {
   text: string;
   components: {
     title: string;
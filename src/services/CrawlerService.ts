@@ -7,6 +7,7 @@ import type { CrawlerSettings } from '@/types/settings';
 
 import { db } from '@/storage/database';
 import { ContentType } from '@/types/content';
+import { sha256Hex } from '@/utils/hashUtils';
 
 const settingsService = SettingsService.getInstance();
 
@@ -176,7 +177,7 @@ export class CrawlerService {
 
       const extractedContent = this.extractContentWithReadability(doc, url);
       const links = this.extractLinks(doc, url);
-      const contentHash = await this.calculateHash(extractedContent.content);
+      const contentHash = await sha256Hex(extractedContent.content);
 
       console.log(`[CrawlerService] Content extracted:`, {
         title: extractedContent.title,
@@ -313,7 +314,7 @@ export class CrawlerService {
       type,
       title: 'Failed to fetch',
       content: '',
-      contentHash: await this.calculateHash(''),
+      contentHash: await sha256Hex(''),
       links: [],
       fetchedAt: Date.now(),
       fetchError: errorMessage,
@@ -549,14 +550,6 @@ export class CrawlerService {
     });
   }
 
-  private async calculateHash(content: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(content);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
-  }
-
   private async applyRateLimit(rateLimitMs: number): Promise<void> {
     const now = Date.now();
     const timeSinceLastFetch = now - this.lastFetchTime;
@@ -1,16 +1,46 @@
+import { AnnIndexService } from './AnnIndexService';
+import { QueryEmbeddingCacheService } from './QueryEmbeddingCacheService';
+import { VectorScoringService } from './VectorScoringService';
+
+import type { VectorKey } from '@/storage/fullVectors';
 import type {
   EmbeddingProvider,
+  EmbeddingQuantization,
+  EmbeddingVector,
   ProviderType,
   ProviderTestResult,
 } from '@/types/provider';
+import type { EncodedEmbedding } from '@/utils/quantization';
+import type { Table } from 'dexie';
 
 import { ProviderFactory } from '@/providers/ProviderFactory';
 import { db } from '@/storage/database';
+import { readFullVectors } from '@/storage/fullVectors';
+import {
+  ENCODED_EMBEDDING_FIELDS,
+  encodeEmbedding,
+} from '@/utils/quantization';
+
+/** Settings that change the vector a provider returns for a query. */
+const EMBEDDING_CONFIG_FIELDS = [
+  'type',
+  'endpoint',
+  'modelName',
+  'documentPrefix',
+  'documentSuffix',
+] as const;
 
 export class EmbeddingProviderService {
   private static instance: EmbeddingProviderService;
+  private queryCache: QueryEmbeddingCacheService;
+  private vectorScoring: VectorScoringService;
+  private annIndex: AnnIndexService;
 
-  private constructor() {}
+  private constructor() {
+    this.annIndex = AnnIndexService.getInstance();
+    this.queryCache = QueryEmbeddingCacheService.getInstance();
+    this.vectorScoring = VectorScoringService.getInstance();
+  }
 
   static getInstance(): EmbeddingProviderService {
     if (!EmbeddingProviderService.instance) {
@@ -63,6 +93,70 @@ export class EmbeddingProviderService {
     }
 
     await db.embeddingProviders.update(id, updates);
+
+    if (
+      EMBEDDING_CONFIG_FIELDS.some(
+        (field) => field in updates && updates[field] !== provider[field]
+      )
+    ) {
+      await this.queryCache.invalidateProvider(id);
+    }
+
+    const quantization = updates.quantization ?? provider.quantization;
+    if ((quantization ?? 'none') !== (provider.quantization ?? 'none')) {
+      await this.requantizeEmbeddings(id);
+    }
+  }
+
+  /**
+   * Re-encodes stored embeddings to match the provider's quantization
+   * setting. Float vectors move to the full-precision tables while the rows
+   * are quantized and back onto the rows otherwise, so switching modes never
+   * loses precision.
+   */
+  async requantizeEmbeddings(providerId: string): Promise<number> {
+    const provider = await db.embeddingProviders.get(providerId);
+    if (!provider) {
+      throw new Error(`Provider with ID "${providerId}" not found`);
+    }
+
+    const quantization = provider.quantization ?? 'none';
+    const [embeddings, chunks] = await db.transaction(
+      'rw',
+      [db.embeddings, db.chunkEmbeddings, db.embeddingVectors, db.chunkVectors],
+      async () => [
+        await this.reencodeRows(
+          db.embeddings,
+          db.embeddingVectors,
+          providerId,
+          quantization,
+          ({ bookmarkId }, embedding) => ({ bookmarkId, providerId, embedding })
+        ),
+        await this.reencodeRows(
+          db.chunkEmbeddings,
+          db.chunkVectors,
+          providerId,
+          quantization,
+          ({ bookmarkId, url, chunkIndex }, embedding) => ({
+            bookmarkId,
+            providerId,
+            url,
+            chunkIndex,
+            embedding,
+          })
+        ),
+      ]
+    );
+
+    // Binary rows keep no vector the worker could traverse a graph with
+    if (quantization === 'binary') {
+      await this.annIndex.dropIndex(providerId);
+    } else if (!(await db.annIndexes.get(providerId))) {
+      await this.annIndex.rebuildIndex(providerId);
+    }
+    this.vectorScoring.publishUpdate({ type: 'invalidate', providerId });
+
+    return embeddings + chunks;
   }
 
   async deleteProvider(id: string): Promise<void> {
@@ -77,7 +171,35 @@ export class EmbeddingProviderService {
       );
     }
 
-    await db.embeddingProviders.delete(id);
+    await db.transaction(
+      'rw',
+      [
+        db.embeddingProviders,
+        db.embeddings,
+        db.chunkEmbeddings,
+        db.embeddingVectors,
+        db.chunkVectors,
+        db.annIndexes,
+        db.annNodes,
+        db.indexingJobs,
+        db.indexingJobItems,
+      ],
+      async () => {
+        const jobIds = await db.indexingJobs
+          .filter((job) => job.providerId === id)
+          .primaryKeys();
+        await db.indexingJobItems.where('jobId').anyOf(jobIds).delete();
+        await db.indexingJobs.bulkDelete(jobIds);
+        await db.embeddings.where('providerId').equals(id).delete();
+        await db.chunkEmbeddings.where('providerId').equals(id).delete();
+        await db.embeddingVectors.where('providerId').equals(id).delete();
+        await db.chunkVectors.where('providerId').equals(id).delete();
+        await this.annIndex.dropIndex(id);
+        await db.embeddingProviders.delete(id);
+      }
+    );
+    await this.queryCache.invalidateProvider(id);
+    this.vectorScoring.publishUpdate({ type: 'invalidate', providerId: id });
   }
 
   async setActiveProvider(id: string): Promise<void> {
@@ -144,4 +266,45 @@ export class EmbeddingProviderService {
       indexedBookmarks,
     };
   }
+
+  private async reencodeRows<
+    T extends EncodedEmbedding & VectorKey & { providerId: string },
+    V extends EmbeddingVector,
+    K,
+  >(
+    rows: Table<T, K>,
+    vectors: Table<V, K>,
+    providerId: string,
+    quantization: EmbeddingQuantization,
+    toVector: (row: T, embedding: Float32Array) => V
+  ): Promise<number> {
+    const stale = (
+      await rows.where('providerId').equals(providerId).toArray()
+    ).filter((row) => (row.quantization ?? 'none') !== quantization);
+    const fullVectors = await readFullVectors(providerId, stale, (row) => row);
+
+    const moved: V[] = [];
+    const updated = stale.flatMap((row) => {
+      const vector = fullVectors.get(row);
+      if (!vector) {
+        return [];
+      }
+
+      if (row.embedding) {
+        moved.push(toVector(row, vector));
+      }
+      for (const field of ENCODED_EMBEDDING_FIELDS) {
+        delete row[field];
+      }
+      return [{ ...row, ...encodeEmbedding(vector, quantization) }];
+    });
+
+    await rows.bulkPut(updated);
+    if (quantization === 'none') {
+      await vectors.where('providerId').equals(providerId).delete();
+    } else {
+      await vectors.bulkPut(moved);
+    }
+    return updated.length;
+  }
 }
@@ -0,0 +1,124 @@
+import type { FeedbackVote, SearchFeedback } from '@/types/search';
+
+import { FEEDBACK_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { parseSearchQuery } from '@/utils/queryParser';
+import { querySimilarity } from '@/utils/relevanceFeedback';
+
+export interface RelatedFeedback extends SearchFeedback {
+  /** Term overlap between the recorded query and the current one. */
+  similarity: number;
+}
+
+export class FeedbackService {
+  private static instance: FeedbackService;
+
+  private constructor() {}
+
+  static getInstance(): FeedbackService {
+    if (!FeedbackService.instance) {
+      FeedbackService.instance = new FeedbackService();
+    }
+    return FeedbackService.instance;
+  }
+
+  static resetInstance(): void {
+    FeedbackService.instance = undefined as unknown as FeedbackService;
+  }
+
+  async recordClick(query: string, bookmarkId: string): Promise<void> {
+    const normalized = this.normalizeQuery(query);
+    if (!normalized) {
+      return;
+    }
+
+    const existing = await db.searchFeedback.get([normalized, bookmarkId]);
+    await db.searchFeedback.put({
+      query: normalized,
+      bookmarkId,
+      clicks: (existing?.clicks ?? 0) + 1,
+      vote: existing?.vote,
+      updatedAt: new Date(),
+    });
+  }
+
+  /** Sets or, with `undefined`, clears an explicit relevance vote. */
+  async setVote(
+    query: string,
+    bookmarkId: string,
+    vote: FeedbackVote | undefined
+  ): Promise<void> {
+    const normalized = this.normalizeQuery(query);
+    if (!normalized) {
+      return;
+    }
+
+    const existing = await db.searchFeedback.get([normalized, bookmarkId]);
+    const clicks = existing?.clicks ?? 0;
+
+    if (!vote && clicks === 0) {
+      await db.searchFeedback.delete([normalized, bookmarkId]);
+      return;
+    }
+
+    await db.searchFeedback.put({
+      query: normalized,
+      bookmarkId,
+      clicks,
+      vote,
+      updatedAt: new Date(),
+    });
+  }
+
+  async getVotes(query: string): Promise<Map<string, FeedbackVote>> {
+    const rows = await db.searchFeedback
+      .where('query')
+      .equals(this.normalizeQuery(query))
+      .toArray();
+
+    return new Map(
+      rows.flatMap((row) =>
+        row.vote ? [[row.bookmarkId, row.vote] as const] : []
+      )
+    );
+  }
+
+  /** Feedback recorded for this query or ones sharing enough terms. */
+  async getRelatedFeedback(query: string): Promise<RelatedFeedback[]> {
+    const normalized = this.normalizeQuery(query);
+    if (!normalized) {
+      return [];
+    }
+
+    const rows = await db.searchFeedback.toArray();
+    const similarities = new Map<string, number>();
+
+    return rows.flatMap((row) => {
+      let similarity = similarities.get(row.query);
+      if (similarity === undefined) {
+        similarity =
+          row.query === normalized ? 1 : querySimilarity(row.query, normalized);
+        similarities.set(row.query, similarity);
+      }
+
+      return similarity >= FEEDBACK_CONFIG.QUERY_SIMILARITY_THRESHOLD
+        ? [{ ...row, similarity }]
+        : [];
+    });
+  }
+
+  async countFeedback(): Promise<number> {
+    return await db.searchFeedback.count();
+  }
+
+  async resetFeedback(): Promise<void> {
+    await db.searchFeedback.clear();
+  }
+
+  private normalizeQuery(query: string): string {
+    return parseSearchQuery(query)
+      .text.toLowerCase()
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,717 @@
+import browser from 'webextension-polyfill';
+
+import { IndexingService } from './IndexingService';
+import { SettingsService } from './SettingsService';
+
+import type { IndexingResult } from './IndexingService';
+import type {
+  IndexingJob,
+  IndexingJobItem,
+  IndexingProgress,
+} from '@/types/indexing';
+import type { RuntimeMessage } from '@/types/messages';
+import type { EmbeddingProvider } from '@/types/provider';
+
+import { INDEXING_CONFIG, INDEXING_QUEUE_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { MessageType } from '@/types/messages';
+import { backoffDelay } from '@/utils/backoff';
+
+interface JobRun {
+  jobId: string;
+  providerId: string;
+  maxRetries: number;
+  maxConcurrency: number;
+  /** Halved while the provider fails or throttles, raised on success. */
+  concurrency: number;
+  /** Bookmarks failed with retryable errors since the last success. */
+  outage: string[];
+  stopped: boolean;
+}
+
+interface IndexingOutcome {
+  result: IndexingResult;
+  attempts: number;
+}
+
+interface EnqueueOptions {
+  /** All bookmarks when omitted. */
+  bookmarkIds?: string[];
+  /** The active provider when omitted. */
+  providerId?: string;
+}
+
+/**
+ * Indexing jobs persisted in IndexedDB so the background script can resume
+ * them after the service worker is suspended. Each provider has at most one
+ * unfinished job. Extension pages request work and follow progress by
+ * runtime message.
+ */
+export class IndexingQueueService {
+  private static instance: IndexingQueueService;
+  private indexingService: IndexingService;
+  private settingsService: SettingsService;
+  private processing: Promise<IndexingJob[]> | null = null;
+
+  private constructor() {
+    this.indexingService = IndexingService.getInstance();
+    this.settingsService = SettingsService.getInstance();
+  }
+
+  static getInstance(): IndexingQueueService {
+    if (!IndexingQueueService.instance) {
+      IndexingQueueService.instance = new IndexingQueueService();
+    }
+    return IndexingQueueService.instance;
+  }
+
+  static resetInstance(): void {
+    IndexingQueueService.instance =
+      undefined as unknown as IndexingQueueService;
+  }
+
+  /**
+   * Adds bookmarks to the provider's unfinished job, starting a new one if
+   * there is none. Finished items are queued again and a paused job resumes.
+   * A completed job with failures is reopened instead of replaced, so that
+   * its failed items can still be retried.
+   */
+  async enqueue({
+    bookmarkIds,
+    providerId,
+  }: EnqueueOptions = {}): Promise<IndexingJob> {
+    const provider = providerId
+      ? await db.embeddingProviders.get(providerId)
+      : await db.embeddingProviders.filter((p) => p.isActive).first();
+    if (!provider) {
+      throw new Error(
+        providerId
+          ? `Provider with ID "${providerId}" not found`
+          : 'No active embedding provider configured'
+      );
+    }
+
+    const ids = [
+      ...new Set(
+        bookmarkIds ?? (await db.bookmarks.toCollection().primaryKeys())
+      ),
+    ];
+
+    const job = await db.transaction(
+      'rw',
+      db.indexingJobs,
+      db.indexingJobItems,
+      async () => {
+        const now = new Date();
+        let active = await this.getActiveJob(provider.id);
+        if (!active) {
+          const latest = await this.getLatestJob(provider.id);
+          active =
+            latest?.status === 'completed' && latest.failed > 0 ? latest : null;
+        }
+        if (!active) {
+          await this.deleteFinishedJobs(provider.id);
+        }
+
+        const current: IndexingJob = active
+          ? {
+              ...active,
+              status: 'running',
+              pausedUntil: undefined,
+              completedAt: undefined,
+            }
+          : {
+              id: crypto.randomUUID(),
+              providerId: provider.id,
+              status: 'running',
+              total: 0,
+              processed: 0,
+              succeeded: 0,
+              skipped: 0,
+              failed: 0,
+              createdAt: now,
+              updatedAt: now,
+            };
+        const existing = await db.indexingJobItems.bulkGet(
+          ids.map((id): [string, string] => [current.id, id])
+        );
+
+        const queued = ids.filter((_, i) => {
+          const item = existing[i];
+          if (!item) {
+            current.total++;
+            return true;
+          }
+          if (
+            item.status === 'succeeded' ||
+            item.status === 'skipped' ||
+            item.status === 'failed'
+          ) {
+            current.processed--;
+            current[item.status]--;
+            return true;
+          }
+          return false;
+        });
+
+        await db.indexingJobItems.bulkPut(
+          queued.map((bookmarkId) => ({
+            jobId: current.id,
+            bookmarkId,
+            status: 'pending' as const,
+            attempts: 0,
+            updatedAt: now,
+          }))
+        );
+        current.updatedAt = now;
+        await db.indexingJobs.put(current);
+        return current;
+      }
+    );
+
+    this.broadcast(job);
+    return job;
+  }
+
+  /**
+   * Queues bookmarks for the active provider and for every provider set to
+   * `autoIndex`, so that their embeddings follow bookmark changes.
+   */
+  async enqueueForProviders(bookmarkIds?: string[]): Promise<IndexingJob[]> {
+    const providers = await db.embeddingProviders
+      .filter((provider) => provider.isActive || !!provider.autoIndex)
+      .toArray();
+    providers.sort((a, b) => Number(b.isActive) - Number(a.isActive));
+    return this.enqueueEach(providers, bookmarkIds);
+  }
+
+  /** Queues changed bookmarks for the providers set to `autoIndex`. */
+  async enqueueChanged(bookmarkIds: string[]): Promise<IndexingJob[]> {
+    const providers = await db.embeddingProviders
+      .filter((provider) => !!provider.autoIndex)
+      .toArray();
+    return this.enqueueEach(providers, bookmarkIds);
+  }
+
+  /**
+   * Works through the unfinished jobs one after another, each with a pool of
+   * concurrent requests that each embed a batch of bookmarks, persisting
+   * each result. Items left running by a suspended worker are retried, and
+   * a paused job resumes once its pause has elapsed. Concurrent calls share
+   * one run; resolves with the jobs it ran once each has completed, paused
+   * or been cancelled.
+   */
+  process(): Promise<IndexingJob[]> {
+    this.processing ??= this.runJobs().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
+
+  async cancel(jobId: string): Promise<void> {
+    const job = await db.indexingJobs.get(jobId);
+    if (job?.status !== 'running' && job?.status !== 'paused') {
+      return;
+    }
+
+    const now = new Date();
+    const cancelled: IndexingJob = {
+      ...job,
+      status: 'cancelled',
+      updatedAt: now,
+      completedAt: now,
+      pausedUntil: undefined,
+    };
+    await db.indexingJobs.put(cancelled);
+    this.broadcast(cancelled);
+  }
+
+  async resume(jobId: string): Promise<IndexingJob | null> {
+    const job = await db.indexingJobs.get(jobId);
+    if (job?.status !== 'paused') {
+      return job ?? null;
+    }
+
+    const resumed: IndexingJob = {
+      ...job,
+      status: 'running',
+      updatedAt: new Date(),
+      pausedUntil: undefined,
+    };
+    await db.indexingJobs.put(resumed);
+    this.broadcast(resumed);
+    return resumed;
+  }
+
+  /** Queues the failed items of the latest job, or provider's job, again. */
+  async retryFailed(providerId?: string): Promise<IndexingJob | null> {
+    const latest = await this.getLatestJob(providerId);
+    if (!latest) {
+      return null;
+    }
+
+    const failed = await db.indexingJobItems
+      .where('[jobId+status]')
+      .equals([latest.id, 'failed'])
+      .toArray();
+    if (failed.length === 0) {
+      return null;
+    }
+    return this.enqueue({
+      bookmarkIds: failed.map((item) => item.bookmarkId),
+      providerId: latest.providerId,
+    });
+  }
+
+  /** The running and paused jobs, oldest first. */
+  async getActiveJobs(): Promise<IndexingJob[]> {
+    const jobs = await db.indexingJobs
+      .where('status')
+      .anyOf('running', 'paused')
+      .toArray();
+    return jobs.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /** The oldest running or paused job, optionally for one provider. */
+  async getActiveJob(providerId?: string): Promise<IndexingJob | null> {
+    const jobs = await this.getActiveJobs();
+    return (
+      jobs.find((job) => !providerId || job.providerId === providerId) ?? null
+    );
+  }
+
+  async getLatestJob(providerId?: string): Promise<IndexingJob | null> {
+    const jobs = db.indexingJobs.orderBy('createdAt').reverse();
+    return (
+      (await (
+        providerId ? jobs.filter((job) => job.providerId === providerId) : jobs
+      ).first()) ?? null
+    );
+  }
+
+  /** The most recent job of each provider, newest first. */
+  async getLatestJobs(): Promise<IndexingJob[]> {
+    const jobs = await db.indexingJobs.orderBy('createdAt').reverse().toArray();
+    return jobs.filter(
+      (job, i) => jobs.findIndex((j) => j.providerId === job.providerId) === i
+    );
+  }
+
+  /**
+   * Asks the background script to index bookmarks, all by default. Without
+   * a provider they are indexed by every provider kept up to date. Resolves
+   * with the ids of the jobs they were queued in.
+   */
+  async requestIndexing(options: EnqueueOptions = {}): Promise<string[]> {
+    const message: RuntimeMessage = {
+      type: MessageType.INDEXING_START,
+      ...options,
+    };
+    const jobIds: string[] | undefined =
+      await browser.runtime.sendMessage(message);
+    return jobIds ?? [];
+  }
+
+  async requestCancel(jobId: string): Promise<void> {
+    const message: RuntimeMessage = {
+      type: MessageType.INDEXING_CANCEL,
+      jobId,
+    };
+    await browser.runtime.sendMessage(message);
+  }
+
+  async requestResume(jobId: string): Promise<void> {
+    const message: RuntimeMessage = {
+      type: MessageType.INDEXING_RESUME,
+      jobId,
+    };
+    await browser.runtime.sendMessage(message);
+  }
+
+  async requestRetryFailed(providerId?: string): Promise<void> {
+    const message: RuntimeMessage = {
+      type: MessageType.INDEXING_RETRY_FAILED,
+      providerId,
+    };
+    await browser.runtime.sendMessage(message);
+  }
+
+  /** Calls `listener` with each progress update; returns an unsubscribe. */
+  onProgress(listener: (progress: IndexingProgress) => void): () => void {
+    const handler = (message: unknown) => {
+      const runtimeMessage = message as RuntimeMessage | undefined;
+      if (runtimeMessage?.type === MessageType.INDEXING_PROGRESS) {
+        listener(runtimeMessage.job);
+      }
+      return undefined;
+    };
+
+    browser.runtime.onMessage.addListener(handler);
+    return () => browser.runtime.onMessage.removeListener(handler);
+  }
+
+  private async enqueueEach(
+    providers: EmbeddingProvider[],
+    bookmarkIds?: string[]
+  ): Promise<IndexingJob[]> {
+    const jobs: IndexingJob[] = [];
+    for (const provider of providers) {
+      jobs.push(await this.enqueue({ bookmarkIds, providerId: provider.id }));
+    }
+    return jobs;
+  }
+
+  private async runJobs(): Promise<IndexingJob[]> {
+    const ran: IndexingJob[] = [];
+    for (;;) {
+      // A job paused during this run waits for a later one
+      const next = (await this.getActiveJobs()).find(
+        (job) => !ran.some((done) => done.id === job.id)
+      );
+      if (!next) {
+        return ran;
+      }
+
+      ran.push((await this.runJob(next)) ?? next);
+    }
+  }
+
+  private async runJob(active: IndexingJob): Promise<IndexingJob | null> {
+    let job: IndexingJob | null = active;
+    if (job.status === 'paused') {
+      if (job.pausedUntil && job.pausedUntil.getTime() > Date.now()) {
+        return job;
+      }
+      job = await this.resume(job.id);
+    }
+    if (!job) {
+      return null;
+    }
+
+    // The provider was deleted after the job was queued
+    if (!(await db.embeddingProviders.get(job.providerId))) {
+      await this.cancel(job.id);
+      return (await db.indexingJobs.get(job.id)) ?? null;
+    }
+
+    await db.indexingJobItems
+      .where('[jobId+status]')
+      .equals([job.id, 'running'])
+      .modify({ status: 'pending' });
+
+    const { concurrency, maxRetries } =
+      await this.settingsService.getIndexingSettings();
+    const run: JobRun = {
+      jobId: job.id,
+      providerId: job.providerId,
+      maxRetries,
+      maxConcurrency: Math.max(concurrency, 1),
+      concurrency: Math.max(concurrency, 1),
+      outage: [],
+      stopped: false,
+    };
+
+    while (job?.status === 'running') {
+      await Promise.all(
+        Array.from({ length: run.maxConcurrency }, (_, slot) =>
+          this.runWorker(run, slot)
+        )
+      );
+      job = await this.completeJob(run.jobId);
+    }
+
+    return job;
+  }
+
+  private async runWorker(run: JobRun, slot: number): Promise<void> {
+    while (!run.stopped) {
+      const job = await db.indexingJobs.get(run.jobId);
+      if (job?.status !== 'running') {
+        run.stopped = true;
+        return;
+      }
+
+      // Slots above the current concurrency idle until it recovers
+      if (slot >= run.concurrency) {
+        const pending = await db.indexingJobItems
+          .where('[jobId+status]')
+          .equals([run.jobId, 'pending'])
+          .count();
+        if (pending === 0) {
+          return;
+        }
+        await this.delay(INDEXING_QUEUE_CONFIG.BACKOFF_BASE_MS);
+        continue;
+      }
+
+      const items = await this.claimNextItems(
+        run.jobId,
+        INDEXING_CONFIG.BATCH_SIZE
+      );
+      if (items.length === 0) {
+        return;
+      }
+
+      const results = await this.indexingService.indexBookmarks(
+        items.map((item) => item.bookmarkId),
+        { providerId: run.providerId }
+      );
+
+      for (const [i, { bookmarkId }] of items.entries()) {
+        // Items after a pause or cancellation are left for a later run
+        const outcome = run.stopped
+          ? null
+          : await this.indexWithRetry(run, bookmarkId, results[i]!);
+        if (!outcome) {
+          run.stopped = true;
+          await db.indexingJobItems.update([run.jobId, bookmarkId], {
+            status: 'pending',
+          });
+          continue;
+        }
+
+        const updated = await this.recordResult(run.jobId, bookmarkId, outcome);
+        if (updated) {
+          this.broadcast(updated);
+        }
+
+        if (outcome.result.success) {
+          run.outage = [];
+        } else if (outcome.result.retryable) {
+          run.outage.push(bookmarkId);
+          if (run.outage.length >= INDEXING_QUEUE_CONFIG.PAUSE_AFTER_FAILURES) {
+            await this.pauseJob(run, outcome.result.error);
+          }
+        }
+      }
+
+      await this.delay(INDEXING_QUEUE_CONFIG.ITEM_DELAY_MS);
+    }
+  }
+
+  /**
+   * Retries a transient failure from the batch one request at a time, with
+   * jittered exponential backoff. Resolves null when the job stops while
+   * waiting.
+   */
+  private async indexWithRetry(
+    run: JobRun,
+    bookmarkId: string,
+    batchResult: IndexingResult
+  ): Promise<IndexingOutcome | null> {
+    for (let attempt = 0; ; attempt++) {
+      const result =
+        attempt === 0
+          ? batchResult
+          : await this.indexingService.indexBookmark(bookmarkId, {
+              providerId: run.providerId,
+            });
+      if (result.success) {
+        run.concurrency = Math.min(run.concurrency + 1, run.maxConcurrency);
+        return { result, attempts: attempt + 1 };
+      }
+      if (!result.retryable || attempt >= run.maxRetries) {
+        return { result, attempts: attempt + 1 };
+      }
+
+      run.concurrency = Math.max(Math.floor(run.concurrency / 2), 1);
+      await this.delay(
+        Math.max(
+          result.retryAfterMs ?? 0,
+          backoffDelay(
+            attempt,
+            INDEXING_QUEUE_CONFIG.BACKOFF_BASE_MS,
+            INDEXING_QUEUE_CONFIG.BACKOFF_MAX_MS
+          )
+        )
+      );
+
+      const job = await db.indexingJobs.get(run.jobId);
+      if (job?.status !== 'running') {
+        return null;
+      }
+    }
+  }
+
+  private claimNextItems(
+    jobId: string,
+    limit: number
+  ): Promise<IndexingJobItem[]> {
+    return db.transaction('rw', db.indexingJobItems, async () => {
+      const items = await db.indexingJobItems
+        .where('[jobId+status]')
+        .equals([jobId, 'pending'])
+        .limit(limit)
+        .toArray();
+
+      const now = new Date();
+      for (const item of items) {
+        await db.indexingJobItems.update([jobId, item.bookmarkId], {
+          status: 'running',
+          updatedAt: now,
+        });
+      }
+      return items;
+    });
+  }
+
+  private async recordResult(
+    jobId: string,
+    bookmarkId: string,
+    { result, attempts }: IndexingOutcome
+  ): Promise<IndexingJob | null> {
+    return db.transaction(
+      'rw',
+      db.indexingJobs,
+      db.indexingJobItems,
+      async () => {
+        const job = await db.indexingJobs.get(jobId);
+        if (!job) {
+          return null;
+        }
+
+        const now = new Date();
+        const status = !result.success
+          ? 'failed'
+          : result.skipped
+            ? 'skipped'
+            : 'succeeded';
+        await db.indexingJobItems.update([jobId, bookmarkId], {
+          status,
+          attempts,
+          error: result.error,
+          retryable: result.retryable,
+          updatedAt: now,
+        });
+
+        const updated: IndexingJob = {
+          ...job,
+          processed: job.processed + 1,
+          [status]: job[status] + 1,
+          updatedAt: now,
+        };
+        await db.indexingJobs.put(updated);
+        return updated;
+      }
+    );
+  }
+
+  /**
+   * Pauses the job when the provider appears to be down. The failures that
+   * led here are queued again rather than recorded.
+   */
+  private async pauseJob(run: JobRun, error?: string): Promise<void> {
+    const outage = run.outage;
+    run.outage = [];
+    run.stopped = true;
+
+    const paused = await db.transaction(
+      'rw',
+      db.indexingJobs,
+      db.indexingJobItems,
+      async () => {
+        const job = await db.indexingJobs.get(run.jobId);
+        if (job?.status !== 'running') {
+          return null;
+        }
+
+        const items = await db.indexingJobItems.bulkGet(
+          outage.map((id): [string, string] => [run.jobId, id])
+        );
+        const requeued = items.filter((item) => item?.status === 'failed');
+        const now = new Date();
+        for (const item of requeued) {
+          await db.indexingJobItems.update([run.jobId, item!.bookmarkId], {
+            status: 'pending',
+            attempts: 0,
+            updatedAt: now,
+          });
+        }
+
+        const updated: IndexingJob = {
+          ...job,
+          status: 'paused',
+          processed: job.processed - requeued.length,
+          failed: job.failed - requeued.length,
+          updatedAt: now,
+          pausedUntil: new Date(now.getTime() + INDEXING_QUEUE_CONFIG.PAUSE_MS),
+          lastError: error,
+        };
+        await db.indexingJobs.put(updated);
+        return updated;
+      }
+    );
+
+    if (paused) {
+      this.broadcast(paused);
+    }
+  }
+
+  /** Marks the job completed unless items were queued in the meantime. */
+  private async completeJob(jobId: string): Promise<IndexingJob | null> {
+    const job = await db.transaction(
+      'rw',
+      db.indexingJobs,
+      db.indexingJobItems,
+      async () => {
+        const current = await db.indexingJobs.get(jobId);
+        const pending = await db.indexingJobItems
+          .where('[jobId+status]')
+          .equals([jobId, 'pending'])
+          .count();
+        if (current?.status !== 'running' || pending > 0) {
+          return current ?? null;
+        }
+
+        const now = new Date();
+        const completed: IndexingJob = {
+          ...current,
+          status: 'completed',
+          updatedAt: now,
+          completedAt: now,
+        };
+        await db.indexingJobs.put(completed);
+        return completed;
+      }
+    );
+
+    if (job?.status === 'completed') {
+      this.broadcast(job);
+    }
+    return job;
+  }
+
+  private async deleteFinishedJobs(providerId: string): Promise<void> {
+    const finished = await db.indexingJobs
+      .where('status')
+      .noneOf(['running', 'paused'])
+      .filter((job) => job.providerId === providerId)
+      .primaryKeys();
+    await db.indexingJobItems.where('jobId').anyOf(finished).delete();
+    await db.indexingJobs.bulkDelete(finished);
+  }
+
+  private broadcast(job: IndexingJob): void {
+    const { id, providerId, status, total, processed } = job;
+    const message: RuntimeMessage = {
+      type: MessageType.INDEXING_PROGRESS,
+      job: {
+        id,
+        providerId,
+        status,
+        total,
+        processed,
+        succeeded: job.succeeded,
+        skipped: job.skipped,
+        failed: job.failed,
+        lastError: job.lastError,
+      },
+    };
+    // Rejects when no extension page is open to receive it
+    browser.runtime.sendMessage(message).catch(() => undefined);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
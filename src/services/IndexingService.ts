@@ -1,27 +1,70 @@
+import { AnnIndexService } from './AnnIndexService';
 import { ContentPreparationService } from './ContentPreparationService';
 import { EmbeddingProviderService } from './EmbeddingProviderService';
 import { TagService } from './TagService';
+import { VectorScoringService } from './VectorScoringService';
 
-import type { Bookmark } from '@/types/bookmark';
+import type { Bookmark, EmbeddingStatus } from '@/types/bookmark';
+import type {
+  ChunkEmbedding,
+  ChunkVector,
+  EmbeddingProvider,
+} from '@/types/provider';
 
+import { INDEXING_CONFIG } from '@/constants/config';
 import { ProviderFactory } from '@/providers/ProviderFactory';
+import { ProviderRequestError } from '@/providers/ProviderRequestError';
 import { db } from '@/storage/database';
+import { ContentType } from '@/types/content';
+import { chunkText } from '@/utils/chunking';
+import { sha256Hex } from '@/utils/hashUtils';
+import { encodeEmbedding } from '@/utils/quantization';
 import { truncateToTokenLimit } from '@/utils/vectorUtils';
 
-interface IndexingResult {
+export interface IndexingResult {
   success: boolean;
   bookmarkId: string;
   providerId: string;
   error?: string;
+  /** The stored embedding already matched the bookmark's content. */
+  skipped?: boolean;
+  /** Whether the failure was transient and the bookmark worth retrying. */
+  retryable?: boolean;
+  retryAfterMs?: number;
   tokenCount?: number;
   isTruncated?: boolean;
+  chunkCount?: number;
 }
 
-interface IndexingProgress {
-  total: number;
-  current: number;
-  succeeded: number;
-  failed: number;
+interface ContentPassage {
+  url: string;
+  chunkIndex: number;
+  text: string;
+  /** Title-prefixed text sent to the embedding provider. */
+  input: string;
+}
+
+interface IndexingOptions {
+  /** The active provider when omitted. */
+  providerId?: string;
+  /** Embed even when the bookmark is unchanged. */
+  force?: boolean;
+}
+
+interface EmbeddingInputs {
+  /** The document text followed by each passage input, as embedded. */
+  texts: string[];
+  passages: ContentPassage[];
+  isTruncated: boolean;
+  tokenCount: number;
+  contentHash: string;
+}
+
+interface PreparedBookmark {
+  bookmark: Bookmark;
+  provider: EmbeddingProvider;
+  inputs: EmbeddingInputs;
+  configFingerprint: string;
 }
 
 export class IndexingService {
@@ -29,11 +72,15 @@ export class IndexingService {
   private contentPrep: ContentPreparationService;
   private providerService: EmbeddingProviderService;
   private tagService: TagService;
+  private annIndex: AnnIndexService;
+  private vectorScoring: VectorScoringService;
 
   private constructor() {
     this.contentPrep = ContentPreparationService.getInstance();
     this.providerService = EmbeddingProviderService.getInstance();
     this.tagService = TagService.getInstance();
+    this.annIndex = AnnIndexService.getInstance();
+    this.vectorScoring = VectorScoringService.getInstance();
   }
 
   static getInstance(): IndexingService {
@@ -43,106 +90,113 @@ export class IndexingService {
     return IndexingService.instance;
   }
 
-  async indexBookmark(bookmarkId: string): Promise<IndexingResult> {
+  /**
+   * Embeds the bookmark with the given provider, or the active one. Unless
+   * `force` is set, bookmarks whose prepared texts and provider settings are
+   * unchanged since their last embedding are skipped.
+   */
+  async indexBookmark(
+    bookmarkId: string,
+    options: IndexingOptions = {}
+  ): Promise<IndexingResult> {
     try {
-      const provider = await this.providerService.getActiveProvider();
-      if (!provider) {
-        throw new Error('No active embedding provider configured');
+      const provider = await this.resolveProvider(options.providerId);
+      const prepared = await this.prepareBookmark(bookmarkId, provider);
+      const skipped = options.force ? null : await this.skipUnchanged(prepared);
+      if (skipped) {
+        return skipped;
       }
 
-      const bookmark = await db.bookmarks.get(bookmarkId);
-      if (!bookmark) {
-        throw new Error('Bookmark not found');
-      }
-
-      const tags = await this.tagService.getBookmarkTags(bookmarkId);
-
-      const { text } = this.contentPrep.prepareContentForEmbedding(
-        bookmark,
-        tags
-      );
-
-      const maxTokens = provider.maxContextTokens ?? 512;
-      const {
-        text: truncatedText,
-        isTruncated,
-        tokenCount,
-      } = truncateToTokenLimit(text, maxTokens);
-
-      const adapter = ProviderFactory.getAdapter(provider.type);
-      const result = await adapter.generateEmbedding(
-        truncatedText,
-        provider.endpoint,
-        provider.modelName,
-        provider.documentPrefix,
-        provider.documentSuffix
-      );
-
-      const embeddingArray = new Float32Array(result.embedding);
-
-      await db.embeddings.put({
-        bookmarkId,
-        providerId: provider.id,
-        embedding: embeddingArray,
-        modelName: provider.modelName,
-        createdAt: new Date(),
-        isTruncated,
-        tokenCount,
-      });
-
-      await db.embeddingProviders.update(provider.id, {
-        lastUsedAt: new Date(),
-      });
-
-      return {
-        success: true,
-        bookmarkId,
-        providerId: provider.id,
-        tokenCount,
-        isTruncated,
-      };
+      const embeddings = await this.embedTexts(provider, prepared.inputs.texts);
+      return await this.storeEmbeddings(prepared, embeddings);
     } catch (error) {
-      return {
-        success: false,
-        bookmarkId,
-        providerId: '',
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+      return this.failedResult(bookmarkId, error);
     }
   }
 
-  async indexAllBookmarks(
-    onProgress?: (progress: IndexingProgress) => void
+  /**
+   * Embeds several bookmarks with one provider, pooling the texts of every
+   * changed bookmark into requests of `INDEXING_CONFIG.BATCH_SIZE`. When a
+   * request is rejected for a reason other than a transient provider error,
+   * each bookmark is embedded on its own instead. Results are in the order
+   * of `bookmarkIds`.
+   */
+  async indexBookmarks(
+    bookmarkIds: string[],
+    options: IndexingOptions = {}
   ): Promise<IndexingResult[]> {
-    const bookmarks = await db.bookmarks.toArray();
-    const results: IndexingResult[] = [];
-
-    const progress: IndexingProgress = {
-      total: bookmarks.length,
-      current: 0,
-      succeeded: 0,
-      failed: 0,
-    };
+    let provider: EmbeddingProvider;
+    try {
+      provider = await this.resolveProvider(options.providerId);
+    } catch (error) {
+      return bookmarkIds.map((id) => this.failedResult(id, error));
+    }
 
-    for (const bookmark of bookmarks) {
-      const result = await this.indexBookmark(bookmark.id);
-      results.push(result);
-
-      progress.current++;
-      if (result.success) {
-        progress.succeeded++;
-      } else {
-        progress.failed++;
+    const results = new Map<string, IndexingResult>();
+    const batch: PreparedBookmark[] = [];
+    for (const bookmarkId of bookmarkIds) {
+      try {
+        const prepared = await this.prepareBookmark(bookmarkId, provider);
+        const skipped = options.force
+          ? null
+          : await this.skipUnchanged(prepared);
+        if (skipped) {
+          results.set(bookmarkId, skipped);
+        } else {
+          batch.push(prepared);
+        }
+      } catch (error) {
+        results.set(bookmarkId, this.failedResult(bookmarkId, error));
       }
+    }
 
-      if (onProgress) {
-        onProgress(progress);
+    let embeddings: number[][] | null = null;
+    let batchError: unknown;
+    if (batch.length > 0) {
+      try {
+        embeddings = await this.embedTexts(
+          provider,
+          batch.flatMap((prepared) => prepared.inputs.texts)
+        );
+      } catch (error) {
+        batchError = error;
       }
+    }
 
-      await this.delay(200);
+    let offset = 0;
+    for (const prepared of batch) {
+      const { id } = prepared.bookmark;
+      const count = prepared.inputs.texts.length;
+      try {
+        if (embeddings) {
+          results.set(
+            id,
+            await this.storeEmbeddings(
+              prepared,
+              embeddings.slice(offset, offset + count)
+            )
+          );
+        } else if (
+          batchError instanceof ProviderRequestError &&
+          batchError.retryable
+        ) {
+          results.set(id, this.failedResult(id, batchError));
+        } else {
+          results.set(
+            id,
+            await this.storeEmbeddings(
+              prepared,
+              await this.embedTexts(provider, prepared.inputs.texts)
+            )
+          );
+        }
+      } catch (error) {
+        results.set(id, this.failedResult(id, error));
+      }
+      offset += count;
     }
 
-    return results;
+    return bookmarkIds.map((id) => results.get(id)!);
   }
 
   async isBookmarkIndexed(
@@ -176,6 +230,43 @@ export class IndexingService {
     };
   }
 
+  /**
+   * Compares each bookmark's version with the one the provider's stored
+   * embedding was generated from. Empty without a provider.
+   */
+  async getEmbeddingStatuses(
+    bookmarks: Bookmark[],
+    providerId?: string
+  ): Promise<Map<string, EmbeddingStatus>> {
+    const statuses = new Map<string, EmbeddingStatus>();
+    const provider = providerId
+      ? await this.providerService.getProvider(providerId)
+      : await this.providerService.getActiveProvider();
+    if (!provider) {
+      return statuses;
+    }
+
+    const fingerprint = await this.configFingerprint(provider);
+    const embeddings = new Map(
+      (
+        await db.embeddings.where('providerId').equals(provider.id).toArray()
+      ).map((embedding) => [embedding.bookmarkId, embedding])
+    );
+
+    for (const bookmark of bookmarks) {
+      const embedding = embeddings.get(bookmark.id);
+      statuses.set(bookmark.id, {
+        providerId: provider.id,
+        isIndexed: !!embedding,
+        isUpToDate:
+          embedding?.configFingerprint === fingerprint &&
+          (embedding.bookmarkVersion ?? 0) === bookmark.version,
+      });
+    }
+
+    return statuses;
+  }
+
   async getUnindexedBookmarks(): Promise<Bookmark[]> {
     const provider = await this.providerService.getActiveProvider();
     if (!provider) {
@@ -194,9 +285,302 @@ export class IndexingService {
 
   async deleteBookmarkEmbeddings(bookmarkId: string): Promise<void> {
     await db.embeddings.where('bookmarkId').equals(bookmarkId).delete();
+    await db.chunkEmbeddings.where('bookmarkId').equals(bookmarkId).delete();
+    await db.embeddingVectors.where('bookmarkId').equals(bookmarkId).delete();
+    await db.chunkVectors.where('bookmarkId').equals(bookmarkId).delete();
+    await this.annIndex.remove(bookmarkId);
+    this.vectorScoring.publishUpdate({ type: 'remove', bookmarkId });
+  }
+
+  private async resolveProvider(
+    providerId?: string
+  ): Promise<EmbeddingProvider> {
+    const provider = providerId
+      ? await this.providerService.getProvider(providerId)
+      : await this.providerService.getActiveProvider();
+    if (!provider) {
+      throw new Error(
+        providerId
+          ? 'Embedding provider not found'
+          : 'No active embedding provider configured'
+      );
+    }
+    return provider;
+  }
+
+  private async prepareBookmark(
+    bookmarkId: string,
+    provider: EmbeddingProvider
+  ): Promise<PreparedBookmark> {
+    const bookmark = await db.bookmarks.get(bookmarkId);
+    if (!bookmark) {
+      throw new Error('Bookmark not found');
+    }
+
+    return {
+      bookmark,
+      provider,
+      inputs: await this.prepareInputs(bookmark, provider),
+      configFingerprint: await this.configFingerprint(provider),
+    };
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /**
+   * The skipped result when the stored embedding was generated from the
+   * same texts and provider settings, or null.
+   */
+  private async skipUnchanged({
+    bookmark,
+    provider,
+    inputs,
+    configFingerprint,
+  }: PreparedBookmark): Promise<IndexingResult | null> {
+    const key: [string, string] = [bookmark.id, provider.id];
+    const existing = await db.embeddings.get(key);
+    if (
+      existing?.contentHash !== inputs.contentHash ||
+      existing.configFingerprint !== configFingerprint
+    ) {
+      return null;
+    }
+
+    await db.embeddings.update(key, { bookmarkVersion: bookmark.version });
+    return {
+      success: true,
+      skipped: true,
+      bookmarkId: bookmark.id,
+      providerId: provider.id,
+      tokenCount: existing.tokenCount,
+      isTruncated: existing.isTruncated,
+    };
+  }
+
+  /** Stores the embeddings of the bookmark's texts, in the order prepared. */
+  private async storeEmbeddings(
+    { bookmark, provider, inputs, configFingerprint }: PreparedBookmark,
+    embeddings: number[][]
+  ): Promise<IndexingResult> {
+    const bookmarkId = bookmark.id;
+    const { isTruncated, tokenCount, passages } = inputs;
+    const [documentEmbedding, ...passageEmbeddings] = embeddings;
+
+    const quantization = provider.quantization ?? 'none';
+    const embeddingArray = new Float32Array(documentEmbedding!);
+    const createdAt = new Date();
+    const chunkVectors: ChunkVector[] = passages.map((passage, i) => ({
+      bookmarkId,
+      providerId: provider.id,
+      url: passage.url,
+      chunkIndex: passage.chunkIndex,
+      embedding: new Float32Array(passageEmbeddings[i]!),
+    }));
+    const chunks: ChunkEmbedding[] = chunkVectors.map(
+      ({ embedding, ...key }, i) => ({
+        ...key,
+        text: passages[i]!.text,
+        ...encodeEmbedding(embedding, quantization),
+        modelName: provider.modelName,
+        createdAt,
+      })
+    );
+    const key: [string, string] = [bookmarkId, provider.id];
+
+    await db.transaction(
+      'rw',
+      [db.embeddings, db.chunkEmbeddings, db.embeddingVectors, db.chunkVectors],
+      async () => {
+        await db.embeddings.put({
+          bookmarkId,
+          providerId: provider.id,
+          ...encodeEmbedding(embeddingArray, quantization),
+          modelName: provider.modelName,
+          createdAt,
+          isTruncated,
+          tokenCount,
+          contentHash: inputs.contentHash,
+          configFingerprint,
+          bookmarkVersion: bookmark.version,
+        });
+        await db.chunkEmbeddings
+          .where('[bookmarkId+providerId]')
+          .equals(key)
+          .delete();
+        await db.chunkEmbeddings.bulkPut(chunks);
+
+        await db.embeddingVectors.delete(key);
+        await db.chunkVectors
+          .where('[bookmarkId+providerId]')
+          .equals(key)
+          .delete();
+        if (quantization !== 'none') {
+          await db.embeddingVectors.put({
+            bookmarkId,
+            providerId: provider.id,
+            embedding: embeddingArray,
+          });
+          await db.chunkVectors.bulkPut(chunkVectors);
+        }
+      }
+    );
+
+    // Binary rows keep no vector the worker could traverse a graph with
+    if (quantization !== 'binary') {
+      await this.annIndex.upsert(provider.id, bookmarkId, embeddingArray);
+    }
+    this.vectorScoring.publishUpdate({
+      type: 'upsert',
+      providerId: provider.id,
+      bookmarkId,
+    });
+
+    await db.embeddingProviders.update(provider.id, {
+      lastUsedAt: new Date(),
+    });
+
+    return {
+      success: true,
+      bookmarkId,
+      providerId: provider.id,
+      tokenCount,
+      isTruncated,
+      chunkCount: chunks.length,
+    };
+  }
+
+  private failedResult(bookmarkId: string, error: unknown): IndexingResult {
+    return {
+      success: false,
+      bookmarkId,
+      providerId: '',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retryable: error instanceof ProviderRequestError && error.retryable,
+      retryAfterMs:
+        error instanceof ProviderRequestError ? error.retryAfterMs : undefined,
+    };
+  }
+
+  /**
+   * The texts to embed for a bookmark: its prepared description (title,
+   * notes, tags and summary) and passages of its crawled content.
+   */
+  private async prepareInputs(
+    bookmark: Bookmark,
+    provider: EmbeddingProvider
+  ): Promise<EmbeddingInputs> {
+    const tags = await this.tagService.getBookmarkTags(bookmark.id);
+    const { text } = this.contentPrep.prepareContentForEmbedding(
+      bookmark,
+      tags
+    );
+
+    const maxTokens = provider.maxContextTokens ?? 512;
+    const {
+      text: truncatedText,
+      isTruncated,
+      tokenCount,
+    } = truncateToTokenLimit(text, maxTokens);
+    const passages = await this.collectPassages(bookmark, maxTokens);
+    const texts = [truncatedText, ...passages.map((passage) => passage.input)];
+
+    return {
+      texts,
+      passages,
+      isTruncated,
+      tokenCount,
+      contentHash: await sha256Hex(texts.join('\u0000')),
+    };
+  }
+
+  /** Quantization is left out: requantizing re-encodes stored vectors. */
+  private configFingerprint(provider: EmbeddingProvider): Promise<string> {
+    return sha256Hex(
+      JSON.stringify([
+        provider.type,
+        provider.modelName,
+        provider.documentPrefix ?? '',
+        provider.documentSuffix ?? '',
+      ])
+    );
+  }
+
+  /** Embeds texts in order, `INDEXING_CONFIG.BATCH_SIZE` per request. */
+  private async embedTexts(
+    provider: EmbeddingProvider,
+    texts: string[]
+  ): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += INDEXING_CONFIG.BATCH_SIZE) {
+      embeddings.push(
+        ...(await this.requestEmbeddings(
+          provider,
+          texts.slice(i, i + INDEXING_CONFIG.BATCH_SIZE)
+        ))
+      );
+    }
+    return embeddings;
+  }
+
+  /** Embeds texts in a single request. */
+  private async requestEmbeddings(
+    provider: EmbeddingProvider,
+    texts: string[]
+  ): Promise<number[][]> {
+    const adapter = ProviderFactory.getAdapter(provider.type);
+    const results = await adapter.generateEmbeddings(
+      texts,
+      provider.endpoint,
+      provider.modelName,
+      provider.documentPrefix,
+      provider.documentSuffix
+    );
+    if (results.length !== texts.length) {
+      throw new Error(
+        `Expected ${texts.length} embeddings, received ${results.length}`
+      );
+    }
+    return results.map((result) => result.embedding);
+  }
+
+  private async collectPassages(
+    bookmark: Bookmark,
+    maxTokens: number
+  ): Promise<ContentPassage[]> {
+    const contents = (
+      await db.content.where('bookmarkId').equals(bookmark.id).toArray()
+    )
+      .filter((content) => !content.fetchError && content.content.trim())
+      .sort(
+        (a, b) =>
+          Number(b.type === ContentType.PRIMARY) -
+          Number(a.type === ContentType.PRIMARY)
+      );
+
+    const passages: ContentPassage[] = [];
+
+    for (const content of contents) {
+      const chunks = chunkText(content.content, {
+        maxTokens: Math.min(INDEXING_CONFIG.CHUNK_MAX_TOKENS, maxTokens),
+        overlapTokens: INDEXING_CONFIG.CHUNK_OVERLAP_TOKENS,
+      });
+
+      for (const chunk of chunks) {
+        if (passages.length >= INDEXING_CONFIG.MAX_CHUNKS_PER_BOOKMARK) {
+          return passages;
+        }
+
+        const { text: input } = truncateToTokenLimit(
+          `${content.title || bookmark.title}\n\n${chunk.text}`,
+          maxTokens
+        );
+        passages.push({
+          url: content.url,
+          chunkIndex: chunk.index,
+          text: chunk.text,
+          input,
+        });
+      }
+    }
+
+    return passages;
   }
 }
@@ -0,0 +1,100 @@
+import type { CachedQueryEmbedding, EmbeddingProvider } from '@/types/provider';
+
+import { QUERY_EMBEDDING_CACHE_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { LruCache } from '@/utils/lruCache';
+
+/**
+ * Two-level LRU cache of query embeddings: a small in-memory map in front
+ * of a persisted table, so repeated searches skip the embedding model even
+ * after the extension page reloads.
+ */
+export class QueryEmbeddingCacheService {
+  private static instance: QueryEmbeddingCacheService;
+  private memory = new LruCache<string, CachedQueryEmbedding>(
+    QUERY_EMBEDDING_CACHE_CONFIG.MEMORY_ENTRIES
+  );
+
+  private constructor() {}
+
+  static getInstance(): QueryEmbeddingCacheService {
+    if (!QueryEmbeddingCacheService.instance) {
+      QueryEmbeddingCacheService.instance = new QueryEmbeddingCacheService();
+    }
+    return QueryEmbeddingCacheService.instance;
+  }
+
+  static resetInstance(): void {
+    QueryEmbeddingCacheService.instance =
+      undefined as unknown as QueryEmbeddingCacheService;
+  }
+
+  async get(
+    provider: EmbeddingProvider,
+    query: string
+  ): Promise<Float32Array | undefined> {
+    const key = this.cacheKey(provider, query);
+    const entry = this.memory.get(key) ?? (await db.queryEmbeddings.get(key));
+    if (!entry) {
+      return undefined;
+    }
+
+    const touched = { ...entry, lastUsedAt: new Date() };
+    this.memory.set(key, touched);
+    await db.queryEmbeddings.put(touched);
+
+    return entry.embedding;
+  }
+
+  async set(
+    provider: EmbeddingProvider,
+    query: string,
+    embedding: Float32Array
+  ): Promise<void> {
+    const entry: CachedQueryEmbedding = {
+      key: this.cacheKey(provider, query),
+      providerId: provider.id,
+      embedding,
+      lastUsedAt: new Date(),
+    };
+
+    this.memory.set(entry.key, entry);
+    await db.queryEmbeddings.put(entry);
+
+    const excess =
+      (await db.queryEmbeddings.count()) -
+      QUERY_EMBEDDING_CACHE_CONFIG.PERSISTED_ENTRIES;
+    if (excess > 0) {
+      const oldest = await db.queryEmbeddings
+        .orderBy('lastUsedAt')
+        .limit(excess)
+        .primaryKeys();
+      await db.queryEmbeddings.bulkDelete(oldest);
+    }
+  }
+
+  async invalidateProvider(providerId: string): Promise<void> {
+    this.memory.deleteWhere((_key, entry) => entry.providerId === providerId);
+    await db.queryEmbeddings.where('providerId').equals(providerId).delete();
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await db.queryEmbeddings.clear();
+  }
+
+  /**
+   * The model, prefix and suffix are part of the key so entries never
+   * outlive a provider change even if invalidation is missed; the query
+   * only has its whitespace collapsed since embeddings can be case-aware.
+   */
+  private cacheKey(provider: EmbeddingProvider, query: string): string {
+    return JSON.stringify([
+      provider.id,
+      provider.modelName,
+      provider.documentPrefix ?? '',
+      provider.documentSuffix ?? '',
+      query.replace(/\s+/g, ' ').trim(),
+    ]);
+  }
+}
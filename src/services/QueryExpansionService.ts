@@ -0,0 +1,79 @@
+import { AIService } from './AIService';
+
+import type { QueryExpansionMode } from '@/types/search';
+
+import { QUERY_EXPANSION_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+
+/**
+ * Produces chat-model rewrites or a hypothetical answer document for a
+ * query, cached per normalized query and mode so repeated searches do not
+ * call the model again.
+ */
+export class QueryExpansionService {
+  private static instance: QueryExpansionService;
+  private aiService: AIService;
+
+  private constructor() {
+    this.aiService = AIService.getInstance();
+  }
+
+  static getInstance(): QueryExpansionService {
+    if (!QueryExpansionService.instance) {
+      QueryExpansionService.instance = new QueryExpansionService();
+    }
+    return QueryExpansionService.instance;
+  }
+
+  static resetInstance(): void {
+    QueryExpansionService.instance =
+      undefined as unknown as QueryExpansionService;
+  }
+
+  async expand(
+    query: string,
+    mode: QueryExpansionMode,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const normalized = query.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (mode === 'off' || !normalized) {
+      return [];
+    }
+
+    const cached = await db.queryExpansions.get([normalized, mode]);
+    if (
+      cached &&
+      Date.now() - cached.createdAt.getTime() <
+        QUERY_EXPANSION_CONFIG.CACHE_TTL_MS
+    ) {
+      return cached.expansions;
+    }
+
+    const expansions =
+      mode === 'hyde'
+        ? [await this.aiService.writeHypotheticalDocument(query, { signal })]
+        : await this.aiService.rewriteQuery(query, undefined, { signal });
+
+    await db.queryExpansions.put({
+      query: normalized,
+      mode,
+      expansions,
+      createdAt: new Date(),
+    });
+    await this.trimCache();
+
+    return expansions;
+  }
+
+  private async trimCache(): Promise<void> {
+    const excess =
+      (await db.queryExpansions.count()) - QUERY_EXPANSION_CONFIG.CACHE_LIMIT;
+    if (excess > 0) {
+      const oldest = await db.queryExpansions
+        .orderBy('createdAt')
+        .limit(excess)
+        .primaryKeys();
+      await db.queryExpansions.bulkDelete(oldest);
+    }
+  }
+}
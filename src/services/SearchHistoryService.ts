@@ -0,0 +1,213 @@
+import browser from 'webextension-polyfill';
+
+import { SearchService } from './SearchService';
+
+import type { RuntimeMessage } from '@/types/messages';
+import type {
+  SavedSearch,
+  SearchHistoryEntry,
+  SearchReplayOptions,
+} from '@/types/search';
+
+import { SEARCH_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { MessageType } from '@/types/messages';
+import { parseSearchQuery } from '@/utils/queryParser';
+
+function sameSearch(
+  a: { query: string; options: SearchReplayOptions },
+  b: { query: string; options: SearchReplayOptions }
+): boolean {
+  return (
+    a.query.trim() === b.query.trim() &&
+    JSON.stringify(a.options) === JSON.stringify(b.options)
+  );
+}
+
+export class SearchHistoryService {
+  private static instance: SearchHistoryService;
+  private searchService: SearchService;
+
+  private constructor() {
+    this.searchService = SearchService.getInstance();
+  }
+
+  static getInstance(): SearchHistoryService {
+    if (!SearchHistoryService.instance) {
+      SearchHistoryService.instance = new SearchHistoryService();
+    }
+    return SearchHistoryService.instance;
+  }
+
+  static resetInstance(): void {
+    SearchHistoryService.instance =
+      undefined as unknown as SearchHistoryService;
+  }
+
+  /**
+   * Records a search, refreshing the latest entry instead when the same
+   * query is repeated, and trims history to `SEARCH_CONFIG.HISTORY_LIMIT`.
+   */
+  async recordSearch(
+    query: string,
+    options: SearchReplayOptions,
+    resultIds: string[]
+  ): Promise<SearchHistoryEntry> {
+    const latest = await db.searchHistory.orderBy('createdAt').last();
+    // Strictly increasing timestamps keep ordering stable for rapid searches.
+    const createdAt = new Date(
+      Math.max(Date.now(), (latest?.createdAt.getTime() ?? 0) + 1)
+    );
+    const entry: SearchHistoryEntry =
+      latest && sameSearch(latest, { query, options })
+        ? { ...latest, resultIds, createdAt }
+        : {
+            id: crypto.randomUUID(),
+            query: query.trim(),
+            filters: parseSearchQuery(query).filters,
+            options,
+            resultIds,
+            createdAt,
+          };
+
+    await db.searchHistory.put(entry);
+
+    const overflow = await db.searchHistory
+      .orderBy('createdAt')
+      .reverse()
+      .offset(SEARCH_CONFIG.HISTORY_LIMIT)
+      .primaryKeys();
+    await db.searchHistory.bulkDelete(overflow);
+
+    return entry;
+  }
+
+  async getHistory(
+    limit = SEARCH_CONFIG.HISTORY_LIMIT
+  ): Promise<SearchHistoryEntry[]> {
+    return await db.searchHistory
+      .orderBy('createdAt')
+      .reverse()
+      .limit(limit)
+      .toArray();
+  }
+
+  async deleteHistoryEntry(id: string): Promise<void> {
+    await db.searchHistory.delete(id);
+  }
+
+  async clearHistory(): Promise<void> {
+    await db.searchHistory.clear();
+  }
+
+  /**
+   * Pins a query. The current results become the baseline, so only
+   * bookmarks that match later are flagged as new.
+   */
+  async saveSearch(
+    query: string,
+    options: SearchReplayOptions,
+    resultIds: string[],
+    name = query.trim()
+  ): Promise<SavedSearch> {
+    const existing = (await db.savedSearches.toArray()).find((saved) =>
+      sameSearch(saved, { query, options })
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const saved: SavedSearch = {
+      id: crypto.randomUUID(),
+      name,
+      query: query.trim(),
+      options,
+      resultIds,
+      newMatchIds: [],
+      createdAt: new Date(),
+      lastRunAt: new Date(),
+    };
+
+    await db.savedSearches.add(saved);
+    return saved;
+  }
+
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    return await db.savedSearches.orderBy('createdAt').toArray();
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await db.savedSearches.delete(id);
+  }
+
+  async markSeen(id: string): Promise<void> {
+    await db.savedSearches.update(id, { newMatchIds: [] });
+  }
+
+  /**
+   * Re-runs a saved search and adds bookmarks missing from the previous
+   * run to its unseen matches. Matches that drop out are no longer new.
+   */
+  async runSavedSearch(id: string): Promise<SavedSearch> {
+    const saved = await db.savedSearches.get(id);
+    if (!saved) {
+      throw new Error(`Saved search with id "${id}" not found`);
+    }
+
+    const results = await this.searchService.search(saved.query, {
+      ...saved.options,
+      limit: SEARCH_CONFIG.DEFAULT_RESULTS_LIMIT,
+    });
+    const resultIds = results.map((result) => result.bookmark.id);
+    const current = new Set(resultIds);
+    const previous = new Set(saved.resultIds);
+
+    const updated: SavedSearch = {
+      ...saved,
+      resultIds,
+      newMatchIds: [
+        ...new Set([
+          ...saved.newMatchIds.filter((bookmarkId) => current.has(bookmarkId)),
+          ...resultIds.filter((bookmarkId) => !previous.has(bookmarkId)),
+        ]),
+      ],
+      lastRunAt: new Date(),
+      lastError: undefined,
+    };
+
+    await db.savedSearches.put(updated);
+    return updated;
+  }
+
+  /** Re-runs every saved search and returns the total of unseen matches. */
+  async runSavedSearches(): Promise<number> {
+    let unseen = 0;
+
+    for (const saved of await this.getSavedSearches()) {
+      try {
+        unseen += (await this.runSavedSearch(saved.id)).newMatchIds.length;
+      } catch (error) {
+        await db.savedSearches.update(saved.id, {
+          lastRunAt: new Date(),
+          lastError: error instanceof Error ? error.message : 'Unknown error',
+        });
+        unseen += saved.newMatchIds.length;
+      }
+    }
+
+    return unseen;
+  }
+
+  /**
+   * Asks the background script to refresh saved searches, for pages that
+   * change embeddings outside the background indexing queue.
+   */
+  async notifyIndexingCompleted(): Promise<void> {
+    const message: RuntimeMessage = { type: MessageType.INDEXING_COMPLETED };
+    try {
+      await browser.runtime.sendMessage(message);
+    } catch (error) {
+      console.warn('Failed to notify background of indexing:', error);
+    }
+  }
+}
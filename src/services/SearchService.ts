@@ -1,38 +1,227 @@
+import { AIService } from './AIService';
 import { ContentPreparationService } from './ContentPreparationService';
 import { EmbeddingProviderService } from './EmbeddingProviderService';
+import { FeedbackService } from './FeedbackService';
+import { QueryEmbeddingCacheService } from './QueryEmbeddingCacheService';
+import { QueryExpansionService } from './QueryExpansionService';
+import { TagService } from './TagService';
+import { TextIndexService } from './TextIndexService';
+import { VectorScoringService } from './VectorScoringService';
 
+import type { RerankCandidate } from './AIService';
+import type { PreparedContent } from './ContentPreparationService';
+import type { RelatedFeedback } from './FeedbackService';
 import type { Bookmark } from '@/types/bookmark';
+import type { EmbeddingProvider } from '@/types/provider';
+import type {
+  DateHint,
+  QueryExpansionMode,
+  SearchFilters,
+  SearchMode,
+} from '@/types/search';
+import type { Tag } from '@/types/tag';
+import type { ScoredVector } from '@/types/vectorScoring';
+import type { BM25Match } from '@/utils/bm25';
+import type { RankedList } from '@/utils/rankFusion';
+import type { WeightedVector } from '@/utils/relevanceFeedback';
 
+import {
+  ANN_CONFIG,
+  FEEDBACK_CONFIG,
+  QUERY_EXPANSION_CONFIG,
+  RECENCY_CONFIG,
+  RERANK_CONFIG,
+  SEARCH_CONFIG,
+} from '@/constants/config';
 import { ProviderFactory } from '@/providers/ProviderFactory';
 import { db } from '@/storage/database';
+import { readFullVectors } from '@/storage/fullVectors';
+import { ContentType } from '@/types/content';
+import { isAbortError, throwIfAborted } from '@/utils/abort';
+import { BM25Index } from '@/utils/bm25';
+import { capPerGroup, maximalMarginalRelevance } from '@/utils/diversity';
+import {
+  createEmptyFilters,
+  describeFilters,
+  isWithinRange,
+  matchesSite,
+  parseSearchQuery,
+} from '@/utils/queryParser';
+import {
+  maxReciprocalRankScore,
+  reciprocalRankFusion,
+} from '@/utils/rankFusion';
+import {
+  blendWithRecency,
+  rangeLengthInDays,
+  recencyScore,
+  timeProximity,
+} from '@/utils/recency';
+import { clickPrior, rocchio } from '@/utils/relevanceFeedback';
+import { tokenize } from '@/utils/textUtils';
+import { getDomain, isNearDuplicateUrl } from '@/utils/urlUtils';
 import { cosineSimilarity } from '@/utils/vectorUtils';
 
+export interface SearchSignalScores {
+  semantic?: number;
+  document?: number;
+  lexical?: number;
+  lexicalRaw?: number;
+  fused?: number;
+  clickPrior?: number;
+  recency?: number;
+  rerank?: number;
+  rerankedFrom?: number;
+  expansionMatches?: number;
+  semanticRank?: number;
+  lexicalRank?: number;
+  matchedTerms?: string[];
+  providers?: Record<string, number>;
+}
+
+export interface SearchPassage {
+  text: string;
+  url: string;
+  score: number;
+}
+
+export type EmbeddedComponent = keyof PreparedContent['components'];
+
+export interface ComponentContribution {
+  component: EmbeddedComponent;
+  similarity: number;
+  share: number;
+}
+
+export interface MatchedTerm {
+  term: string;
+  fields: string[];
+}
+
+export interface SearchExplanation {
+  rawScores: Record<string, number>;
+  normalizedScores: Record<string, number>;
+  components: ComponentContribution[];
+  componentProviderId?: string;
+  matchedTerms: MatchedTerm[];
+  filters: string[];
+  boosts: string[];
+}
+
 export interface SearchResult {
   bookmark: Bookmark;
   score: number;
   providerId: string;
+  scores?: SearchSignalScores;
+  contributingProviders?: string[];
+  passage?: SearchPassage;
+  explanation?: SearchExplanation;
 }
 
-interface SearchOptions {
+export interface SearchOptions {
   limit?: number;
   minScore?: number;
   providerId?: string;
+  mode?: SearchMode;
+  semanticWeight?: number;
+  aggregate?: boolean;
+  explain?: boolean;
+  /** Reorders the top results with maximal marginal relevance. */
+  diversify?: boolean;
+  diversityLambda?: number;
+  /** Caps results per site before later ones are shown; 0 disables it. */
+  maxPerDomain?: number;
+  /** Applies relevance feedback recorded for similar queries. */
+  useFeedback?: boolean;
+  /**
+   * Share of the score given to how recently a bookmark was added, from 0
+   * (similarity only) to 1. Queries naming a period such as "last month"
+   * use at least RECENCY_CONFIG.DATE_HINT_WEIGHT, measured from that period.
+   */
+  recencyWeight?: number;
+  /** Age in days at which a bookmark's recency score halves. */
+  recencyHalfLifeDays?: number;
+  /** Reorders the top candidates by the configured chat model's judgement. */
+  rerank?: boolean;
+  /** Also retrieves with model-written query variants and fuses them. */
+  queryExpansion?: QueryExpansionMode;
+  /** Cancels the search, which then rejects with an AbortError. */
+  signal?: AbortSignal;
+  /**
+   * Receives provisional semantic matches for the query while a large scan
+   * is in progress, before fusion, boosts and reranking are applied.
+   */
+  onPartial?: (results: SearchResult[]) => void;
 }
 
-const DEFAULT_SEARCH_OPTIONS: Required<SearchOptions> = {
-  limit: 20,
-  minScore: 0.3,
+export type SimilarSearchOptions = Pick<
+  SearchOptions,
+  'limit' | 'minScore' | 'providerId' | 'signal'
+>;
+
+export type TextSearchOptions = Pick<SearchOptions, 'limit' | 'signal'>;
+
+interface ScoredEmbedding {
+  bookmarkId: string;
+  score: number;
+  documentScore?: number;
+  passage?: SearchPassage;
+}
+
+interface LexicalIndexCache {
+  /** The ids and versions of the bookmarks the index was built from. */
+  key: string;
+  index: BM25Index;
+}
+
+export const AGGREGATE_PROVIDER_ID = 'aggregate';
+
+type CallbackOptions = 'signal' | 'onPartial';
+
+type ResolvedSearchOptions = Required<Omit<SearchOptions, CallbackOptions>> &
+  Pick<SearchOptions, CallbackOptions>;
+
+const DEFAULT_SEARCH_OPTIONS: Required<Omit<SearchOptions, CallbackOptions>> = {
+  limit: SEARCH_CONFIG.DEFAULT_RESULTS_LIMIT,
+  minScore: SEARCH_CONFIG.MIN_SIMILARITY_THRESHOLD,
   providerId: '',
+  mode: 'semantic',
+  semanticWeight: SEARCH_CONFIG.HYBRID_SEMANTIC_WEIGHT,
+  aggregate: false,
+  explain: false,
+  diversify: false,
+  diversityLambda: SEARCH_CONFIG.MMR_LAMBDA,
+  maxPerDomain: 0,
+  useFeedback: true,
+  recencyWeight: 0,
+  recencyHalfLifeDays: RECENCY_CONFIG.HALF_LIFE_DAYS,
+  rerank: false,
+  queryExpansion: 'off',
 };
 
 export class SearchService {
   private static instance: SearchService;
   private contentPrep: ContentPreparationService;
   private providerService: EmbeddingProviderService;
+  private tagService: TagService;
+  private textIndex: TextIndexService;
+  private feedbackService: FeedbackService;
+  private aiService: AIService;
+  private queryExpansion: QueryExpansionService;
+  private queryCache: QueryEmbeddingCacheService;
+  private vectorScoring: VectorScoringService;
+  private lexicalIndex: LexicalIndexCache | null = null;
 
   private constructor() {
     this.contentPrep = ContentPreparationService.getInstance();
     this.providerService = EmbeddingProviderService.getInstance();
+    this.tagService = TagService.getInstance();
+    this.textIndex = TextIndexService.getInstance();
+    this.feedbackService = FeedbackService.getInstance();
+    this.aiService = AIService.getInstance();
+    this.queryExpansion = QueryExpansionService.getInstance();
+    this.queryCache = QueryEmbeddingCacheService.getInstance();
+    this.vectorScoring = VectorScoringService.getInstance();
   }
 
   static getInstance(): SearchService {
@@ -42,21 +231,254 @@ export class SearchService {
     return SearchService.instance;
   }
 
+  static resetInstance(): void {
+    SearchService.instance = undefined as unknown as SearchService;
+  }
+
   async search(
     query: string,
     options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const opts: ResolvedSearchOptions = {
+      ...DEFAULT_SEARCH_OPTIONS,
+      ...options,
+    };
+    throwIfAborted(opts.signal);
+
+    const providers = opts.aggregate
+      ? await this.getSearchableProviders()
+      : [await this.resolveProvider(opts.providerId)];
+    const resultProviderId = opts.aggregate
+      ? AGGREGATE_PROVIDER_ID
+      : providers[0]!.id;
+
+    const { text, filters, dateHint } = parseSearchQuery(query);
+    const candidates = await this.resolveCandidates(
+      filters,
+      opts.aggregate ? undefined : resultProviderId
+    );
+
+    if (!text) {
+      return this.listCandidates(candidates, resultProviderId, opts.limit);
+    }
+
+    const feedback = opts.useFeedback
+      ? await this.feedbackService.getRelatedFeedback(text)
+      : [];
+
+    const semanticResults = await this.expandedSemanticSearch(
+      text,
+      providers,
+      candidates,
+      opts,
+      feedback
+    );
+    throwIfAborted(opts.signal);
+
+    if (opts.mode !== 'hybrid') {
+      return await this.finalizeResults(
+        semanticResults,
+        text,
+        filters,
+        providers,
+        opts,
+        feedback,
+        dateHint
+      );
+    }
+
+    const lexicalMatches = (
+      await this.getLexicalIndex([...candidates.values()])
+    ).search(text);
+    const fused = this.fuseResults(
+      semanticResults,
+      lexicalMatches,
+      candidates,
+      resultProviderId,
+      opts.semanticWeight
+    );
+    throwIfAborted(opts.signal);
+
+    return await this.finalizeResults(
+      fused,
+      text,
+      filters,
+      providers,
+      opts,
+      feedback,
+      dateHint
+    );
+  }
+
+  /**
+   * Ranks bookmarks by similarity to the stored embedding of an existing
+   * bookmark, skipping the source and copies of its URL.
+   */
+  async findSimilar(
+    bookmarkId: string,
+    options: SimilarSearchOptions = {}
   ): Promise<SearchResult[]> {
     const opts = { ...DEFAULT_SEARCH_OPTIONS, ...options };
+    const provider = await this.resolveProvider(opts.providerId);
 
-    const provider = opts.providerId
-      ? await this.providerService.getProvider(opts.providerId)
+    const [source, embedding] = await Promise.all([
+      db.bookmarks.get(bookmarkId),
+      db.embeddings.get([bookmarkId, provider.id]),
+    ]);
+    if (!source) {
+      throw new Error('Bookmark not found');
+    }
+
+    const vector =
+      embedding &&
+      (
+        await readFullVectors(provider.id, [embedding], ({ bookmarkId }) => ({
+          bookmarkId,
+        }))
+      ).get(embedding);
+    if (!vector) {
+      throw new Error(
+        `Bookmark is not indexed with provider "${provider.name}"`
+      );
+    }
+
+    const candidates = await this.resolveCandidates(
+      createEmptyFilters(),
+      provider.id
+    );
+    for (const [id, bookmark] of candidates) {
+      if (id === bookmarkId || isNearDuplicateUrl(bookmark.url, source.url)) {
+        candidates.delete(id);
+      }
+    }
+
+    const scored = await this.scoreEmbeddings(
+      provider.id,
+      vector,
+      candidates,
+      opts.limit,
+      options.signal
+    );
+    throwIfAborted(options.signal);
+
+    return this.toSemanticResults(
+      scored,
+      provider.id,
+      candidates,
+      opts.minScore
+    ).slice(0, opts.limit);
+  }
+
+  async searchWithFallback(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    try {
+      return await this.search(query, options);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn(
+        'Semantic search failed, falling back to text search:',
+        error
+      );
+      return await this.textSearch(query, {
+        limit: options.limit,
+        signal: options.signal,
+      });
+    }
+  }
+
+  async textSearch(
+    query: string,
+    { limit = 20, signal }: TextSearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const { text, filters } = parseSearchQuery(query);
+    const activeProvider = await this.providerService.getActiveProvider();
+    const candidates = await this.resolveCandidates(
+      filters,
+      activeProvider?.id
+    );
+    throwIfAborted(signal);
+
+    if (!text) {
+      return this.listCandidates(candidates, 'text-search', limit);
+    }
+
+    const matches = await this.textIndex.search(
+      text,
+      new Set(candidates.keys())
+    );
+    throwIfAborted(signal);
+
+    return matches
+      .slice(0, limit)
+      .flatMap(({ bookmarkId, score, matchedTerms }) => {
+        const bookmark = candidates.get(bookmarkId);
+        return bookmark
+          ? [
+              {
+                bookmark,
+                score,
+                providerId: 'text-search',
+                scores: { lexical: score, matchedTerms },
+              },
+            ]
+          : [];
+      });
+  }
+
+  private async resolveProvider(
+    providerId: string
+  ): Promise<EmbeddingProvider> {
+    const provider = providerId
+      ? await this.providerService.getProvider(providerId)
       : await this.providerService.getActiveProvider();
 
     if (!provider) {
       throw new Error('No active embedding provider configured');
     }
 
-    const preparedQuery = this.contentPrep.prepareQueryForEmbedding(query);
+    return provider;
+  }
+
+  private async getSearchableProviders(): Promise<EmbeddingProvider[]> {
+    const providers = await this.providerService.getAllProviders();
+    const searchable: EmbeddingProvider[] = [];
+
+    for (const provider of providers) {
+      if (!provider.isConnected) {
+        continue;
+      }
+      const count = await this.providerService.getIndexedBookmarkCount(
+        provider.id
+      );
+      if (count > 0) {
+        searchable.push(provider);
+      }
+    }
+
+    if (searchable.length === 0) {
+      throw new Error(
+        'No connected embedding providers with indexed bookmarks'
+      );
+    }
+
+    return searchable;
+  }
+
+  private async embedQuery(
+    text: string,
+    provider: EmbeddingProvider,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
+    const preparedQuery = this.contentPrep.prepareQueryForEmbedding(text);
+
+    const cached = await this.queryCache.get(provider, preparedQuery);
+    if (cached) {
+      return cached;
+    }
 
     const adapter = ProviderFactory.getAdapter(provider.type);
     const queryEmbeddingResult = await adapter.generateEmbedding(
@@ -64,99 +486,1219 @@ export class SearchService {
       provider.endpoint,
       provider.modelName,
       provider.documentPrefix,
-      provider.documentSuffix
+      provider.documentSuffix,
+      signal
     );
 
-    const queryEmbedding = new Float32Array(queryEmbeddingResult.embedding);
+    const embedding = new Float32Array(queryEmbeddingResult.embedding);
+    await this.queryCache.set(provider, preparedQuery, embedding);
+    return embedding;
+  }
 
-    const embeddings = await db.embeddings
-      .where('providerId')
-      .equals(provider.id)
-      .toArray();
+  private async scoreEmbeddings(
+    providerId: string,
+    queryEmbedding: Float32Array,
+    candidates: Map<string, Bookmark>,
+    limit: number,
+    signal?: AbortSignal,
+    onPartial?: (scored: ScoredEmbedding[]) => void
+  ): Promise<ScoredEmbedding[]> {
+    const scored = await this.documentScores(
+      providerId,
+      queryEmbedding,
+      candidates,
+      limit,
+      signal,
+      onPartial
+    );
+
+    const passages = await this.scorePassages(
+      providerId,
+      queryEmbedding,
+      candidates,
+      limit,
+      signal
+    );
 
-    const scoredResults: SearchResult[] = [];
+    return this.mergePassageScores(scored, passages);
+  }
+
+  /**
+   * Scores the bookmarks' document vectors, from the ANN graph when it
+   * holds enough candidates to fill a page of results.
+   */
+  private async documentScores(
+    providerId: string,
+    queryEmbedding: Float32Array,
+    candidates: Map<string, Bookmark>,
+    limit: number,
+    signal?: AbortSignal,
+    onPartial?: (scored: ScoredEmbedding[]) => void
+  ): Promise<ScoredEmbedding[]> {
+    const toScored = (results: ScoredVector[]) =>
+      results.map(({ bookmarkId, score }) => ({ bookmarkId, score }));
+    const scored = await this.vectorScoring.score(
+      'documents',
+      providerId,
+      queryEmbedding,
+      [...candidates.keys()],
+      this.candidatePoolSize(limit),
+      {
+        signal,
+        minApproximate: limit,
+        onPartial: onPartial && ((partial) => onPartial(toScored(partial))),
+      }
+    );
 
-    for (const embedding of embeddings) {
-      const score = cosineSimilarity(queryEmbedding, embedding.embedding);
+    return toScored(scored);
+  }
 
-      if (score >= opts.minScore) {
-        const bookmark = await db.bookmarks.get(embedding.bookmarkId);
-        if (bookmark && !bookmark.hidden) {
-          scoredResults.push({
-            bookmark,
-            score,
-            providerId: provider.id,
-          });
-        }
+  /**
+   * Scores each bookmark by its best-matching content chunk and keeps that
+   * chunk as the passage explaining the match.
+   */
+  private async scorePassages(
+    providerId: string,
+    queryEmbedding: Float32Array,
+    candidates: Map<string, Bookmark>,
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<Map<string, SearchPassage>> {
+    const chunks = await this.vectorScoring.score(
+      'passages',
+      providerId,
+      queryEmbedding,
+      [...candidates.keys()],
+      this.candidatePoolSize(limit),
+      { signal }
+    );
+
+    const passages = new Map<string, SearchPassage>();
+
+    for (const { bookmarkId, score, passage } of chunks) {
+      const best = passages.get(bookmarkId);
+      if (passage && (!best || score > best.score)) {
+        passages.set(bookmarkId, { ...passage, score });
       }
     }
 
-    scoredResults.sort((a, b) => b.score - a.score);
+    return passages;
+  }
+
+  private mergePassageScores(
+    scored: ScoredEmbedding[],
+    passages: Map<string, SearchPassage>
+  ): ScoredEmbedding[] {
+    const merged = scored.map((entry) => {
+      const passage = passages.get(entry.bookmarkId);
+      return passage
+        ? {
+            ...entry,
+            score: Math.max(entry.score, passage.score),
+            documentScore: entry.score,
+            passage,
+          }
+        : entry;
+    });
+
+    const scoredIds = new Set(scored.map((entry) => entry.bookmarkId));
+    for (const [bookmarkId, passage] of passages) {
+      if (!scoredIds.has(bookmarkId)) {
+        merged.push({ bookmarkId, score: passage.score, passage });
+      }
+    }
 
-    return scoredResults.slice(0, opts.limit);
+    return merged;
   }
 
-  async searchWithFallback(
+  /** Vectors to keep per scan, matching the ANN neighbour count. */
+  private candidatePoolSize(limit: number): number {
+    return Math.max(
+      limit * ANN_CONFIG.CANDIDATE_MULTIPLIER,
+      ANN_CONFIG.EF_SEARCH
+    );
+  }
+
+  private async semanticSearch(
     query: string,
-    options: SearchOptions = {}
+    provider: EmbeddingProvider,
+    candidates: Map<string, Bookmark>,
+    opts: ResolvedSearchOptions,
+    feedback: RelatedFeedback[],
+    onPartial?: (results: SearchResult[]) => void
   ): Promise<SearchResult[]> {
+    const queryEmbedding = await this.embedQueryWithFeedback(
+      query,
+      provider,
+      feedback,
+      opts.signal
+    );
+    const scored = await this.scoreEmbeddings(
+      provider.id,
+      queryEmbedding,
+      candidates,
+      opts.limit,
+      opts.signal,
+      onPartial &&
+        ((partial) =>
+          onPartial(
+            this.toSemanticResults(
+              partial,
+              provider.id,
+              candidates,
+              opts.minScore
+            ).slice(0, opts.limit)
+          ))
+    );
+
+    return this.toSemanticResults(
+      scored,
+      provider.id,
+      candidates,
+      opts.minScore
+    );
+  }
+
+  private toSemanticResults(
+    scored: ScoredEmbedding[],
+    providerId: string,
+    candidates: Map<string, Bookmark>,
+    minScore: number
+  ): SearchResult[] {
+    const results: SearchResult[] = [];
+
+    for (const { bookmarkId, score, documentScore, passage } of scored) {
+      const bookmark = candidates.get(bookmarkId);
+      if (bookmark && score >= minScore) {
+        results.push({
+          bookmark,
+          score,
+          providerId,
+          scores: { semantic: score, document: documentScore },
+          contributingProviders: [providerId],
+          passage,
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Retrieves with the query and, when expansion is enabled, with each
+   * model-written variant, fusing the rankings with RRF. Variants share
+   * EXPANSION_WEIGHT against a weight of 1 for the query itself.
+   */
+  private async expandedSemanticSearch(
+    text: string,
+    providers: EmbeddingProvider[],
+    candidates: Map<string, Bookmark>,
+    opts: ResolvedSearchOptions,
+    feedback: RelatedFeedback[]
+  ): Promise<SearchResult[]> {
+    const retrieve = (
+      query: string,
+      queryFeedback: RelatedFeedback[],
+      onPartial?: (results: SearchResult[]) => void
+    ) =>
+      opts.aggregate
+        ? this.aggregateSemanticSearch(
+            query,
+            providers,
+            candidates,
+            opts,
+            queryFeedback
+          )
+        : this.semanticSearch(
+            query,
+            providers[0]!,
+            candidates,
+            opts,
+            queryFeedback,
+            onPartial
+          );
+
+    // Only the original query's ranking is worth showing provisionally
+    const original = await retrieve(text, feedback, opts.onPartial);
+    if (opts.queryExpansion === 'off') {
+      return original;
+    }
+
+    let expansions: string[];
     try {
-      return await this.search(query, options);
-    } catch (error) {
-      console.warn(
-        'Semantic search failed, falling back to text search:',
-        error
+      expansions = await this.queryExpansion.expand(
+        text,
+        opts.queryExpansion,
+        opts.signal
       );
-      return await this.textSearch(query, options.limit);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn('Query expansion failed, using the original query:', error);
+      return original;
+    }
+
+    const variants: SearchResult[][] = [];
+    for (const expansion of expansions) {
+      try {
+        variants.push(await retrieve(expansion, []));
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.warn('Search with expanded query failed:', error);
+      }
+    }
+
+    return variants.length > 0
+      ? this.fuseQueryVariants(original, variants)
+      : original;
+  }
+
+  private fuseQueryVariants(
+    original: SearchResult[],
+    variants: SearchResult[][]
+  ): SearchResult[] {
+    const rankings: RankedList[] = [
+      { ids: original.map((r) => r.bookmark.id), weight: 1 },
+      ...variants.map((results) => ({
+        ids: results.map((r) => r.bookmark.id),
+        weight: QUERY_EXPANSION_CONFIG.EXPANSION_WEIGHT / variants.length,
+      })),
+    ];
+    const fusedScores = reciprocalRankFusion(rankings, SEARCH_CONFIG.RRF_K);
+    const maxScore = maxReciprocalRankScore(rankings, SEARCH_CONFIG.RRF_K);
+
+    const byId = new Map<string, SearchResult>();
+    const matches = new Map<string, number>();
+    for (const result of original) {
+      byId.set(result.bookmark.id, result);
+    }
+    for (const results of variants) {
+      for (const result of results) {
+        const id = result.bookmark.id;
+        if (!byId.has(id)) {
+          byId.set(id, result);
+        }
+        matches.set(id, (matches.get(id) ?? 0) + 1);
+      }
     }
+
+    return [...fusedScores]
+      .map(([bookmarkId, fusedScore]) => {
+        const result = byId.get(bookmarkId)!;
+        return {
+          ...result,
+          score: maxScore > 0 ? fusedScore / maxScore : 0,
+          scores: {
+            ...result.scores,
+            expansionMatches: matches.get(bookmarkId),
+          },
+        };
+      })
+      .sort((a, b) => b.score - a.score);
   }
 
-  async textSearch(query: string, limit = 20): Promise<SearchResult[]> {
-    const lowercaseQuery = query.toLowerCase();
-    const terms = lowercaseQuery.split(/\s+/).filter((t) => t.length > 0);
+  private async aggregateSemanticSearch(
+    query: string,
+    providers: EmbeddingProvider[],
+    candidates: Map<string, Bookmark>,
+    opts: ResolvedSearchOptions,
+    feedback: RelatedFeedback[]
+  ): Promise<SearchResult[]> {
+    const settled = await Promise.allSettled(
+      providers.map(async (provider) => ({
+        providerId: provider.id,
+        scored: await this.scoreEmbeddings(
+          provider.id,
+          await this.embedQueryWithFeedback(
+            query,
+            provider,
+            feedback,
+            opts.signal
+          ),
+          candidates,
+          opts.limit,
+          opts.signal
+        ),
+      }))
+    );
+
+    throwIfAborted(opts.signal);
 
-    const bookmarks = await db.bookmarks.toArray();
+    const perProvider = settled.flatMap((outcome) => {
+      if (outcome.status === 'rejected') {
+        console.warn(
+          'Provider failed during aggregate search:',
+          outcome.reason
+        );
+        return [];
+      }
+      return [outcome.value];
+    });
 
-    const scoredResults: SearchResult[] = [];
+    if (perProvider.length === 0) {
+      throw new Error('All embedding providers failed to embed the query');
+    }
 
-    for (const bookmark of bookmarks) {
-      if (bookmark.hidden) {
+    const fused = new Map<
+      string,
+      {
+        total: number;
+        providers: Record<string, number>;
+        passage?: SearchPassage;
+      }
+    >();
+
+    for (const { providerId, scored } of perProvider) {
+      const normalized = this.normalizeScores(scored);
+
+      scored.forEach(({ bookmarkId, score, passage }, index) => {
+        if (score < opts.minScore) {
+          return;
+        }
+        const entry = fused.get(bookmarkId) ?? { total: 0, providers: {} };
+        entry.total += normalized[index]!;
+        entry.providers[providerId] = score;
+        if (
+          passage &&
+          (!entry.passage || passage.score > entry.passage.score)
+        ) {
+          entry.passage = passage;
+        }
+        fused.set(bookmarkId, entry);
+      });
+    }
+
+    const results: SearchResult[] = [];
+
+    for (const [
+      bookmarkId,
+      { total, providers: providerScores, passage },
+    ] of fused) {
+      const bookmark = candidates.get(bookmarkId);
+      if (!bookmark) {
         continue;
       }
 
-      let score = 0;
-      const searchableText = [
-        bookmark.title,
-        bookmark.url,
-        bookmark.userDescription ?? '',
-        bookmark.aiSummary ?? '',
-      ]
-        .join(' ')
-        .toLowerCase();
-
-      for (const term of terms) {
-        if (searchableText.includes(term)) {
-          if (bookmark.title.toLowerCase().includes(term)) {
-            score += 3;
-          } else if (bookmark.userDescription?.toLowerCase().includes(term)) {
-            score += 2;
-          } else {
-            score += 1;
-          }
+      const score = total / perProvider.length;
+      results.push({
+        bookmark,
+        score,
+        providerId: AGGREGATE_PROVIDER_ID,
+        scores: { semantic: score, providers: providerScores },
+        contributingProviders: Object.keys(providerScores),
+        passage,
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+
+    return results;
+  }
+
+  private normalizeScores(scored: ScoredEmbedding[]): number[] {
+    if (scored.length === 0) {
+      return [];
+    }
+
+    const values = scored.map((s) => s.score);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min;
+
+    return values.map((value) => (range > 0 ? (value - min) / range : 1));
+  }
+
+  /**
+   * BM25 over the bookmarks' fields and crawled content. Kept between
+   * queries until the bookmarks change; any edit to the text they are
+   * searched by, crawled content included, bumps a bookmark's version.
+   */
+  private async getLexicalIndex(bookmarks: Bookmark[]): Promise<BM25Index> {
+    const key = bookmarks
+      .map((bookmark) => `${bookmark.id}:${bookmark.version}`)
+      .join('\n');
+    if (this.lexicalIndex?.key === key) {
+      return this.lexicalIndex.index;
+    }
+
+    const contentByBookmark = await this.loadContentByBookmark();
+    const index = new BM25Index(
+      bookmarks.map((bookmark) => ({
+        id: bookmark.id,
+        fields: {
+          title: bookmark.title,
+          url: bookmark.url,
+          userDescription: bookmark.userDescription,
+          aiSummary: bookmark.aiSummary,
+          content: contentByBookmark.get(bookmark.id)?.join('\n'),
+        },
+      })),
+      {
+        k1: SEARCH_CONFIG.BM25_K1,
+        b: SEARCH_CONFIG.BM25_B,
+        fieldWeights: SEARCH_CONFIG.LEXICAL_FIELD_WEIGHTS,
+      }
+    );
+
+    this.lexicalIndex = { key, index };
+    return index;
+  }
+
+  private async loadContentByBookmark(): Promise<Map<string, string[]>> {
+    const contents = await db.content.toArray();
+
+    const contentByBookmark = new Map<string, string[]>();
+    for (const content of contents) {
+      if (content.fetchError) {
+        continue;
+      }
+      const parts = contentByBookmark.get(content.bookmarkId) ?? [];
+      parts.push(content.content);
+      contentByBookmark.set(content.bookmarkId, parts);
+    }
+
+    return contentByBookmark;
+  }
+
+  private fuseResults(
+    semanticResults: SearchResult[],
+    lexicalMatches: BM25Match[],
+    candidates: Map<string, Bookmark>,
+    providerId: string,
+    semanticWeight: number
+  ): SearchResult[] {
+    const weight = Math.min(Math.max(semanticWeight, 0), 1);
+    const rankings: RankedList[] = [
+      { ids: semanticResults.map((r) => r.bookmark.id), weight },
+      { ids: lexicalMatches.map((m) => m.id), weight: 1 - weight },
+    ];
+
+    const fusedScores = reciprocalRankFusion(rankings, SEARCH_CONFIG.RRF_K);
+    const maxScore = maxReciprocalRankScore(rankings, SEARCH_CONFIG.RRF_K);
+
+    const semanticById = new Map(
+      semanticResults.map((r, index) => [
+        r.bookmark.id,
+        { ...r, rank: index + 1 },
+      ])
+    );
+    const lexicalById = new Map(
+      lexicalMatches.map((m, index) => [m.id, { ...m, rank: index + 1 }])
+    );
+    const topLexicalScore = lexicalMatches[0]?.score ?? 1;
+
+    const results: SearchResult[] = [];
+
+    for (const [bookmarkId, fusedScore] of fusedScores) {
+      const bookmark = candidates.get(bookmarkId);
+      if (!bookmark) {
+        continue;
+      }
+
+      const lexicalMatch = lexicalById.get(bookmarkId);
+      const semanticResult = semanticById.get(bookmarkId);
+
+      results.push({
+        bookmark,
+        score: maxScore > 0 ? fusedScore / maxScore : 0,
+        providerId,
+        contributingProviders: semanticResult?.contributingProviders,
+        passage: semanticResult?.passage,
+        scores: {
+          semantic: semanticResult?.scores?.semantic ?? semanticResult?.score,
+          document: semanticResult?.scores?.document,
+          providers: semanticResult?.scores?.providers,
+          lexical: lexicalMatch
+            ? lexicalMatch.score / topLexicalScore
+            : undefined,
+          lexicalRaw: lexicalMatch?.score,
+          fused: fusedScore,
+          semanticRank: semanticResult?.rank,
+          lexicalRank: lexicalMatch?.rank,
+          matchedTerms: lexicalMatch?.matchedTerms,
+        },
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score);
+
+    return results;
+  }
+
+  private async finalizeResults(
+    ranked: SearchResult[],
+    text: string,
+    filters: SearchFilters,
+    providers: EmbeddingProvider[],
+    opts: ResolvedSearchOptions,
+    feedback: RelatedFeedback[],
+    dateHint?: DateHint
+  ): Promise<SearchResult[]> {
+    const recencyWeight = dateHint
+      ? Math.max(opts.recencyWeight, RECENCY_CONFIG.DATE_HINT_WEIGHT)
+      : opts.recencyWeight;
+    const prioritized = await this.rerankResults(
+      this.applyRecency(
+        this.applyClickPrior(ranked, feedback),
+        recencyWeight,
+        opts.recencyHalfLifeDays,
+        dateHint
+      ),
+      text,
+      opts
+    );
+    const results = (
+      await this.diversifyResults(prioritized, providers, opts)
+    ).slice(0, opts.limit);
+
+    if (!opts.explain) {
+      return results;
+    }
+
+    const originalRanks = new Map(
+      prioritized.map((result, index) => [result.bookmark.id, index + 1])
+    );
+
+    const provider = providers[0]!;
+    const filterDescriptions = [
+      ...describeFilters(filters),
+      `similarity ≥ ${opts.minScore}`,
+    ];
+    const queryTerms = [...new Set(tokenize(text))];
+
+    let queryEmbedding: Float32Array | undefined;
+    try {
+      queryEmbedding = await this.embedQuery(text, provider, opts.signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn('Failed to embed query for explanation:', error);
+    }
+
+    const tagsByResult: Tag[][] = [];
+    for (const result of results) {
+      tagsByResult.push(
+        await this.tagService.getBookmarkTags(result.bookmark.id)
+      );
+    }
+    const componentTexts = results.map(
+      (result, index) =>
+        this.contentPrep.prepareContentForEmbedding(
+          result.bookmark,
+          tagsByResult[index]!
+        ).components
+    );
+
+    let componentEmbeddings = new Map<string, Float32Array>();
+    if (queryEmbedding) {
+      try {
+        componentEmbeddings = await this.embedComponentTexts(
+          provider,
+          componentTexts.flatMap((components) =>
+            Object.values(components).filter((value): value is string =>
+              Boolean(value)
+            )
+          ),
+          opts.signal
+        );
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
         }
+        console.warn('Failed to embed components for explanation:', error);
       }
+    }
 
-      if (score > 0) {
-        scoredResults.push({
-          bookmark,
-          score: score / 10,
-          providerId: 'text-search',
+    const explained: SearchResult[] = [];
+
+    for (const [index, result] of results.entries()) {
+      const tags = tagsByResult[index]!;
+      const components = queryEmbedding
+        ? this.explainComponents(
+            componentTexts[index]!,
+            componentEmbeddings,
+            queryEmbedding
+          )
+        : [];
+
+      const scoreExplanation = this.explainScores(
+        result,
+        providers.length,
+        opts
+      );
+      if (feedback.length > 0) {
+        scoreExplanation.boosts.push(
+          `Query vector adjusted by feedback on ${feedback.length} bookmark${feedback.length !== 1 ? 's' : ''} from similar searches`
+        );
+      }
+      if (result.scores?.recency !== undefined) {
+        scoreExplanation.rawScores.recency = result.scores.recency;
+        scoreExplanation.boosts.push(
+          dateHint
+            ? `Added ${new Date(result.bookmark.dateAdded).toLocaleDateString()}: time match ${result.scores.recency.toFixed(3)} for "${dateHint.phrase}" weighted ${recencyWeight}`
+            : `Recency ${result.scores.recency.toFixed(3)} (half-life ${opts.recencyHalfLifeDays} days) weighted ${recencyWeight}`
+        );
+      }
+      const originalRank = originalRanks.get(result.bookmark.id);
+      if (originalRank !== undefined && originalRank !== index + 1) {
+        scoreExplanation.boosts.push(
+          `Diversification moved this result from rank ${originalRank} to ${index + 1}`
+        );
+      }
+
+      explained.push({
+        ...result,
+        explanation: {
+          ...scoreExplanation,
+          components,
+          componentProviderId: components.length > 0 ? provider.id : undefined,
+          matchedTerms: this.findMatchedTerms(queryTerms, result, tags),
+          filters: filterDescriptions,
+        },
+      });
+    }
+
+    return explained;
+  }
+
+  /**
+   * Embeds the query and moves it with Rocchio feedback from similar past
+   * searches, using the stored embeddings of the judged bookmarks. Clicks
+   * without a vote count as weaker positive judgements.
+   */
+  private async embedQueryWithFeedback(
+    query: string,
+    provider: EmbeddingProvider,
+    feedback: RelatedFeedback[],
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
+    const queryEmbedding = await this.embedQuery(query, provider, signal);
+    if (feedback.length === 0) {
+      return queryEmbedding;
+    }
+
+    const vectors = await this.loadVectors(
+      feedback.map((entry) => entry.bookmarkId),
+      [provider]
+    );
+    const relevant: WeightedVector[] = [];
+    const irrelevant: WeightedVector[] = [];
+
+    for (const entry of feedback) {
+      const vector = vectors.get(entry.bookmarkId);
+      if (!vector) {
+        continue;
+      }
+      if (entry.vote === 'irrelevant') {
+        irrelevant.push({ vector, weight: entry.similarity });
+      } else if (entry.vote === 'relevant') {
+        relevant.push({ vector, weight: entry.similarity });
+      } else if (entry.clicks > 0) {
+        relevant.push({
+          vector,
+          weight: entry.similarity * FEEDBACK_CONFIG.CLICK_WEIGHT,
         });
       }
     }
 
-    scoredResults.sort((a, b) => b.score - a.score);
+    return rocchio(queryEmbedding, relevant, irrelevant, {
+      alpha: FEEDBACK_CONFIG.ROCCHIO_ALPHA,
+      beta: FEEDBACK_CONFIG.ROCCHIO_BETA,
+      gamma: FEEDBACK_CONFIG.ROCCHIO_GAMMA,
+    });
+  }
+
+  private applyClickPrior(
+    results: SearchResult[],
+    feedback: RelatedFeedback[]
+  ): SearchResult[] {
+    const clicks = new Map<string, number>();
+    for (const entry of feedback) {
+      if (entry.vote !== 'irrelevant' && entry.clicks > 0) {
+        clicks.set(
+          entry.bookmarkId,
+          (clicks.get(entry.bookmarkId) ?? 0) + entry.clicks * entry.similarity
+        );
+      }
+    }
+
+    if (clicks.size === 0) {
+      return results;
+    }
+
+    return results
+      .map((result) => {
+        const prior = clickPrior(
+          clicks.get(result.bookmark.id) ?? 0,
+          FEEDBACK_CONFIG.CLICK_PRIOR_WEIGHT
+        );
+        return prior > 0
+          ? {
+              ...result,
+              score: Math.min(1, result.score + prior),
+              scores: { ...result.scores, clickPrior: prior },
+            }
+          : result;
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Blends each score with how close the bookmark's add date is to now, or
+   * to the period the query named. Outside a named period the score halves
+   * every period length.
+   */
+  private applyRecency(
+    results: SearchResult[],
+    weight: number,
+    halfLifeDays: number,
+    dateHint?: DateHint
+  ): SearchResult[] {
+    if (weight <= 0) {
+      return results;
+    }
+
+    const now = new Date();
+    return results
+      .map((result) => {
+        const recency = dateHint
+          ? timeProximity(
+              result.bookmark.dateAdded,
+              dateHint,
+              Math.max(rangeLengthInDays(dateHint), 1)
+            )
+          : recencyScore(result.bookmark.dateAdded, now, halfLifeDays);
+        return {
+          ...result,
+          score: blendWithRecency(result.score, recency, weight),
+          scores: { ...result.scores, recency },
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Asks the chat model to judge the top candidates and reorders them by
+   * its relevance, keeping the original scores in descending order so the
+   * ranking stays monotonic. Falls back to the embedding order on failure.
+   */
+  private async rerankResults(
+    ranked: SearchResult[],
+    text: string,
+    opts: ResolvedSearchOptions
+  ): Promise<SearchResult[]> {
+    if (!opts.rerank || ranked.length < 2) {
+      return ranked;
+    }
+
+    const head = ranked.slice(0, RERANK_CONFIG.TOP_N);
+    let relevance: Map<string, number>;
+    try {
+      relevance = await this.aiService.rerank(
+        text,
+        head.map(
+          (result): RerankCandidate => ({
+            id: result.bookmark.id,
+            title: result.bookmark.title,
+            url: result.bookmark.url,
+            summary:
+              result.bookmark.aiSummary ?? result.bookmark.userDescription,
+            passage: result.passage?.text,
+          })
+        ),
+        { signal: opts.signal }
+      );
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn('Re-ranking failed, keeping embedding order:', error);
+      return ranked;
+    }
+
+    const scores = head.map((result) => result.score);
+    const reordered = head
+      .map((result, index) => ({
+        result,
+        index,
+        relevance: relevance.get(result.bookmark.id),
+      }))
+      .sort(
+        (a, b) => (b.relevance ?? -1) - (a.relevance ?? -1) || a.index - b.index
+      )
+      .map(({ result, index, relevance }, position) => ({
+        ...result,
+        score: scores[position]!,
+        scores:
+          relevance === undefined
+            ? result.scores
+            : { ...result.scores, rerank: relevance, rerankedFrom: index + 1 },
+      }));
+
+    return [...reordered, ...ranked.slice(head.length)];
+  }
+
+  /**
+   * Applies MMR over the stored embeddings of the top of the ranking and
+   * then the per-domain cap. Results past the MMR pool keep their order.
+   */
+  private async diversifyResults(
+    ranked: SearchResult[],
+    providers: EmbeddingProvider[],
+    opts: ResolvedSearchOptions
+  ): Promise<SearchResult[]> {
+    let ordered = ranked;
+
+    if (opts.diversify && ranked.length > 1) {
+      const pool = ranked.slice(
+        0,
+        opts.limit * SEARCH_CONFIG.DIVERSITY_POOL_MULTIPLIER
+      );
+      const vectors = await this.loadVectors(
+        pool.map((r) => r.bookmark.id),
+        providers
+      );
+      const byId = new Map(pool.map((r) => [r.bookmark.id, r]));
+      const order = maximalMarginalRelevance(
+        pool.map((r) => ({
+          id: r.bookmark.id,
+          score: r.score,
+          vector: vectors.get(r.bookmark.id),
+        })),
+        opts.diversityLambda
+      );
+
+      ordered = [
+        ...order.map((id) => byId.get(id)!),
+        ...ranked.slice(pool.length),
+      ];
+    }
+
+    if (opts.maxPerDomain > 0) {
+      ordered = capPerGroup(
+        ordered,
+        (r) => getDomain(r.bookmark.url),
+        opts.maxPerDomain
+      );
+    }
+
+    return ordered;
+  }
+
+  private async loadVectors(
+    bookmarkIds: string[],
+    providers: EmbeddingProvider[]
+  ): Promise<Map<string, Float32Array>> {
+    const vectors = new Map<string, Float32Array>();
+
+    for (const provider of providers) {
+      const missing = bookmarkIds.filter((id) => !vectors.has(id));
+      if (missing.length === 0) {
+        break;
+      }
+
+      const rows = (
+        await db.embeddings.bulkGet(
+          missing.map((id) => [id, provider.id] as [string, string])
+        )
+      ).filter((row) => row !== undefined);
+      const fullVectors = await readFullVectors(
+        provider.id,
+        rows,
+        ({ bookmarkId }) => ({ bookmarkId })
+      );
+      for (const [row, vector] of fullVectors) {
+        vectors.set(row.bookmarkId, vector);
+      }
+    }
+
+    return vectors;
+  }
+
+  private explainScores(
+    result: SearchResult,
+    providerCount: number,
+    opts: ResolvedSearchOptions
+  ): Pick<SearchExplanation, 'rawScores' | 'normalizedScores' | 'boosts'> {
+    const scores = result.scores ?? {};
+    const rawScores: Record<string, number> = {};
+    const normalizedScores: Record<string, number> = { final: result.score };
+    const boosts: string[] = [];
+
+    if (scores.providers) {
+      for (const [providerId, score] of Object.entries(scores.providers)) {
+        rawScores[`provider:${providerId}`] = score;
+      }
+      if (scores.semantic !== undefined) {
+        normalizedScores.semantic = scores.semantic;
+      }
+      boosts.push(
+        `Averaged min-max normalized similarity across ${providerCount} providers`
+      );
+    } else if (scores.semantic !== undefined) {
+      rawScores.semantic = scores.semantic;
+    }
+
+    if (scores.document !== undefined) {
+      rawScores.document = scores.document;
+    }
+
+    if (result.passage) {
+      rawScores.passage = result.passage.score;
+      if (
+        scores.document !== undefined &&
+        result.passage.score > scores.document
+      ) {
+        boosts.push(
+          `Best passage raised semantic similarity from ${scores.document.toFixed(3)} to ${result.passage.score.toFixed(3)}`
+        );
+      }
+    }
+
+    if (scores.lexicalRaw !== undefined) {
+      rawScores.bm25 = scores.lexicalRaw;
+      if (scores.lexical !== undefined) {
+        normalizedScores.lexical = scores.lexical;
+      }
+    }
+
+    if (scores.clickPrior !== undefined) {
+      rawScores.clickPrior = scores.clickPrior;
+      boosts.push(
+        `Click prior +${scores.clickPrior.toFixed(3)} from past selections for similar queries`
+      );
+    }
+
+    if (scores.expansionMatches) {
+      boosts.push(
+        `Also retrieved by ${scores.expansionMatches} expanded quer${scores.expansionMatches !== 1 ? 'ies' : 'y'}`
+      );
+    }
+
+    if (scores.rerank !== undefined) {
+      rawScores.rerank = scores.rerank;
+      boosts.push(
+        `Chat model rated relevance ${(scores.rerank * 10).toFixed(1)}/10 (was rank ${scores.rerankedFrom} before re-ranking)`
+      );
+    }
+
+    if (scores.fused !== undefined) {
+      rawScores.rrf = scores.fused;
+      const weight = Math.min(Math.max(opts.semanticWeight, 0), 1);
+      boosts.push(
+        `Reciprocal rank fusion (k=${SEARCH_CONFIG.RRF_K}): semantic rank ${scores.semanticRank ?? '–'} × ${weight}, keyword rank ${scores.lexicalRank ?? '–'} × ${1 - weight}`
+      );
+    }
+
+    return { rawScores, normalizedScores, boosts };
+  }
+
+  /**
+   * Embeds the distinct texts of every explained component in one request.
+   * These are document texts, so they stay out of the query embedding cache.
+   */
+  private async embedComponentTexts(
+    provider: EmbeddingProvider,
+    texts: string[],
+    signal?: AbortSignal
+  ): Promise<Map<string, Float32Array>> {
+    const embeddings = new Map<string, Float32Array>();
+    const missing = [...new Set(texts)];
+    if (missing.length === 0) {
+      return embeddings;
+    }
+
+    const adapter = ProviderFactory.getAdapter(provider.type);
+    const results = await adapter.generateEmbeddings(
+      missing,
+      provider.endpoint,
+      provider.modelName,
+      provider.documentPrefix,
+      provider.documentSuffix,
+      signal
+    );
+    for (const [index, text] of missing.entries()) {
+      embeddings.set(text, new Float32Array(results[index]!.embedding));
+    }
+
+    return embeddings;
+  }
+
+  /** Empty when a component's embedding is missing. */
+  private explainComponents(
+    components: PreparedContent['components'],
+    embeddings: Map<string, Float32Array>,
+    queryEmbedding: Float32Array
+  ): ComponentContribution[] {
+    const contributions: ComponentContribution[] = [];
+
+    for (const [component, value] of Object.entries(components) as [
+      EmbeddedComponent,
+      string | undefined,
+    ][]) {
+      if (!value) {
+        continue;
+      }
+      const embedding = embeddings.get(value);
+      if (!embedding) {
+        return [];
+      }
+      contributions.push({
+        component,
+        similarity: cosineSimilarity(queryEmbedding, embedding),
+        share: 0,
+      });
+    }
+
+    const total = contributions.reduce(
+      (sum, c) => sum + Math.max(c.similarity, 0),
+      0
+    );
+
+    return contributions.map((c) => ({
+      ...c,
+      share: total > 0 ? Math.max(c.similarity, 0) / total : 0,
+    }));
+  }
+
+  private findMatchedTerms(
+    terms: string[],
+    result: SearchResult,
+    tags: Tag[]
+  ): MatchedTerm[] {
+    const { bookmark } = result;
+    const fields: Record<string, Set<string>> = {
+      title: new Set(tokenize(bookmark.title)),
+      url: new Set(tokenize(bookmark.url)),
+      userDescription: new Set(tokenize(bookmark.userDescription ?? '')),
+      aiSummary: new Set(tokenize(bookmark.aiSummary ?? '')),
+      tags: new Set(tokenize(tags.map((t) => t.name).join(' '))),
+      passage: new Set(tokenize(result.passage?.text ?? '')),
+    };
+    const lexicalTerms = new Set(result.scores?.matchedTerms ?? []);
+
+    return terms.flatMap((term) => {
+      const matchedFields = Object.keys(fields).filter((field) =>
+        fields[field]!.has(term)
+      );
+      if (matchedFields.length === 0 && lexicalTerms.has(term)) {
+        matchedFields.push('content');
+      }
+      return matchedFields.length > 0 ? [{ term, fields: matchedFields }] : [];
+    });
+  }
+
+  private async resolveCandidates(
+    filters: SearchFilters,
+    providerId?: string
+  ): Promise<Map<string, Bookmark>> {
+    let bookmarks = await db.bookmarks
+      .filter((b) => b.hidden === filters.hidden)
+      .toArray();
+
+    const { sites, excludedSites, folders, dateAdded, lastModified } = filters;
+
+    bookmarks = bookmarks.filter((bookmark) => {
+      if (
+        sites.length > 0 &&
+        !sites.some((s) => matchesSite(bookmark.url, s))
+      ) {
+        return false;
+      }
+      if (excludedSites.some((s) => matchesSite(bookmark.url, s))) {
+        return false;
+      }
+      if (folders.length > 0) {
+        const folderPath = bookmark.folderPath?.toLowerCase() ?? '';
+        const inFolder = folders.some(
+          (folder) =>
+            folderPath === folder || folderPath.startsWith(`${folder}/`)
+        );
+        if (!inFolder) {
+          return false;
+        }
+      }
+      if (dateAdded && !isWithinRange(bookmark.dateAdded, dateAdded)) {
+        return false;
+      }
+      if (lastModified && !isWithinRange(bookmark.lastModified, lastModified)) {
+        return false;
+      }
+      if (
+        filters.status.summarized !== undefined &&
+        !!bookmark.aiSummary?.trim() !== filters.status.summarized
+      ) {
+        return false;
+      }
+      if (
+        filters.status.described !== undefined &&
+        !!bookmark.userDescription?.trim() !== filters.status.described
+      ) {
+        return false;
+      }
+      return true;
+    });
+
+    for (const tagName of filters.tags) {
+      const taggedIds = await this.getTaggedBookmarkIds(tagName);
+      bookmarks = bookmarks.filter((b) => taggedIds.has(b.id));
+    }
+
+    for (const tagName of filters.excludedTags) {
+      const taggedIds = await this.getTaggedBookmarkIds(tagName);
+      bookmarks = bookmarks.filter((b) => !taggedIds.has(b.id));
+    }
+
+    if (filters.status.crawled !== undefined) {
+      const crawledIds = new Set(
+        (await db.content.where('type').equals(ContentType.PRIMARY).toArray())
+          .filter((c) => !c.fetchError)
+          .map((c) => c.bookmarkId)
+      );
+      bookmarks = bookmarks.filter(
+        (b) => crawledIds.has(b.id) === filters.status.crawled
+      );
+    }
+
+    if (filters.status.indexed !== undefined) {
+      const keys = providerId
+        ? await db.embeddings
+            .where('providerId')
+            .equals(providerId)
+            .primaryKeys()
+        : await db.embeddings.toCollection().primaryKeys();
+      const indexedIds = new Set(keys.map(([bookmarkId]) => bookmarkId));
+      bookmarks = bookmarks.filter(
+        (b) => indexedIds.has(b.id) === filters.status.indexed
+      );
+    }
+
+    return new Map(bookmarks.map((b) => [b.id, b]));
+  }
+
+  private async getTaggedBookmarkIds(tagName: string): Promise<Set<string>> {
+    const tag = await this.tagService.getTagByName(tagName);
+    if (!tag) {
+      return new Set();
+    }
+    return new Set(await this.tagService.getTaggedBookmarks(tag.id));
+  }
 
-    return scoredResults.slice(0, limit);
+  private listCandidates(
+    candidates: Map<string, Bookmark>,
+    providerId: string,
+    limit: number
+  ): SearchResult[] {
+    return [...candidates.values()]
+      .sort(
+        (a, b) =>
+          new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime()
+      )
+      .slice(0, limit)
+      .map((bookmark) => ({ bookmark, score: 1, providerId }));
   }
 }
@@ -1,7 +1,11 @@
 import browser from 'webextension-polyfill';
 
 import type { AIProviderSettings, ProviderTestResult } from '@/types/provider';
-import type { Settings, CrawlerSettings } from '@/types/settings';
+import type {
+  Settings,
+  CrawlerSettings,
+  IndexingSettings,
+} from '@/types/settings';
 
 import { DEFAULT_SETTINGS } from '@/types/settings';
 
@@ -36,6 +40,10 @@ export class SettingsService {
           ...DEFAULT_SETTINGS.crawler,
           ...(stored.crawler || {}),
         },
+        indexing: {
+          ...DEFAULT_SETTINGS.indexing,
+          ...(stored.indexing || {}),
+        },
         aiProvider: {
           ...DEFAULT_SETTINGS.aiProvider,
           ...(stored.aiProvider || {}),
@@ -72,6 +80,22 @@ export class SettingsService {
     await this.saveSettings(settings);
   }
 
+  async getIndexingSettings(): Promise<IndexingSettings> {
+    const settings = await this.getSettings();
+    return settings.indexing;
+  }
+
+  async updateIndexingSettings(
+    indexing: Partial<IndexingSettings>
+  ): Promise<void> {
+    const settings = await this.getSettings();
+    settings.indexing = {
+      ...settings.indexing,
+      ...indexing,
+    };
+    await this.saveSettings(settings);
+  }
+
   async resetToDefaults(): Promise<void> {
     await this.saveSettings(DEFAULT_SETTINGS);
   }
@@ -1,3 +1,5 @@
+import { BookmarkChangeService } from './BookmarkChangeService';
+
 import type { Tag, BookmarkTag } from '@/types/tag';
 
 import { DEFAULT_TAGS } from '@/constants/defaultTags';
@@ -9,6 +11,11 @@ export class TagService {
 
   private tagCache: Map<string, Tag> = new Map();
   private cacheInitialized = false;
+  private changes: BookmarkChangeService;
+
+  constructor() {
+    this.changes = BookmarkChangeService.getInstance();
+  }
 
   static getInstance(): TagService {
     if (!TagService.instance) {
@@ -104,6 +111,7 @@ export class TagService {
     });
 
     this.invalidateCache();
+    await this.changes.recordChanges(await this.getTaggedBookmarks(tagId));
   }
 
   async updateTagDescription(
@@ -147,12 +155,14 @@ export class TagService {
       throw new Error('Cannot delete default tags');
     }
 
+    const taggedBookmarkIds = await this.getTaggedBookmarks(tagId);
     await db.transaction('rw', [db.tags, db.bookmarkTags], async () => {
       await db.bookmarkTags.where('tagId').equals(tagId).delete();
       await db.tags.delete(tagId);
     });
 
     this.invalidateCache();
+    await this.changes.recordChanges(taggedBookmarkIds);
   }
 
   async mergeTags(sourceTagId: string, targetTagId: string): Promise<void> {
@@ -175,6 +185,7 @@ export class TagService {
       throw new Error('Cannot merge default tags');
     }
 
+    const taggedBookmarkIds = await this.getTaggedBookmarks(sourceTagId);
     await db.transaction('rw', [db.tags, db.bookmarkTags], async () => {
       const bookmarkTagsToUpdate = await db.bookmarkTags
         .where('tagId')
@@ -205,6 +216,7 @@ export class TagService {
     });
 
     this.invalidateCache();
+    await this.changes.recordChanges(taggedBookmarkIds);
   }
 
   async assignTagToBookmark(
@@ -236,6 +248,11 @@ export class TagService {
         usageCount: tag.usageCount + 1,
       });
     });
+
+    // Syncing reports the bookmarks it adds all at once
+    if (assignedBy !== TagAssignmentSource.FOLDER_SYNC) {
+      await this.changes.recordChanges([bookmarkId]);
+    }
   }
 
   async removeTagFromBookmark(
@@ -259,6 +276,7 @@ export class TagService {
         usageCount: Math.max(0, tag.usageCount - 1),
       });
     });
+    await this.changes.recordChanges([bookmarkId]);
   }
 
   async getBookmarkTags(bookmarkId: string): Promise<Tag[]> {
@@ -0,0 +1,374 @@
+import type { Bookmark } from '@/types/bookmark';
+import type { Content } from '@/types/content';
+import type { TextIndexTerm } from '@/types/search';
+
+import { SEARCH_CONFIG, TEXT_INDEX_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { tokenize } from '@/utils/textUtils';
+import { extractTrigrams, trigramSimilarity } from '@/utils/trigrams';
+
+export interface TextIndexMatch {
+  bookmarkId: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+interface TermExpansion {
+  term: string;
+  quality: number;
+  documentCount: number;
+}
+
+const FIELD_WEIGHTS: Record<string, number> =
+  SEARCH_CONFIG.LEXICAL_FIELD_WEIGHTS;
+const MAX_FIELD_WEIGHT = Math.max(...Object.values(FIELD_WEIGHTS));
+
+/**
+ * Persisted inverted index over bookmark fields and crawled content, with
+ * a trigram vocabulary for typo-tolerant and prefix lookups.
+ */
+export class TextIndexService {
+  private static instance: TextIndexService;
+
+  private constructor() {}
+
+  static getInstance(): TextIndexService {
+    if (!TextIndexService.instance) {
+      TextIndexService.instance = new TextIndexService();
+    }
+    return TextIndexService.instance;
+  }
+
+  static resetInstance(): void {
+    TextIndexService.instance = undefined as unknown as TextIndexService;
+  }
+
+  /**
+   * Scores bookmarks in [0, 1]: each query term contributes its best
+   * match quality times the weight of the best field it appears in,
+   * weighted by idf and normalized by the total query weight.
+   */
+  async search(
+    query: string,
+    candidateIds?: Set<string>
+  ): Promise<TextIndexMatch[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const documentTotal = await db.textDocuments.count();
+    const scores = new Map<string, { score: number; terms: Set<string> }>();
+    let totalWeight = 0;
+
+    for (const queryTerm of queryTerms) {
+      const expansions = await this.expandTerm(queryTerm);
+      const idf = Math.log(
+        1 + documentTotal / Math.max(expansions[0]?.documentCount ?? 1, 1)
+      );
+      totalWeight += idf;
+
+      const best = new Map<string, { value: number; term: string }>();
+
+      for (const expansion of expansions) {
+        const postings = await db.textPostings
+          .where('term')
+          .equals(expansion.term)
+          .toArray();
+
+        for (const posting of postings) {
+          if (candidateIds && !candidateIds.has(posting.bookmarkId)) {
+            continue;
+          }
+
+          const value =
+            (expansion.quality * this.fieldWeight(posting.fields)) /
+            MAX_FIELD_WEIGHT;
+          if (value > (best.get(posting.bookmarkId)?.value ?? 0)) {
+            best.set(posting.bookmarkId, { value, term: expansion.term });
+          }
+        }
+      }
+
+      for (const [bookmarkId, { value, term }] of best) {
+        const entry = scores.get(bookmarkId) ?? { score: 0, terms: new Set() };
+        entry.score += idf * value;
+        entry.terms.add(term);
+        scores.set(bookmarkId, entry);
+      }
+    }
+
+    if (totalWeight === 0) {
+      return [];
+    }
+
+    return [...scores]
+      .map(([bookmarkId, { score, terms }]) => ({
+        bookmarkId,
+        score: score / totalWeight,
+        matchedTerms: [...terms],
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  async indexBookmark(bookmarkId: string): Promise<void> {
+    const bookmark = await db.bookmarks.get(bookmarkId);
+    if (!bookmark) {
+      await this.removeBookmark(bookmarkId);
+      return;
+    }
+
+    const contents = await db.content
+      .where('bookmarkId')
+      .equals(bookmarkId)
+      .toArray();
+    const postings = this.buildPostings(bookmark, contents);
+    const terms = [...postings.keys()];
+
+    await db.transaction(
+      'rw',
+      [db.textTerms, db.textPostings, db.textDocuments],
+      async () => {
+        const previous = new Set(
+          (await db.textDocuments.get(bookmarkId))?.terms ?? []
+        );
+
+        await this.adjustDocumentCounts(
+          terms.filter((term) => !previous.has(term)),
+          1
+        );
+        await this.adjustDocumentCounts(
+          [...previous].filter((term) => !postings.has(term)),
+          -1
+        );
+
+        await db.textPostings.where('bookmarkId').equals(bookmarkId).delete();
+        await db.textPostings.bulkPut(
+          [...postings].map(([term, fields]) => ({ term, bookmarkId, fields }))
+        );
+        await db.textDocuments.put({
+          bookmarkId,
+          terms,
+          indexedAt: new Date(),
+        });
+      }
+    );
+  }
+
+  async removeBookmark(bookmarkId: string): Promise<void> {
+    await db.transaction(
+      'rw',
+      [db.textTerms, db.textPostings, db.textDocuments],
+      async () => {
+        const document = await db.textDocuments.get(bookmarkId);
+        if (!document) {
+          return;
+        }
+
+        await this.adjustDocumentCounts(document.terms, -1);
+        await db.textPostings.where('bookmarkId').equals(bookmarkId).delete();
+        await db.textDocuments.delete(bookmarkId);
+      }
+    );
+  }
+
+  /**
+   * Indexes bookmarks that predate the index or were written without
+   * going through a service, and drops documents of deleted bookmarks.
+   * Run by the background script, never during a search.
+   */
+  async ensureIndexed(): Promise<number> {
+    const [bookmarkIds, documentIds] = await Promise.all([
+      db.bookmarks.toCollection().primaryKeys(),
+      db.textDocuments.toCollection().primaryKeys(),
+    ]);
+    const existing = new Set(bookmarkIds);
+    const indexed = new Set(documentIds);
+
+    const missing = bookmarkIds.filter((id) => !indexed.has(id));
+    const orphaned = documentIds.filter((id) => !existing.has(id));
+
+    for (const id of missing) {
+      await this.indexBookmark(id);
+    }
+    for (const id of orphaned) {
+      await this.removeBookmark(id);
+    }
+
+    return missing.length + orphaned.length;
+  }
+
+  private async expandTerm(term: string): Promise<TermExpansion[]> {
+    const expansions = new Map<string, TermExpansion>();
+    const add = (entry: TextIndexTerm, quality: number) => {
+      if (quality > (expansions.get(entry.term)?.quality ?? 0)) {
+        expansions.set(entry.term, {
+          term: entry.term,
+          quality,
+          documentCount: entry.documentCount,
+        });
+      }
+    };
+
+    const exact = await db.textTerms.get(term);
+    if (exact) {
+      add(exact, 1);
+    }
+
+    if (term.length >= TEXT_INDEX_CONFIG.MIN_PREFIX_LENGTH) {
+      const prefixed = await db.textTerms
+        .where('term')
+        .startsWith(term)
+        .limit(TEXT_INDEX_CONFIG.MAX_EXPANSIONS + 1)
+        .toArray();
+      for (const entry of prefixed) {
+        if (entry.term !== term) {
+          add(entry, TEXT_INDEX_CONFIG.PREFIX_MATCH_WEIGHT);
+        }
+      }
+    }
+
+    if (term.length >= TEXT_INDEX_CONFIG.MIN_FUZZY_LENGTH) {
+      for (const entry of await this.fuzzyCandidates(term)) {
+        const similarity = trigramSimilarity(term, entry.term);
+        if (similarity >= TEXT_INDEX_CONFIG.FUZZY_THRESHOLD) {
+          add(entry, TEXT_INDEX_CONFIG.FUZZY_MATCH_WEIGHT * similarity);
+        }
+      }
+    }
+
+    return [...expansions.values()]
+      .sort((a, b) => b.quality - a.quality)
+      .slice(0, TEXT_INDEX_CONFIG.MAX_EXPANSIONS);
+  }
+
+  /**
+   * Vocabulary terms sharing enough trigrams with `term` to reach
+   * FUZZY_THRESHOLD, most shared first. Only keys are read until the
+   * MAX_FUZZY_CANDIDATES best are chosen.
+   */
+  private async fuzzyCandidates(term: string): Promise<TextIndexTerm[]> {
+    const trigrams = extractTrigrams(term);
+    const threshold = TEXT_INDEX_CONFIG.FUZZY_THRESHOLD;
+    // A Dice coefficient of 2s / (a + b) with b >= s needs s >= ta / (2 - t)
+    const minShared = Math.ceil(
+      (threshold * trigrams.length) / (2 - threshold) - 1e-9
+    );
+
+    // Without distinct(), a term is listed once per trigram it shares
+    const shared = new Map<string, number>();
+    for (const key of await db.textTerms
+      .where('trigrams')
+      .anyOf(trigrams)
+      .primaryKeys()) {
+      shared.set(key, (shared.get(key) ?? 0) + 1);
+    }
+
+    const keys = [...shared]
+      .filter(([, count]) => count >= minShared)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TEXT_INDEX_CONFIG.MAX_FUZZY_CANDIDATES)
+      .map(([key]) => key);
+
+    return (await db.textTerms.bulkGet(keys)).filter(
+      (entry): entry is TextIndexTerm => !!entry
+    );
+  }
+
+  private fieldWeight(fields: Record<string, number>): number {
+    return Math.max(
+      0,
+      ...Object.keys(fields).map((field) => FIELD_WEIGHTS[field] ?? 0)
+    );
+  }
+
+  private buildPostings(
+    bookmark: Bookmark,
+    contents: Content[]
+  ): Map<string, Record<string, number>> {
+    const fields: Record<string, string | undefined> = {
+      title: bookmark.title,
+      url: bookmark.url,
+      userDescription: bookmark.userDescription,
+      aiSummary: bookmark.aiSummary,
+      content: contents
+        .filter((content) => !content.fetchError)
+        .map((content) => content.content)
+        .join('\n'),
+    };
+
+    const postings = new Map<string, Record<string, number>>();
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (!value) {
+        continue;
+      }
+
+      let tokens = tokenize(value).filter(
+        (token) => token.length <= TEXT_INDEX_CONFIG.MAX_TERM_LENGTH
+      );
+      if (field === 'content') {
+        tokens = this.keepMostFrequent(
+          tokens,
+          TEXT_INDEX_CONFIG.MAX_CONTENT_TERMS
+        );
+      }
+
+      for (const token of tokens) {
+        const frequencies = postings.get(token) ?? {};
+        frequencies[field] = (frequencies[field] ?? 0) + 1;
+        postings.set(token, frequencies);
+      }
+    }
+
+    return postings;
+  }
+
+  private keepMostFrequent(tokens: string[], max: number): string[] {
+    const counts = new Map<string, number>();
+    for (const token of tokens) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    if (counts.size <= max) {
+      return tokens;
+    }
+
+    const kept = new Set(
+      [...counts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, max)
+        .map(([token]) => token)
+    );
+    return tokens.filter((token) => kept.has(token));
+  }
+
+  private async adjustDocumentCounts(
+    terms: string[],
+    delta: number
+  ): Promise<void> {
+    if (terms.length === 0) {
+      return;
+    }
+
+    const existing = await db.textTerms.bulkGet(terms);
+    const updated: TextIndexTerm[] = [];
+    const removed: string[] = [];
+
+    terms.forEach((term, index) => {
+      const entry = existing[index];
+      const documentCount = (entry?.documentCount ?? 0) + delta;
+      if (documentCount > 0) {
+        updated.push({
+          term,
+          trigrams: entry?.trigrams ?? extractTrigrams(term),
+          documentCount,
+        });
+      } else {
+        removed.push(term);
+      }
+    });
+
+    await db.textTerms.bulkPut(updated);
+    await db.textTerms.bulkDelete(removed);
+  }
+}
@@ -0,0 +1,241 @@
+import type { ChunkEmbedding, Embedding } from '@/types/provider';
+import type {
+  EmbeddingUpdate,
+  ScoredVector,
+  VectorScoringTarget,
+  VectorWorkerRequest,
+  VectorWorkerResponse,
+} from '@/types/vectorScoring';
+
+import { VECTOR_SCORING_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { readFullVectors } from '@/storage/fullVectors';
+import { createAbortError, throwIfAborted } from '@/utils/abort';
+import { VectorScan } from '@/utils/vectorScan';
+
+export interface VectorScoringOptions {
+  signal?: AbortSignal;
+  /** Receives the provisional top-k while a large scan is in progress. */
+  onPartial?: (results: ScoredVector[]) => void;
+  /** See VectorScoreRequest; scans on this thread are always exact. */
+  minApproximate?: number;
+}
+
+interface PendingRequest {
+  onPartial?: (results: ScoredVector[]) => void;
+  resolve: (results: ScoredVector[]) => void;
+  reject: (error: Error) => void;
+  /** Runs the request on this thread if the worker dies. */
+  fallback: () => Promise<ScoredVector[]>;
+}
+
+/**
+ * Scores a query vector against stored embeddings in a dedicated worker
+ * that keeps them resident, so large scans do not block the extension
+ * page. Scans on the calling thread where workers are unavailable.
+ */
+export class VectorScoringService {
+  private static instance: VectorScoringService;
+  /** Undefined until first use; null when scoring runs on this thread. */
+  private worker: Worker | null | undefined;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+
+  private constructor() {}
+
+  static getInstance(): VectorScoringService {
+    if (!VectorScoringService.instance) {
+      VectorScoringService.instance = new VectorScoringService();
+    }
+    return VectorScoringService.instance;
+  }
+
+  static resetInstance(): void {
+    VectorScoringService.instance?.worker?.terminate();
+    VectorScoringService.instance =
+      undefined as unknown as VectorScoringService;
+  }
+
+  /**
+   * Returns the `limit` best-scoring rows among the candidate bookmarks,
+   * highest first. Passage results carry the matching chunk, and a
+   * bookmark may appear once per chunk.
+   */
+  async score(
+    target: VectorScoringTarget,
+    providerId: string,
+    query: Float32Array,
+    candidateIds: string[],
+    limit: number,
+    options: VectorScoringOptions = {}
+  ): Promise<ScoredVector[]> {
+    throwIfAborted(options.signal);
+
+    const fallback = () =>
+      this.scanInThread(target, providerId, query, candidateIds, limit);
+    const worker = this.getWorker();
+    if (!worker) {
+      return await fallback();
+    }
+
+    const requestId = this.nextRequestId++;
+    const { signal, onPartial } = options;
+
+    return await new Promise<ScoredVector[]>((resolve, reject) => {
+      const abort = () => {
+        worker.postMessage({
+          type: 'cancel',
+          requestId,
+        } satisfies VectorWorkerRequest);
+        this.pending.get(requestId)?.reject(createAbortError());
+      };
+      const cleanup = () => {
+        this.pending.delete(requestId);
+        signal?.removeEventListener('abort', abort);
+      };
+
+      this.pending.set(requestId, {
+        onPartial,
+        resolve: (results) => {
+          cleanup();
+          resolve(results);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+        fallback,
+      });
+      signal?.addEventListener('abort', abort);
+
+      worker.postMessage({
+        type: 'score',
+        requestId,
+        target,
+        providerId,
+        query,
+        candidateIds,
+        limit,
+        minApproximate: options.minApproximate,
+      } satisfies VectorWorkerRequest);
+    });
+  }
+
+  /**
+   * Tells every resident copy of the embeddings, in any extension context,
+   * that rows changed in IndexedDB.
+   */
+  publishUpdate(update: EmbeddingUpdate): void {
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    const channel = new BroadcastChannel(VECTOR_SCORING_CONFIG.UPDATES_CHANNEL);
+    channel.postMessage(update);
+    channel.close();
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker === undefined) {
+      this.worker = typeof Worker === 'undefined' ? null : this.createWorker();
+    }
+    return this.worker;
+  }
+
+  private createWorker(): Worker | null {
+    try {
+      const worker = new Worker(VECTOR_SCORING_CONFIG.WORKER_URL, {
+        type: 'module',
+      });
+      worker.onmessage = (event: MessageEvent<VectorWorkerResponse>) =>
+        this.handleMessage(event.data);
+      worker.onerror = (event) => this.handleWorkerError(event);
+      return worker;
+    } catch (error) {
+      console.warn('Vector scoring worker unavailable:', error);
+      return null;
+    }
+  }
+
+  private handleMessage(response: VectorWorkerResponse): void {
+    const request = this.pending.get(response.requestId);
+    if (!request) {
+      return;
+    }
+
+    switch (response.type) {
+      case 'partial':
+        request.onPartial?.(response.results);
+        break;
+      case 'done':
+        request.resolve(response.results);
+        break;
+      case 'error':
+        request.reject(new Error(response.message));
+        break;
+    }
+  }
+
+  private handleWorkerError(event: ErrorEvent): void {
+    console.warn(
+      'Vector scoring worker failed, scoring on this thread:',
+      event.message
+    );
+    this.worker?.terminate();
+    this.worker = null;
+
+    for (const request of this.pending.values()) {
+      request.fallback().then(request.resolve, request.reject);
+    }
+  }
+
+  private async scanInThread(
+    target: VectorScoringTarget,
+    providerId: string,
+    query: Float32Array,
+    candidateIds: string[],
+    limit: number
+  ): Promise<ScoredVector[]> {
+    const candidates = new Set(candidateIds);
+
+    if (target === 'documents') {
+      const scan = new VectorScan<Embedding>(query, limit);
+      scan.add(
+        (
+          await db.embeddings.where('providerId').equals(providerId).toArray()
+        ).filter((embedding) => candidates.has(embedding.bookmarkId))
+      );
+      const fullVectors = await readFullVectors(
+        providerId,
+        scan.candidates,
+        ({ bookmarkId }) => ({ bookmarkId })
+      );
+
+      return scan.results(fullVectors).map(({ row, score }) => ({
+        bookmarkId: row.bookmarkId,
+        score,
+      }));
+    }
+
+    const scan = new VectorScan<ChunkEmbedding>(query, limit);
+    scan.add(
+      (
+        await db.chunkEmbeddings
+          .where('providerId')
+          .equals(providerId)
+          .toArray()
+      ).filter((chunk) => candidates.has(chunk.bookmarkId))
+    );
+    const fullVectors = await readFullVectors(
+      providerId,
+      scan.candidates,
+      (chunk) => chunk
+    );
+
+    return scan.results(fullVectors).map(({ row, score }) => ({
+      bookmarkId: row.bookmarkId,
+      score,
+      passage: { text: row.text, url: row.url },
+    }));
+  }
+}
@@ -2,11 +2,64 @@ import Dexie from 'dexie';
 
 import type { Bookmark } from '@/types/bookmark';
 import type { Content, RelatedPage } from '@/types/content';
-import type { EmbeddingProvider, Embedding } from '@/types/provider';
+import type { IndexingJob, IndexingJobItem } from '@/types/indexing';
+import type {
+  AnnIndexMetadata,
+  AnnIndexNode,
+  CachedQueryEmbedding,
+  ChunkEmbedding,
+  ChunkVector,
+  EmbeddingProvider,
+  Embedding,
+  EmbeddingVector,
+} from '@/types/provider';
+import type {
+  QueryExpansion,
+  SavedSearch,
+  SearchFeedback,
+  SearchHistoryEntry,
+  TextIndexDocument,
+  TextIndexPosting,
+  TextIndexTerm,
+} from '@/types/search';
 import type { Tag, BookmarkTag } from '@/types/tag';
+import type { EncodedEmbedding } from '@/utils/quantization';
 import type { Table } from 'dexie';
 
 import { STORAGE_CONFIG } from '@/constants/config';
+import { getEmbeddingVector } from '@/utils/quantization';
+
+/**
+ * Quantized rows used to keep only their int8 codes, which binary rows held
+ * next to the sign bits. The decoded codes are the closest thing left to the
+ * float vector, so they move to the full-precision table and binary rows
+ * keep only the sign bits. The rows lose their config fingerprint, so they
+ * read as stale until re-indexing restores the float vectors.
+ */
+async function moveQuantizedVectors<
+  T extends EncodedEmbedding & { configFingerprint?: string },
+  V extends EmbeddingVector,
+>(
+  rows: Table<T>,
+  vectors: Table<V>,
+  toVector: (row: T, embedding: Float32Array) => V
+): Promise<void> {
+  const moved: V[] = [];
+  await rows.toCollection().modify((row) => {
+    const embedding = !row.embedding && getEmbeddingVector(row);
+    if (!embedding) {
+      return;
+    }
+
+    moved.push(toVector(row, embedding));
+    if (row.quantization === 'binary') {
+      delete row.int8;
+      delete row.int8Scale;
+    }
+    delete row.configFingerprint;
+  });
+  await vectors.bulkPut(moved);
+}
 
 export class SemanticBookmarkDatabase extends Dexie {
   tags!: Table<Tag, string>;
@@ -16,6 +69,21 @@ export class SemanticBookmarkDatabase extends Dexie {
   relatedPages!: Table<RelatedPage, string>;
   embeddingProviders!: Table<EmbeddingProvider, string>;
   embeddings!: Table<Embedding, [string, string]>;
+  annIndexes!: Table<AnnIndexMetadata, string>;
+  annNodes!: Table<AnnIndexNode, [string, string]>;
+  chunkEmbeddings!: Table<ChunkEmbedding, [string, string, string, number]>;
+  embeddingVectors!: Table<EmbeddingVector, [string, string]>;
+  chunkVectors!: Table<ChunkVector, [string, string, string, number]>;
+  textTerms!: Table<TextIndexTerm, string>;
+  textPostings!: Table<TextIndexPosting, [string, string]>;
+  textDocuments!: Table<TextIndexDocument, string>;
+  searchHistory!: Table<SearchHistoryEntry, string>;
+  savedSearches!: Table<SavedSearch, string>;
+  searchFeedback!: Table<SearchFeedback, [string, string]>;
+  queryExpansions!: Table<QueryExpansion, [string, string]>;
+  queryEmbeddings!: Table<CachedQueryEmbedding, string>;
+  indexingJobs!: Table<IndexingJob, string>;
+  indexingJobItems!: Table<IndexingJobItem, [string, string]>;
 
   constructor() {
     super(STORAGE_CONFIG.DB_NAME);
@@ -26,7 +94,7 @@ export class SemanticBookmarkDatabase extends Dexie {
       bookmarks: 'id, url, title, version, dateAdded, lastModified',
     });
 
-    this.version(STORAGE_CONFIG.DB_VERSION).stores({
+    this.version(3).stores({
       tags: 'id, name, source, usageCount',
       bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
       bookmarks: 'id, url, title, version, dateAdded, lastModified',
@@ -45,6 +113,215 @@ export class SemanticBookmarkDatabase extends Dexie {
       embeddingProviders: 'id, type, createdAt',
       embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
     });
+
+    this.version(5).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+    });
+
+    this.version(6).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+    });
+
+    this.version(7).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+      textTerms: 'term, *trigrams',
+      textPostings: '[term+bookmarkId], term, bookmarkId',
+      textDocuments: 'bookmarkId',
+    });
+
+    this.version(8).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+      textTerms: 'term, *trigrams',
+      textPostings: '[term+bookmarkId], term, bookmarkId',
+      textDocuments: 'bookmarkId',
+      searchHistory: 'id, query, createdAt',
+      savedSearches: 'id, createdAt',
+    });
+
+    this.version(9).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+      textTerms: 'term, *trigrams',
+      textPostings: '[term+bookmarkId], term, bookmarkId',
+      textDocuments: 'bookmarkId',
+      searchHistory: 'id, query, createdAt',
+      savedSearches: 'id, createdAt',
+      searchFeedback: '[query+bookmarkId], query, bookmarkId',
+    });
+
+    this.version(10).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+      textTerms: 'term, *trigrams',
+      textPostings: '[term+bookmarkId], term, bookmarkId',
+      textDocuments: 'bookmarkId',
+      searchHistory: 'id, query, createdAt',
+      savedSearches: 'id, createdAt',
+      searchFeedback: '[query+bookmarkId], query, bookmarkId',
+      queryExpansions: '[query+mode], createdAt',
+    });
+
+    this.version(11).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+      textTerms: 'term, *trigrams',
+      textPostings: '[term+bookmarkId], term, bookmarkId',
+      textDocuments: 'bookmarkId',
+      searchHistory: 'id, query, createdAt',
+      savedSearches: 'id, createdAt',
+      searchFeedback: '[query+bookmarkId], query, bookmarkId',
+      queryExpansions: '[query+mode], createdAt',
+      queryEmbeddings: 'key, providerId, lastUsedAt',
+    });
+
+    this.version(12).stores({
+      tags: 'id, name, source, usageCount',
+      bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+      bookmarks: 'id, url, title, version, dateAdded, lastModified',
+      content:
+        '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+      relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+      embeddingProviders: 'id, type, createdAt',
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      annIndexes: 'providerId',
+      annNodes: '[providerId+bookmarkId], providerId',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+      textTerms: 'term, *trigrams',
+      textPostings: '[term+bookmarkId], term, bookmarkId',
+      textDocuments: 'bookmarkId',
+      searchHistory: 'id, query, createdAt',
+      savedSearches: 'id, createdAt',
+      searchFeedback: '[query+bookmarkId], query, bookmarkId',
+      queryExpansions: '[query+mode], createdAt',
+      queryEmbeddings: 'key, providerId, lastUsedAt',
+      indexingJobs: 'id, status, createdAt',
+      indexingJobItems: '[jobId+bookmarkId], jobId, [jobId+status]',
+    });
+
+    this.version(STORAGE_CONFIG.DB_VERSION)
+      .stores({
+        tags: 'id, name, source, usageCount',
+        bookmarkTags: '[bookmarkId+tagId], bookmarkId, tagId, assignedBy',
+        bookmarks: 'id, url, title, version, dateAdded, lastModified',
+        content:
+          '[bookmarkId+url], bookmarkId, url, type, contentHash, fetchedAt',
+        relatedPages: 'id, bookmarkId, url, depth, discoveredAt',
+        embeddingProviders: 'id, type, createdAt',
+        embeddings:
+          '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+        annIndexes: 'providerId',
+        annNodes: '[providerId+bookmarkId], providerId',
+        chunkEmbeddings:
+          '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+        embeddingVectors: '[bookmarkId+providerId], bookmarkId, providerId',
+        chunkVectors:
+          '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+        textTerms: 'term, *trigrams',
+        textPostings: '[term+bookmarkId], term, bookmarkId',
+        textDocuments: 'bookmarkId',
+        searchHistory: 'id, query, createdAt',
+        savedSearches: 'id, createdAt',
+        searchFeedback: '[query+bookmarkId], query, bookmarkId',
+        queryExpansions: '[query+mode], createdAt',
+        queryEmbeddings: 'key, providerId, lastUsedAt',
+        indexingJobs: 'id, status, createdAt',
+        indexingJobItems: '[jobId+bookmarkId], jobId, [jobId+status]',
+      })
+      .upgrade(async (tx) => {
+        await moveQuantizedVectors(
+          tx.table<Embedding>('embeddings'),
+          tx.table<EmbeddingVector>('embeddingVectors'),
+          ({ bookmarkId, providerId }, embedding) => ({
+            bookmarkId,
+            providerId,
+            embedding,
+          })
+        );
+        await moveQuantizedVectors(
+          tx.table<ChunkEmbedding>('chunkEmbeddings'),
+          tx.table<ChunkVector>('chunkVectors'),
+          ({ bookmarkId, providerId, url, chunkIndex }, embedding) => ({
+            bookmarkId,
+            providerId,
+            url,
+            chunkIndex,
+            embedding,
+          })
+        );
+      });
   }
 }
 
@@ -0,0 +1,57 @@
+import type { EncodedEmbedding } from '@/utils/quantization';
+
+import { db } from '@/storage/database';
+import { getEmbeddingVector } from '@/utils/quantization';
+
+/** Identifies an embedding row; chunk rows also carry url and chunkIndex. */
+export interface VectorKey {
+  bookmarkId: string;
+  url?: string;
+  chunkIndex?: number;
+}
+
+/**
+ * The most precise vector of each row: its own float vector, or the
+ * full-precision copy of a quantized row. Only the given rows are read, so
+ * callers pass the few matches they rescore rather than whole scans.
+ */
+export async function readFullVectors<T extends EncodedEmbedding>(
+  providerId: string,
+  rows: T[],
+  keyOf: (row: T) => VectorKey
+): Promise<Map<T, Float32Array>> {
+  const vectors = new Map<T, Float32Array>();
+  const documents: [T, [string, string]][] = [];
+  const chunks: [T, [string, string, string, number]][] = [];
+
+  for (const row of rows) {
+    const { bookmarkId, url, chunkIndex } = keyOf(row);
+    if (row.embedding) {
+      vectors.set(row, row.embedding);
+    } else if (url !== undefined && chunkIndex !== undefined) {
+      chunks.push([row, [bookmarkId, providerId, url, chunkIndex]]);
+    } else {
+      documents.push([row, [bookmarkId, providerId]]);
+    }
+  }
+
+  const [documentVectors, chunkVectors] = await Promise.all([
+    documents.length > 0
+      ? db.embeddingVectors.bulkGet(documents.map(([, key]) => key))
+      : [],
+    chunks.length > 0
+      ? db.chunkVectors.bulkGet(chunks.map(([, key]) => key))
+      : [],
+  ]);
+
+  const setVector = (row: T, stored?: { embedding: Float32Array }) => {
+    const vector = stored?.embedding ?? getEmbeddingVector(row);
+    if (vector) {
+      vectors.set(row, vector);
+    }
+  };
+  documents.forEach(([row], i) => setVector(row, documentVectors[i]));
+  chunks.forEach(([row], i) => setVector(row, chunkVectors[i]));
+
+  return vectors;
+}
@@ -2,6 +2,7 @@ export interface Bookmark {
   id: string;
   url: string;
   title: string;
+  /** Bumped whenever the text the bookmark is embedded from changes. */
   version: number;
   hidden: boolean;
   folderPath?: string;
@@ -13,8 +14,9 @@ export interface Bookmark {
   lastModified: Date;
 }
 
+/** Whether a provider's embedding still matches the bookmark's content. */
 export interface EmbeddingStatus {
   providerId: string;
-  version: number;
+  isIndexed: boolean;
   isUpToDate: boolean;
 }
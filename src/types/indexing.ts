@@ -0,0 +1,55 @@
+export type IndexingJobStatus =
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'cancelled';
+
+export type IndexingItemStatus =
+  | 'pending'
+  | 'running'
+  | 'succeeded'
+  | 'skipped'
+  | 'failed';
+
+export interface IndexingJob {
+  id: string;
+  /** The provider whose embeddings the job writes. */
+  providerId: string;
+  status: IndexingJobStatus;
+  total: number;
+  processed: number;
+  succeeded: number;
+  /** Bookmarks whose embedding already matched their content. */
+  skipped: number;
+  failed: number;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  /** Set while paused because the provider appears to be down. */
+  pausedUntil?: Date;
+  lastError?: string;
+}
+
+export interface IndexingJobItem {
+  jobId: string;
+  bookmarkId: string;
+  status: IndexingItemStatus;
+  attempts: number;
+  error?: string;
+  retryable?: boolean;
+  updatedAt: Date;
+}
+
+/** The part of a job broadcast to extension pages while it runs. */
+export type IndexingProgress = Pick<
+  IndexingJob,
+  | 'id'
+  | 'providerId'
+  | 'status'
+  | 'total'
+  | 'processed'
+  | 'succeeded'
+  | 'skipped'
+  | 'failed'
+  | 'lastError'
+>;
@@ -0,0 +1,62 @@
+import type { IndexingProgress } from './indexing';
+
+export enum MessageType {
+  INDEXING_COMPLETED = 'indexing-completed',
+  INDEXING_START = 'indexing-start',
+  INDEXING_CANCEL = 'indexing-cancel',
+  INDEXING_RESUME = 'indexing-resume',
+  INDEXING_RETRY_FAILED = 'indexing-retry-failed',
+  INDEXING_PROGRESS = 'indexing-progress',
+  BOOKMARKS_CHANGED = 'bookmarks-changed',
+}
+
+export interface IndexingCompletedMessage {
+  type: MessageType.INDEXING_COMPLETED;
+}
+
+/**
+ * Queues bookmarks for indexing; all bookmarks when `bookmarkIds` is omitted.
+ * Without `providerId` they are queued for the active provider and every
+ * provider kept up to date. Answered with the ids of the jobs.
+ */
+export interface IndexingStartMessage {
+  type: MessageType.INDEXING_START;
+  bookmarkIds?: string[];
+  providerId?: string;
+}
+
+export interface IndexingCancelMessage {
+  type: MessageType.INDEXING_CANCEL;
+  jobId: string;
+}
+
+export interface IndexingResumeMessage {
+  type: MessageType.INDEXING_RESUME;
+  jobId: string;
+}
+
+/** Queues the failed items of the latest job again. */
+export interface IndexingRetryFailedMessage {
+  type: MessageType.INDEXING_RETRY_FAILED;
+  providerId?: string;
+}
+
+export interface IndexingProgressMessage {
+  type: MessageType.INDEXING_PROGRESS;
+  job: IndexingProgress;
+}
+
+/** Bookmarks whose embedded text changed, for providers set to `autoIndex`. */
+export interface BookmarksChangedMessage {
+  type: MessageType.BOOKMARKS_CHANGED;
+  bookmarkIds: string[];
+}
+
+export type RuntimeMessage =
+  | IndexingCompletedMessage
+  | IndexingStartMessage
+  | IndexingCancelMessage
+  | IndexingResumeMessage
+  | IndexingRetryFailedMessage
+  | IndexingProgressMessage
+  | BookmarksChangedMessage;
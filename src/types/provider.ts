@@ -1,5 +1,12 @@
 export type ProviderType = 'localai' | 'llamacpp' | 'ollama';
 
+/**
+ * How embedding vectors are scanned. `int8` keeps scalar-quantized codes and
+ * `binary` only sign bits; either way the float vector moves to a separate
+ * table that is read to rescore the best matches exactly.
+ */
+export type EmbeddingQuantization = 'none' | 'int8' | 'binary';
+
 export interface EmbeddingProvider {
   id: string;
   name: string;
@@ -9,21 +16,42 @@ export interface EmbeddingProvider {
   documentPrefix?: string;
   documentSuffix?: string;
   maxContextTokens?: number;
+  quantization?: EmbeddingQuantization;
   isActive: boolean;
+  /** Re-index bookmarks with this provider whenever they change. */
+  autoIndex?: boolean;
   createdAt: Date;
   lastUsedAt?: Date;
   lastTestedAt?: Date;
   isConnected: boolean;
 }
 
+export interface CachedQueryEmbedding {
+  /** Provider id, model, prefix, suffix and normalized query. */
+  key: string;
+  providerId: string;
+  embedding: Float32Array;
+  lastUsedAt: Date;
+}
+
 export interface Embedding {
   bookmarkId: string;
   providerId: string;
-  embedding: Float32Array;
+  embedding?: Float32Array;
+  quantization?: EmbeddingQuantization;
+  int8?: Int8Array;
+  int8Scale?: number;
+  binary?: Uint8Array;
   createdAt: Date;
   modelName: string;
   isTruncated?: boolean;
   tokenCount?: number;
+  /** SHA-256 of the exact texts embedded for the bookmark and its passages. */
+  contentHash?: string;
+  /** Hash of the provider settings that shape the vectors. */
+  configFingerprint?: string;
+  /** The bookmark's `version` when its texts were prepared. */
+  bookmarkVersion?: number;
 }
 
 export interface AIProviderSettings {
@@ -51,3 +79,49 @@ export interface ProviderTestResult {
 export interface EmbeddingGenerationResult {
   embedding: number[];
 }
+
+export interface ChunkEmbedding {
+  bookmarkId: string;
+  providerId: string;
+  url: string;
+  chunkIndex: number;
+  text: string;
+  embedding?: Float32Array;
+  quantization?: EmbeddingQuantization;
+  int8?: Int8Array;
+  int8Scale?: number;
+  binary?: Uint8Array;
+  createdAt: Date;
+  modelName: string;
+}
+
+/**
+ * Full-precision vector of a quantized embedding row. Scans never read it;
+ * only the best matches of a scan are rescored against it.
+ */
+export interface EmbeddingVector {
+  bookmarkId: string;
+  providerId: string;
+  embedding: Float32Array;
+}
+
+export interface ChunkVector extends EmbeddingVector {
+  url: string;
+  chunkIndex: number;
+}
+
+export interface AnnIndexMetadata {
+  providerId: string;
+  dimension: number;
+  entryPoint?: string;
+  nodeCount: number;
+  revision: number;
+  updatedAt: Date;
+}
+
+export interface AnnIndexNode {
+  providerId: string;
+  bookmarkId: string;
+  level: number;
+  neighbors: string[][];
+}
@@ -0,0 +1,112 @@
+export type SearchMode = 'semantic' | 'hybrid';
+
+export type SearchStatus = 'crawled' | 'indexed' | 'summarized' | 'described';
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface SearchFilters {
+  tags: string[];
+  excludedTags: string[];
+  sites: string[];
+  excludedSites: string[];
+  folders: string[];
+  dateAdded?: DateRange;
+  lastModified?: DateRange;
+  status: Partial<Record<SearchStatus, boolean>>;
+  hidden: boolean;
+}
+
+/** Time period named in plain words in the query, e.g. "last month". */
+export interface DateHint {
+  phrase: string;
+  from: Date;
+  to: Date;
+}
+
+export interface ParsedQuery {
+  text: string;
+  filters: SearchFilters;
+  hasFilters: boolean;
+  dateHint?: DateHint;
+}
+
+export interface TextIndexTerm {
+  term: string;
+  trigrams: string[];
+  documentCount: number;
+}
+
+export interface TextIndexPosting {
+  term: string;
+  bookmarkId: string;
+  /** Term frequency per indexed field. */
+  fields: Record<string, number>;
+}
+
+export interface TextIndexDocument {
+  bookmarkId: string;
+  terms: string[];
+  indexedAt: Date;
+}
+
+/** Search settings replayed when a saved search or history entry is re-run. */
+export interface SearchReplayOptions {
+  mode?: SearchMode;
+  providerId?: string;
+  aggregate?: boolean;
+  diversify?: boolean;
+  maxPerDomain?: number;
+  rerank?: boolean;
+  queryExpansion?: QueryExpansionMode;
+  recencyWeight?: number;
+}
+
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  filters: SearchFilters;
+  options: SearchReplayOptions;
+  resultIds: string[];
+  createdAt: Date;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  options: SearchReplayOptions;
+  resultIds: string[];
+  /** Bookmarks that started matching since the user last opened it. */
+  newMatchIds: string[];
+  createdAt: Date;
+  lastRunAt?: Date;
+  lastError?: string;
+}
+
+export type FeedbackVote = 'relevant' | 'irrelevant';
+
+export interface SearchFeedback {
+  /** Query text without filters, lowercased and whitespace-collapsed. */
+  query: string;
+  bookmarkId: string;
+  clicks: number;
+  vote?: FeedbackVote;
+  updatedAt: Date;
+}
+
+/**
+ * How a query is rewritten before semantic retrieval: `rewrite` adds
+ * alternative phrasings, `hyde` a hypothetical answer passage.
+ */
+export type QueryExpansionMode = 'off' | 'rewrite' | 'hyde';
+
+export interface QueryExpansion {
+  /** Normalized query text, without filters. */
+  query: string;
+  mode: QueryExpansionMode;
+  expansions: string[];
+  createdAt: Date;
+}
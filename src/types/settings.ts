@@ -22,13 +22,25 @@ export const DEFAULT_CRAWLER_SETTINGS: CrawlerSettings = {
   maxRetries: 3,
 };
 
+export interface IndexingSettings {
+  concurrency: number;
+  maxRetries: number;
+}
+
+export const DEFAULT_INDEXING_SETTINGS: IndexingSettings = {
+  concurrency: 2,
+  maxRetries: 3,
+};
+
 export interface Settings {
   crawler: CrawlerSettings;
+  indexing: IndexingSettings;
   aiProvider: AIProviderSettings;
 }
 
 export const DEFAULT_SETTINGS: Settings = {
   crawler: DEFAULT_CRAWLER_SETTINGS,
+  indexing: DEFAULT_INDEXING_SETTINGS,
   aiProvider: {
     enabled: false,
     type: 'localai',
@@ -0,0 +1,48 @@
+/** Which stored vectors a scoring request scans. */
+export type VectorScoringTarget = 'documents' | 'passages';
+
+export interface ScoredVector {
+  bookmarkId: string;
+  score: number;
+  /** The matching chunk, for `passages` requests. */
+  passage?: {
+    text: string;
+    url: string;
+  };
+}
+
+export interface VectorScoreRequest {
+  type: 'score';
+  requestId: number;
+  target: VectorScoringTarget;
+  providerId: string;
+  query: Float32Array;
+  candidateIds: string[];
+  limit: number;
+  /**
+   * For `documents` requests, answers from the provider's ANN graph when
+   * at least this many of its neighbours are candidates.
+   */
+  minApproximate?: number;
+}
+
+export interface VectorScoreCancel {
+  type: 'cancel';
+  requestId: number;
+}
+
+export type VectorWorkerRequest = VectorScoreRequest | VectorScoreCancel;
+
+export type VectorWorkerResponse =
+  | { type: 'partial'; requestId: number; results: ScoredVector[] }
+  | { type: 'done'; requestId: number; results: ScoredVector[] }
+  | { type: 'error'; requestId: number; message: string };
+
+/**
+ * Broadcast after embeddings are written or deleted so resident copies
+ * held by scoring workers stay in sync with IndexedDB.
+ */
+export type EmbeddingUpdate =
+  | { type: 'upsert'; providerId: string; bookmarkId: string }
+  | { type: 'remove'; bookmarkId: string }
+  | { type: 'invalidate'; providerId: string };
@@ -0,0 +1,62 @@
+import React from 'react';
+
+import type { AskAnswer } from '@/services/AskService';
+
+interface AskAnswerPanelProps {
+  answer: AskAnswer;
+  onOpen: (url: string) => void;
+}
+
+export const AskAnswerPanel: React.FC<AskAnswerPanelProps> = ({
+  answer,
+  onOpen,
+}) => {
+  return (
+    <div className="ask-answer">
+      <p className="ask-answer-text">
+        {answer.segments.map((segment, index) => {
+          if (segment.type === 'text') {
+            return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+          }
+
+          const source = answer.sources[segment.source - 1];
+          return (
+            <button
+              key={index}
+              className="ask-citation"
+              onClick={() => source && onOpen(source.bookmark.url)}
+              title={source?.bookmark.title}
+            >
+              [{segment.source}]
+            </button>
+          );
+        })}
+      </p>
+
+      <h3>Sources</h3>
+      <ol className="ask-sources">
+        {answer.sources.map((source) => (
+          <li
+            key={source.number}
+            className={source.cited ? undefined : 'ask-source-uncited'}
+          >
+            <button
+              className="bookmark-title-btn"
+              onClick={() => onOpen(source.bookmark.url)}
+              title={source.bookmark.title}
+            >
+              {source.bookmark.title}
+            </button>
+            {!source.cited && (
+              <span className="search-history-meta">not cited</span>
+            )}
+            <blockquote className="search-passage">
+              <p>{source.passage}</p>
+              {source.url !== source.bookmark.url && <cite>{source.url}</cite>}
+            </blockquote>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 
 import type { Bookmark } from '@/types/bookmark';
 import type { Content, RelatedPage } from '@/types/content';
@@ -8,6 +9,7 @@ import { AIService } from '@/services/AIService';
 import { BookmarkService } from '@/services/BookmarkService';
 import { EmbeddingProviderService } from '@/services/EmbeddingProviderService';
 import { IndexingService } from '@/services/IndexingService';
+import { SearchHistoryService } from '@/services/SearchHistoryService';
 import { TagService } from '@/services/TagService';
 import { ContentType } from '@/types/content';
 import { TagAssignmentSource, TagSource } from '@/types/tag';
@@ -17,6 +19,7 @@ const tagService = TagService.getInstance();
 const indexingService = IndexingService.getInstance();
 const aiService = AIService.getInstance();
 const providerService = EmbeddingProviderService.getInstance();
+const historyService = SearchHistoryService.getInstance();
 
 interface BookmarkDetailModalProps {
   bookmark: Bookmark;
@@ -54,6 +57,7 @@ export const BookmarkDetailModal: React.FC<BookmarkDetailModalProps> = ({
   const [isIndexed, setIsIndexed] = useState(false);
   const [aiEnabled, setAiEnabled] = useState(false);
   const [hasActiveProvider, setHasActiveProvider] = useState(false);
+  const navigate = useNavigate();
 
   useEffect(() => {
     void loadData();
@@ -181,8 +185,12 @@ export const BookmarkDetailModal: React.FC<BookmarkDetailModalProps> = ({
 
     setIsIndexing(true);
     try {
-      const result = await indexingService.indexBookmark(bookmark.id);
+      // An explicit (re)generate bypasses the unchanged-content check
+      const result = await indexingService.indexBookmark(bookmark.id, {
+        force: true,
+      });
       if (result.success) {
+        void historyService.notifyIndexingCompleted();
         alert(
           `Embedding generated successfully!\nTokens: ${result.tokenCount}${result.isTruncated ? ' (truncated)' : ''}`
         );
@@ -593,6 +601,18 @@ export const BookmarkDetailModal: React.FC<BookmarkDetailModalProps> = ({
                           ? 'Regenerate Embedding'
                           : 'Generate Embedding'}
                     </button>
+                    {isIndexed && (
+                      <button
+                        className="btn btn-secondary btn-small"
+                        onClick={() => {
+                          void navigate(
+                            `/search?similar=${encodeURIComponent(bookmark.id)}`
+                          );
+                        }}
+                      >
+                        Find Similar
+                      </button>
+                    )}
                   </div>
                   {aiEnabled && (
                     <div className="embedding-status-row">
@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react';
 
 import { Modal } from './Modal';
 
-import type { ProviderType } from '@/types/provider';
+import type { EmbeddingQuantization, ProviderType } from '@/types/provider';
 
 import { EmbeddingProviderService } from '@/services/EmbeddingProviderService';
+import { IndexingQueueService } from '@/services/IndexingQueueService';
 
 const providerService = EmbeddingProviderService.getInstance();
+const indexingQueue = IndexingQueueService.getInstance();
 
 interface ProviderFormModalProps {
   isOpen: boolean;
@@ -28,6 +30,9 @@ export const ProviderFormModal: React.FC<ProviderFormModalProps> = ({
   const [documentPrefix, setDocumentPrefix] = useState('');
   const [documentSuffix, setDocumentSuffix] = useState('');
   const [maxContextTokens, setMaxContextTokens] = useState('512');
+  const [quantization, setQuantization] =
+    useState<EmbeddingQuantization>('none');
+  const [autoIndex, setAutoIndex] = useState(false);
   const [testing, setTesting] = useState(false);
   const [testResult, setTestResult] = useState<{
     success: boolean;
@@ -57,6 +62,8 @@ export const ProviderFormModal: React.FC<ProviderFormModalProps> = ({
       setDocumentPrefix(provider.documentPrefix ?? '');
       setDocumentSuffix(provider.documentSuffix ?? '');
       setMaxContextTokens(String(provider.maxContextTokens ?? 512));
+      setQuantization(provider.quantization ?? 'none');
+      setAutoIndex(provider.autoIndex ?? false);
     }
   };
 
@@ -68,6 +75,8 @@ export const ProviderFormModal: React.FC<ProviderFormModalProps> = ({
     setDocumentPrefix('');
     setDocumentSuffix('');
     setMaxContextTokens('512');
+    setQuantization('none');
+    setAutoIndex(false);
     setTesting(false);
     setTestResult(null);
     setSaving(false);
@@ -151,6 +160,8 @@ export const ProviderFormModal: React.FC<ProviderFormModalProps> = ({
           documentPrefix: documentPrefix || undefined,
           documentSuffix: documentSuffix || undefined,
           maxContextTokens: maxTokens,
+          quantization,
+          autoIndex,
         });
       } else {
         await providerService.createProvider({
@@ -162,6 +173,16 @@ export const ProviderFormModal: React.FC<ProviderFormModalProps> = ({
           documentPrefix: documentPrefix || undefined,
           documentSuffix: documentSuffix || undefined,
           maxContextTokens: maxTokens,
+          quantization,
+          autoIndex,
+        });
+        // Backfill embeddings for the new provider in the background
+        indexingQueue.requestIndexing({ providerId }).catch((error) => {
+          alert(
+            error instanceof Error
+              ? error.message
+              : 'Failed to start indexing for the new provider'
+          );
         });
       }
 
@@ -260,6 +281,45 @@ export const ProviderFormModal: React.FC<ProviderFormModalProps> = ({
           </p>
         </div>
 
+        <div className="form-group">
+          <label className="form-label">
+            Vector Storage
+            <select
+              className="form-input"
+              value={quantization}
+              onChange={(e) =>
+                setQuantization(e.target.value as EmbeddingQuantization)
+              }
+            >
+              <option value="none">Full precision (float32)</option>
+              <option value="int8">Int8 scan (4x smaller)</option>
+              <option value="binary">Binary scan (32x smaller, fastest)</option>
+            </select>
+          </label>
+          <p className="form-hint">
+            Quantized scans read compact codes, and only the top matches are
+            rescored exactly against full-precision vectors kept alongside them.
+            Changing this converts existing embeddings.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">
+            <input
+              type="checkbox"
+              checked={autoIndex}
+              onChange={(e) => setAutoIndex(e.target.checked)}
+            />{' '}
+            Keep Up to Date
+          </label>
+          <p className="form-hint">
+            Re-index bookmarks with this provider in the background whenever
+            their title, notes, tags, content or summary change, even while
+            another provider is active. New providers index all bookmarks in the
+            background once saved.
+          </p>
+        </div>
+
         <div className="form-group">
           <label className="form-label">
             Document Prefix (Optional)
@@ -0,0 +1,129 @@
+import React from 'react';
+
+import type {
+  EmbeddedComponent,
+  SearchExplanation,
+} from '@/services/SearchService';
+
+const COMPONENT_LABELS: Record<EmbeddedComponent, string> = {
+  title: 'Title',
+  userDescription: 'Description',
+  tags: 'Tags',
+  aiSummary: 'AI summary',
+};
+
+interface SearchExplanationPanelProps {
+  explanation: SearchExplanation;
+  getProviderName: (providerId: string) => string;
+}
+
+const formatScore = (value: number) =>
+  Math.abs(value) < 1 ? value.toFixed(3) : value.toFixed(2);
+
+const formatScoreLabel = (
+  key: string,
+  getProviderName: (providerId: string) => string
+) =>
+  key.startsWith('provider:')
+    ? getProviderName(key.slice('provider:'.length))
+    : key;
+
+export const SearchExplanationPanel: React.FC<SearchExplanationPanelProps> = ({
+  explanation,
+  getProviderName,
+}) => {
+  const {
+    rawScores,
+    normalizedScores,
+    components,
+    componentProviderId,
+    matchedTerms,
+    filters,
+    boosts,
+  } = explanation;
+
+  return (
+    <details className="search-explanation">
+      <summary>Why this result?</summary>
+
+      {components.length > 0 && (
+        <div className="search-explanation-section">
+          <h4>
+            Embedded components
+            {componentProviderId &&
+              ` (${getProviderName(componentProviderId)})`}
+          </h4>
+          {components.map((contribution) => (
+            <div
+              key={contribution.component}
+              className="search-explanation-bar"
+            >
+              <span>{COMPONENT_LABELS[contribution.component]}</span>
+              <div className="search-explanation-bar-track">
+                <div
+                  className="search-explanation-bar-fill"
+                  style={{ width: `${Math.round(contribution.share * 100)}%` }}
+                />
+              </div>
+              <span>
+                {Math.round(contribution.share * 100)}% · sim{' '}
+                {formatScore(contribution.similarity)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="search-explanation-section">
+        <h4>Matched terms</h4>
+        {matchedTerms.length > 0 ? (
+          <ul>
+            {matchedTerms.map(({ term, fields }) => (
+              <li key={term}>
+                <code>{term}</code> in {fields.join(', ')}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>No query terms appear literally in this bookmark.</p>
+        )}
+      </div>
+
+      <div className="search-explanation-section">
+        <h4>Scores</h4>
+        <table>
+          <tbody>
+            {Object.entries(rawScores).map(([key, value]) => (
+              <tr key={`raw-${key}`}>
+                <td>Raw {formatScoreLabel(key, getProviderName)}</td>
+                <td>{formatScore(value)}</td>
+              </tr>
+            ))}
+            {Object.entries(normalizedScores).map(([key, value]) => (
+              <tr key={`normalized-${key}`}>
+                <td>Normalized {key}</td>
+                <td>{formatScore(value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(filters.length > 0 || boosts.length > 0) && (
+        <div className="search-explanation-section">
+          <h4>Filters and boosts</h4>
+          <ul>
+            {filters.map((filter) => (
+              <li key={filter}>
+                Filter: <code>{filter}</code>
+              </li>
+            ))}
+            {boosts.map((boost) => (
+              <li key={boost}>{boost}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+
+import type { SavedSearch, SearchHistoryEntry } from '@/types/search';
+
+interface SearchHistoryPanelProps {
+  history: SearchHistoryEntry[];
+  savedSearches: SavedSearch[];
+  onRunHistory: (entry: SearchHistoryEntry) => void;
+  onRunSaved: (saved: SavedSearch) => void;
+  onDeleteSaved: (id: string) => void;
+  onClearHistory: () => void;
+}
+
+const HISTORY_PREVIEW_LIMIT = 10;
+
+export const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({
+  history,
+  savedSearches,
+  onRunHistory,
+  onRunSaved,
+  onDeleteSaved,
+  onClearHistory,
+}) => {
+  if (history.length === 0 && savedSearches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="search-history">
+      {savedSearches.length > 0 && (
+        <section>
+          <h3>Saved searches</h3>
+          <ul>
+            {savedSearches.map((saved) => (
+              <li key={saved.id}>
+                <button
+                  className="btn btn-link btn-small"
+                  onClick={() => onRunSaved(saved)}
+                  title={saved.query}
+                >
+                  {saved.name}
+                </button>
+                {saved.newMatchIds.length > 0 && (
+                  <span className="search-new-badge">
+                    {saved.newMatchIds.length} new
+                  </span>
+                )}
+                {saved.lastError && (
+                  <span
+                    className="search-history-error"
+                    title={saved.lastError}
+                  >
+                    Last refresh failed
+                  </span>
+                )}
+                <button
+                  className="btn btn-link btn-small"
+                  onClick={() => onDeleteSaved(saved.id)}
+                  aria-label={`Delete saved search ${saved.name}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {history.length > 0 && (
+        <section>
+          <h3>
+            Recent searches
+            <button className="btn btn-link btn-small" onClick={onClearHistory}>
+              Clear
+            </button>
+          </h3>
+          <ul>
+            {history.slice(0, HISTORY_PREVIEW_LIMIT).map((entry) => (
+              <li key={entry.id}>
+                <button
+                  className="btn btn-link btn-small"
+                  onClick={() => onRunHistory(entry)}
+                >
+                  {entry.query}
+                </button>
+                <span className="search-history-meta">
+                  {entry.resultIds.length} result
+                  {entry.resultIds.length !== 1 ? 's' : ''} ·{' '}
+                  {entry.createdAt.toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 
 import { BookmarkDetailModal } from '../components/BookmarkDetailModal';
 import { BookmarkList } from '../components/BookmarkList';
@@ -6,22 +6,27 @@ import { Layout } from '../components/Layout';
 
 import type { BookmarkStatus } from '@/services/BookmarkStatusService';
 import type { Bookmark } from '@/types/bookmark';
+import type { IndexingProgress } from '@/types/indexing';
+import type { EmbeddingProvider } from '@/types/provider';
 import type { Tag } from '@/types/tag';
 
 import { BookmarkService } from '@/services/BookmarkService';
 import { BookmarkStatusService } from '@/services/BookmarkStatusService';
 import { EmbeddingProviderService } from '@/services/EmbeddingProviderService';
-import { IndexingService } from '@/services/IndexingService';
+import { IndexingQueueService } from '@/services/IndexingQueueService';
 import { TagService } from '@/services/TagService';
 
 const bookmarkService = BookmarkService.getInstance();
 const tagService = TagService.getInstance();
-const indexingService = IndexingService.getInstance();
+const indexingQueue = IndexingQueueService.getInstance();
 const providerService = EmbeddingProviderService.getInstance();
 const statusService = BookmarkStatusService.getInstance();
 
 type VisibilityFilter = 'all' | 'visible' | 'hidden';
 
+const isActiveJob = (job: IndexingProgress) =>
+  job.status === 'running' || job.status === 'paused';
+
 export const BookmarksPage: React.FC = () => {
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
   const [allTags, setAllTags] = useState<Tag[]>([]);
@@ -33,11 +38,14 @@ export const BookmarksPage: React.FC = () => {
   );
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState<string | null>(null);
-  const [isIndexing, setIsIndexing] = useState(false);
-  const [indexingProgress, setIndexingProgress] = useState<{
-    current: number;
-    total: number;
-  } | null>(null);
+  // The latest job of each provider, keyed by provider id
+  const [indexingJobs, setIndexingJobs] = useState<
+    Map<string, IndexingProgress>
+  >(new Map());
+  const [providers, setProviders] = useState<EmbeddingProvider[]>([]);
+  // Jobs started from this page, which alert on completion
+  const startedJobIds = useRef(new Set<string>());
+  const isIndexing = [...indexingJobs.values()].some(isActiveJob);
 
   const [bookmarkStatuses, setBookmarkStatuses] = useState<
     Map<string, BookmarkStatus>
@@ -59,8 +67,44 @@ export const BookmarksPage: React.FC = () => {
   useEffect(() => {
     void loadBookmarks();
     void loadTags();
+    void providerService.getAllProviders().then(setProviders);
+  }, []);
+
+  // Indexing runs in the background, so follow the job across page reloads
+  useEffect(() => {
+    void indexingQueue.getLatestJobs().then((jobs) => {
+      setIndexingJobs(new Map(jobs.map((job) => [job.providerId, job])));
+    });
+
+    return indexingQueue.onProgress((progress) => {
+      setIndexingJobs((jobs) =>
+        new Map(jobs).set(progress.providerId, progress)
+      );
+      if (isActiveJob(progress)) {
+        return;
+      }
+
+      void loadBookmarks();
+      if (
+        startedJobIds.current.delete(progress.id) &&
+        progress.status === 'completed'
+      ) {
+        alert(
+          `Indexing complete!\nIndexed: ${progress.succeeded}, unchanged: ${progress.skipped}, failed: ${progress.failed}`
+        );
+      }
+    });
   }, []);
 
+  const getProviderName = (providerId: string) =>
+    providers.find((p) => p.id === providerId)?.name ?? providerId;
+
+  const visibleJobs = [...indexingJobs.values()]
+    .filter((job) => job.status !== 'cancelled')
+    .sort((a, b) =>
+      getProviderName(a.providerId).localeCompare(getProviderName(b.providerId))
+    );
+
   const loadBookmarks = async () => {
     const allBookmarks = await bookmarkService.getAllBookmarks();
     setBookmarks(allBookmarks);
@@ -112,36 +156,34 @@ export const BookmarksPage: React.FC = () => {
 
     if (
       !confirm(
-        `This will generate embeddings for all ${bookmarks.length} bookmarks. This may take a while. Continue?`
+        `This will check all ${bookmarks.length} bookmarks and generate embeddings for those that are new or changed, with the active provider and any provider kept up to date. This may take a while. Continue?`
       )
     ) {
       return;
     }
 
-    setIsIndexing(true);
-    setIndexingProgress({ current: 0, total: bookmarks.length });
-
     try {
-      await indexingService.indexAllBookmarks((progress) => {
-        setIndexingProgress({
-          current: progress.current,
-          total: progress.total,
-        });
-      });
-
-      alert(
-        `Indexing complete!\nSucceeded: ${indexingProgress?.current ?? 0} / ${indexingProgress?.total ?? 0}`
-      );
+      const jobIds = await indexingQueue.requestIndexing();
+      jobIds.forEach((id) => startedJobIds.current.add(id));
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
       alert(`Indexing failed: ${errorMessage}`);
-    } finally {
-      setIsIndexing(false);
-      setIndexingProgress(null);
     }
   };
 
+  const handleCancelIndexing = (job: IndexingProgress) => {
+    void indexingQueue.requestCancel(job.id);
+  };
+
+  const handleResumeIndexing = (job: IndexingProgress) => {
+    void indexingQueue.requestResume(job.id);
+  };
+
+  const handleRetryFailed = (job: IndexingProgress) => {
+    void indexingQueue.requestRetryFailed(job.providerId);
+  };
+
   const handleBookmarkClick = (bookmark: Bookmark) => {
     setSelectedBookmark(bookmark);
   };
@@ -289,8 +331,9 @@ export const BookmarksPage: React.FC = () => {
         </div>
       )}
 
-      {indexingProgress && (
+      {visibleJobs.map((indexingJob) => (
         <div
+          key={indexingJob.providerId}
           style={{
             padding: '8px 12px',
             background: '#e3f2fd',
@@ -300,10 +343,61 @@ export const BookmarksPage: React.FC = () => {
             color: '#1565c0',
           }}
         >
-          Indexing: {indexingProgress.current} / {indexingProgress.total}{' '}
-          bookmarks
+          {indexingJob.status === 'running' && (
+            <>
+              Indexing with {getProviderName(indexingJob.providerId)}:{' '}
+              {indexingJob.processed} / {indexingJob.total} bookmarks
+              {indexingJob.skipped > 0 && `, ${indexingJob.skipped} unchanged`}
+              {indexingJob.failed > 0 && ` (${indexingJob.failed} failed)`}
+            </>
+          )}
+          {indexingJob.status === 'paused' && (
+            <>
+              Indexing with {getProviderName(indexingJob.providerId)} paused at{' '}
+              {indexingJob.processed} / {indexingJob.total}: the embedding
+              provider appears to be down
+              {indexingJob.lastError && ` (${indexingJob.lastError})`}. It will
+              retry automatically.
+              <button
+                className="btn btn-secondary btn-small"
+                style={{ marginLeft: '8px' }}
+                onClick={() => handleResumeIndexing(indexingJob)}
+              >
+                Resume
+              </button>
+            </>
+          )}
+          {indexingJob.status === 'completed' && (
+            <>
+              Finished indexing with {getProviderName(indexingJob.providerId)}:{' '}
+              {indexingJob.succeeded} indexed, {indexingJob.skipped} unchanged.
+            </>
+          )}
+          {!isActiveJob(indexingJob) && indexingJob.failed > 0 && (
+            <>
+              {' '}
+              {indexingJob.failed} bookmark
+              {indexingJob.failed !== 1 ? 's' : ''} failed to index.
+              <button
+                className="btn btn-secondary btn-small"
+                style={{ marginLeft: '8px' }}
+                onClick={() => handleRetryFailed(indexingJob)}
+              >
+                Retry failed
+              </button>
+            </>
+          )}
+          {isActiveJob(indexingJob) && (
+            <button
+              className="btn btn-secondary btn-small"
+              style={{ marginLeft: '8px' }}
+              onClick={() => handleCancelIndexing(indexingJob)}
+            >
+              Cancel
+            </button>
+          )}
         </div>
-      )}
+      ))}
 
       <div className="search-container">
         <div className="search-input-wrapper">
@@ -1,12 +1,45 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 
+import { AskAnswerPanel } from '../components/AskAnswerPanel';
 import { Layout } from '../components/Layout';
+import { SearchExplanationPanel } from '../components/SearchExplanationPanel';
+import { SearchHistoryPanel } from '../components/SearchHistoryPanel';
 
+import type { AskAnswer } from '@/services/AskService';
 import type { SearchResult } from '@/services/SearchService';
+import type { Bookmark } from '@/types/bookmark';
+import type { EmbeddingProvider } from '@/types/provider';
+import type {
+  FeedbackVote,
+  QueryExpansionMode,
+  SavedSearch,
+  SearchHistoryEntry,
+  SearchMode,
+  SearchReplayOptions,
+} from '@/types/search';
 
+import { AIService } from '@/services/AIService';
+import { AskService } from '@/services/AskService';
+import { BookmarkService } from '@/services/BookmarkService';
+import { EmbeddingProviderService } from '@/services/EmbeddingProviderService';
+import { FeedbackService } from '@/services/FeedbackService';
+import { SearchHistoryService } from '@/services/SearchHistoryService';
 import { SearchService } from '@/services/SearchService';
+import { isAbortError } from '@/utils/abort';
 
 const searchService = SearchService.getInstance();
+const providerService = EmbeddingProviderService.getInstance();
+const bookmarkService = BookmarkService.getInstance();
+const historyService = SearchHistoryService.getInstance();
+const feedbackService = FeedbackService.getInstance();
+const aiService = AIService.getInstance();
+const askService = AskService.getInstance();
+
+const ALL_PROVIDERS = '__all__';
+const LIVE_TEXT_DELAY_MS = 150;
+const LIVE_SEMANTIC_DELAY_MS = 500;
+const MIN_LIVE_QUERY_LENGTH = 2;
 
 export const SearchPage: React.FC = () => {
   const [query, setQuery] = useState('');
@@ -14,31 +47,372 @@ export const SearchPage: React.FC = () => {
   const [searching, setSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
+  const [mode, setMode] = useState<SearchMode>('hybrid');
+  const [providers, setProviders] = useState<EmbeddingProvider[]>([]);
+  const [providerSelection, setProviderSelection] = useState('');
+  const [explain, setExplain] = useState(false);
+  const [diversify, setDiversify] = useState(false);
+  const [maxPerDomain, setMaxPerDomain] = useState(0);
+  const [recencyWeight, setRecencyWeight] = useState(0);
+  const [aiEnabled, setAiEnabled] = useState(false);
+  const [rerank, setRerank] = useState(false);
+  const [queryExpansion, setQueryExpansion] =
+    useState<QueryExpansionMode>('off');
+  const [askMode, setAskMode] = useState(false);
+  const [answer, setAnswer] = useState<AskAnswer | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [similarSource, setSimilarSource] = useState<Bookmark | null>(null);
+  const similarTo = searchParams.get('similar');
+  const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [lastSearch, setLastSearch] = useState<{
+    query: string;
+    options: SearchReplayOptions;
+  } | null>(null);
+  const [newMatchIds, setNewMatchIds] = useState<Set<string>>(new Set());
+  const [votes, setVotes] = useState<Map<string, FeedbackVote>>(new Map());
+  const searchController = useRef<AbortController | null>(null);
+  const liveTimers = useRef<number[]>([]);
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
+  useEffect(() => {
+    void loadProviders();
+    void loadHistory();
+    void aiService.isAIEnabled().then(setAiEnabled);
 
-    if (!query.trim()) {
-      return;
+    return () => {
+      cancelLiveSearch();
+      searchController.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (similarTo) {
+      void handleFindSimilar(similarTo);
+    } else {
+      setSimilarSource(null);
     }
+  }, [similarTo]);
+
+  const loadProviders = async () => {
+    try {
+      setProviders(await providerService.getAllProviders());
+    } catch (err) {
+      console.error('Failed to load providers:', err);
+    }
+  };
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await historyService.getHistory());
+      setSavedSearches(await historyService.getSavedSearches());
+    } catch (err) {
+      console.error('Failed to load search history:', err);
+    }
+  };
+
+  const getProviderName = (providerId: string) =>
+    providers.find((p) => p.id === providerId)?.name ?? providerId;
 
+  const handleFindSimilar = async (bookmarkId: string) => {
+    cancelLiveSearch();
+    const signal = beginSearch();
+    setSearching(true);
+    setError(null);
+    setHasSearched(true);
+
+    try {
+      const source = await bookmarkService.getBookmark(bookmarkId);
+      const similar = await searchService.findSimilar(bookmarkId, {
+        providerId:
+          providerSelection === ALL_PROVIDERS ? undefined : providerSelection,
+        signal,
+      });
+      if (!signal.aborted) {
+        setSimilarSource(source ?? null);
+        setResults(similar);
+      }
+    } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Search failed');
+      setResults([]);
+    } finally {
+      if (!signal.aborted) {
+        setSearching(false);
+      }
+    }
+  };
+
+  const showSimilar = (bookmarkId: string) => {
+    setSearchParams({ similar: bookmarkId });
+  };
+
+  const clearSimilar = () => {
+    setSearchParams({});
+    setResults([]);
+    setHasSearched(false);
+  };
+
+  const getReplayOptions = (): SearchReplayOptions => ({
+    mode,
+    diversify,
+    maxPerDomain,
+    recencyWeight,
+    rerank: aiEnabled && rerank,
+    queryExpansion: aiEnabled ? queryExpansion : 'off',
+    aggregate: providerSelection === ALL_PROVIDERS,
+    providerId:
+      providerSelection === ALL_PROVIDERS ? undefined : providerSelection,
+  });
+
+  const applyReplayOptions = (options: SearchReplayOptions) => {
+    setAskMode(false);
+    setAnswer(null);
+    setMode(options.mode ?? 'hybrid');
+    setDiversify(options.diversify ?? false);
+    setMaxPerDomain(options.maxPerDomain ?? 0);
+    setRecencyWeight(options.recencyWeight ?? 0);
+    setRerank(options.rerank ?? false);
+    setQueryExpansion(options.queryExpansion ?? 'off');
+    setProviderSelection(
+      options.aggregate ? ALL_PROVIDERS : (options.providerId ?? '')
+    );
+  };
+
+  /** Cancels the search in flight so its results cannot overwrite newer ones. */
+  const beginSearch = (): AbortSignal => {
+    searchController.current?.abort();
+    const controller = new AbortController();
+    searchController.current = controller;
+    return controller.signal;
+  };
+
+  const cancelLiveSearch = () => {
+    liveTimers.current.forEach((timer) => clearTimeout(timer));
+    liveTimers.current = [];
+  };
+
+  const runSearch = async (
+    searchQuery: string,
+    options: SearchReplayOptions,
+    record = true
+  ): Promise<boolean> => {
+    if (similarTo) {
+      setSearchParams({});
+    }
+
+    cancelLiveSearch();
+    const signal = beginSearch();
     setSearching(true);
     setError(null);
     setHasSearched(true);
 
     try {
       const searchResults = await searchService.searchWithFallback(
-        query.trim()
+        searchQuery,
+        {
+          ...options,
+          explain,
+          signal,
+          onPartial: (partial) => {
+            if (!signal.aborted) {
+              setResults(partial);
+            }
+          },
+        }
       );
+      if (signal.aborted) {
+        return false;
+      }
+
       setResults(searchResults);
+      setLastSearch({ query: searchQuery, options });
+      setVotes(await feedbackService.getVotes(searchQuery));
+
+      if (record) {
+        await historyService.recordSearch(
+          searchQuery,
+          options,
+          searchResults.map((r) => r.bookmark.id)
+        );
+        await loadHistory();
+      }
+      return true;
     } catch (err) {
+      if (isAbortError(err)) {
+        return false;
+      }
       setError(err instanceof Error ? err.message : 'Search failed');
       setResults([]);
+      return false;
     } finally {
+      if (!signal.aborted) {
+        setSearching(false);
+      }
+    }
+  };
+
+  /** Shows keyword matches right away while the semantic search waits. */
+  const runTextPreview = async (searchQuery: string) => {
+    const signal = beginSearch();
+
+    try {
+      const preview = await searchService.textSearch(searchQuery, { signal });
+      if (!signal.aborted) {
+        setResults(preview);
+        setLastSearch(null);
+        setError(null);
+        setHasSearched(true);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.warn('Text preview failed:', err);
+      }
+    }
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    cancelLiveSearch();
+
+    const trimmed = value.trim();
+    if (askMode || trimmed.length < MIN_LIVE_QUERY_LENGTH) {
+      searchController.current?.abort();
       setSearching(false);
+      return;
+    }
+
+    setNewMatchIds(new Set());
+    liveTimers.current = [
+      window.setTimeout(() => {
+        void runTextPreview(trimmed);
+      }, LIVE_TEXT_DELAY_MS),
+      window.setTimeout(() => {
+        // Chat-model reranking and expansion wait for an explicit submit
+        void runSearch(
+          trimmed,
+          { ...getReplayOptions(), rerank: false, queryExpansion: 'off' },
+          false
+        );
+      }, LIVE_SEMANTIC_DELAY_MS),
+    ];
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!query.trim()) {
+      return;
+    }
+
+    cancelLiveSearch();
+    setNewMatchIds(new Set());
+
+    if (askMode) {
+      await runAsk(query.trim());
+    } else {
+      await runSearch(query.trim(), getReplayOptions());
     }
   };
 
+  const runAsk = async (question: string) => {
+    if (similarTo) {
+      setSearchParams({});
+    }
+
+    const signal = beginSearch();
+    setSearching(true);
+    setError(null);
+    setHasSearched(true);
+    setResults([]);
+    setAnswer(null);
+    setLastSearch(null);
+
+    try {
+      const reply = await askService.ask(question, {
+        aggregate: providerSelection === ALL_PROVIDERS,
+        providerId:
+          providerSelection === ALL_PROVIDERS ? undefined : providerSelection,
+        signal,
+      });
+      if (!signal.aborted) {
+        setAnswer(reply);
+      }
+    } catch (err) {
+      if (isAbortError(err)) {
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Failed to answer');
+    } finally {
+      if (!signal.aborted) {
+        setSearching(false);
+      }
+    }
+  };
+
+  const handleRunHistory = (entry: SearchHistoryEntry) => {
+    setQuery(entry.query);
+    applyReplayOptions(entry.options);
+    setNewMatchIds(new Set());
+    void runSearch(entry.query, entry.options);
+  };
+
+  const handleRunSaved = async (saved: SavedSearch) => {
+    setQuery(saved.query);
+    applyReplayOptions(saved.options);
+    setNewMatchIds(new Set(saved.newMatchIds));
+
+    if (await runSearch(saved.query, saved.options)) {
+      await historyService.markSeen(saved.id);
+      await loadHistory();
+    }
+  };
+
+  const handleSaveSearch = async () => {
+    if (!lastSearch) {
+      return;
+    }
+
+    try {
+      await historyService.saveSearch(
+        lastSearch.query,
+        lastSearch.options,
+        results.map((r) => r.bookmark.id)
+      );
+      await loadHistory();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save search');
+    }
+  };
+
+  const handleDeleteSaved = async (id: string) => {
+    await historyService.deleteSavedSearch(id);
+    await loadHistory();
+  };
+
+  const handleClearHistory = async () => {
+    await historyService.clearHistory();
+    await loadHistory();
+  };
+
+  const handleVote = async (bookmarkId: string, vote: FeedbackVote) => {
+    if (!lastSearch) {
+      return;
+    }
+
+    const next = votes.get(bookmarkId) === vote ? undefined : vote;
+    await feedbackService.setVote(lastSearch.query, bookmarkId, next);
+    setVotes(await feedbackService.getVotes(lastSearch.query));
+  };
+
+  const openResult = (result: SearchResult) => {
+    if (lastSearch && !similarSource) {
+      void feedbackService.recordClick(lastSearch.query, result.bookmark.id);
+    }
+    openBookmark(result.bookmark.url);
+  };
+
   const openBookmark = (url: string) => {
     window.open(url, '_blank');
   };
@@ -55,20 +429,140 @@ export const SearchPage: React.FC = () => {
           <input
             type="text"
             className="form-input"
-            placeholder="Search your bookmarks..."
+            placeholder={
+              askMode
+                ? 'Ask a question about your bookmarks...'
+                : 'Search your bookmarks...'
+            }
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            onChange={(e) => handleQueryChange(e.target.value)}
             autoFocus
             style={{ width: '100%' }}
           />
+          <div className="form-hint">
+            Narrow results with filters like <code>tag:kubernetes</code>{' '}
+            <code>site:github.com</code> <code>folder:Work</code>{' '}
+            <code>after:2024-01</code> <code>before:2024-06-15</code>{' '}
+            <code>is:crawled</code> <code>-is:indexed</code>{' '}
+            <code>is:hidden</code>
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={searching || !query.trim()}
+          >
+            {askMode
+              ? searching
+                ? 'Answering...'
+                : 'Ask'
+              : searching
+                ? 'Searching...'
+                : 'Search'}
+          </button>
+          <select
+            className="depth-select"
+            value={askMode ? 'ask' : mode}
+            onChange={(e) => {
+              if (e.target.value === 'ask') {
+                setAskMode(true);
+              } else {
+                setAskMode(false);
+                setAnswer(null);
+                setMode(e.target.value as SearchMode);
+              }
+            }}
+          >
+            <option value="hybrid">Hybrid (keywords + meaning)</option>
+            <option value="semantic">Semantic only</option>
+            {aiEnabled && <option value="ask">Ask (AI answer)</option>}
+          </select>
+          {providers.length > 1 && (
+            <select
+              className="depth-select"
+              value={providerSelection}
+              onChange={(e) => setProviderSelection(e.target.value)}
+            >
+              <option value="">Active provider</option>
+              {providers.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.name}
+                </option>
+              ))}
+              <option value={ALL_PROVIDERS}>All providers (aggregate)</option>
+            </select>
+          )}
+          {!askMode && (
+            <>
+              <label className="search-toggle">
+                <input
+                  type="checkbox"
+                  checked={diversify}
+                  onChange={(e) => setDiversify(e.target.checked)}
+                />
+                Diversify
+              </label>
+              <select
+                className="depth-select"
+                value={maxPerDomain}
+                onChange={(e) => setMaxPerDomain(Number(e.target.value))}
+                title="Maximum results per site before others are shown"
+              >
+                <option value={0}>Any number per site</option>
+                <option value={1}>1 per site</option>
+                <option value={2}>2 per site</option>
+                <option value={3}>3 per site</option>
+                <option value={5}>5 per site</option>
+              </select>
+              <select
+                className="depth-select"
+                value={recencyWeight}
+                onChange={(e) => setRecencyWeight(Number(e.target.value))}
+                title="Blend similarity with how recently bookmarks were added. Periods named in the query, such as last month, are always favored."
+              >
+                <option value={0}>Ignore age</option>
+                <option value={0.15}>Prefer recent</option>
+                <option value={0.4}>Strongly prefer recent</option>
+              </select>
+              {aiEnabled && (
+                <select
+                  className="depth-select"
+                  value={queryExpansion}
+                  onChange={(e) =>
+                    setQueryExpansion(e.target.value as QueryExpansionMode)
+                  }
+                  title="Let the AI model expand short queries before searching"
+                >
+                  <option value="off">No query expansion</option>
+                  <option value="rewrite">Expand with AI rewrites</option>
+                  <option value="hyde">Expand with AI answer (HyDE)</option>
+                </select>
+              )}
+              {aiEnabled && (
+                <label
+                  className="search-toggle"
+                  title="Let the AI model reorder the top results; falls back to the normal order if it fails"
+                >
+                  <input
+                    type="checkbox"
+                    checked={rerank}
+                    onChange={(e) => setRerank(e.target.checked)}
+                  />
+                  Rerank with AI
+                </label>
+              )}
+              <label className="search-toggle">
+                <input
+                  type="checkbox"
+                  checked={explain}
+                  onChange={(e) => setExplain(e.target.checked)}
+                />
+                Explain ranking
+              </label>
+            </>
+          )}
         </div>
-        <button
-          type="submit"
-          className="btn btn-primary"
-          disabled={searching || !query.trim()}
-        >
-          {searching ? 'Searching...' : 'Search'}
-        </button>
       </form>
 
       {error && (
@@ -77,18 +571,26 @@ export const SearchPage: React.FC = () => {
         </div>
       )}
 
-      {hasSearched && !searching && results.length === 0 && !error && (
-        <div className="empty-state">
-          <svg fill="currentColor" viewBox="0 0 24 24">
-            <path d="M15.5 14h-.79l-.28-.27a6.5 6.5 0 0 0 1.48-5.34c-.47-2.78-2.79-5-5.59-5.34a6.505 6.505 0 0 0-7.27 7.27c.34 2.8 2.56 5.12 5.34 5.59a6.5 6.5 0 0 0 5.34-1.48l.27.28v.79l4.25 4.25c.41.41 1.08.41 1.49 0 .41-.41.41-1.08 0-1.49L15.5 14zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
-          </svg>
-          <p>No results found</p>
-          <p style={{ fontSize: '12px', color: '#999' }}>
-            Try different keywords or check if your bookmarks are indexed
-          </p>
-        </div>
+      {askMode && answer && !searching && (
+        <AskAnswerPanel answer={answer} onOpen={openBookmark} />
       )}
 
+      {!askMode &&
+        hasSearched &&
+        !searching &&
+        results.length === 0 &&
+        !error && (
+          <div className="empty-state">
+            <svg fill="currentColor" viewBox="0 0 24 24">
+              <path d="M15.5 14h-.79l-.28-.27a6.5 6.5 0 0 0 1.48-5.34c-.47-2.78-2.79-5-5.59-5.34a6.505 6.505 0 0 0-7.27 7.27c.34 2.8 2.56 5.12 5.34 5.59a6.5 6.5 0 0 0 5.34-1.48l.27.28v.79l4.25 4.25c.41.41 1.08.41 1.49 0 .41-.41.41-1.08 0-1.49L15.5 14zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
+            </svg>
+            <p>No results found</p>
+            <p style={{ fontSize: '12px', color: '#999' }}>
+              Try different keywords or check if your bookmarks are indexed
+            </p>
+          </div>
+        )}
+
       {results.length > 0 && (
         <div style={{ marginTop: '24px' }}>
           <p
@@ -99,6 +601,34 @@ export const SearchPage: React.FC = () => {
             }}
           >
             Found {results.length} result{results.length !== 1 ? 's' : ''}
+            {!similarSource && lastSearch && (
+              <>
+                {' '}
+                <button
+                  className="btn btn-link btn-small"
+                  onClick={() => {
+                    void handleSaveSearch();
+                  }}
+                  disabled={savedSearches.some(
+                    (saved) => saved.query === lastSearch.query
+                  )}
+                >
+                  Save search
+                </button>
+              </>
+            )}
+            {similarSource && (
+              <>
+                {' '}
+                similar to <strong>{similarSource.title}</strong>{' '}
+                <button
+                  className="btn btn-link btn-small"
+                  onClick={clearSimilar}
+                >
+                  Clear
+                </button>
+              </>
+            )}
           </p>
           <div className="bookmark-list">
             {results.map((result) => (
@@ -107,7 +637,7 @@ export const SearchPage: React.FC = () => {
                   <div className="bookmark-title-section">
                     <button
                       className="bookmark-title-btn"
-                      onClick={() => openBookmark(result.bookmark.url)}
+                      onClick={() => openResult(result)}
                       title={result.bookmark.title}
                     >
                       {result.bookmark.title}
@@ -115,11 +645,100 @@ export const SearchPage: React.FC = () => {
                     <span className="bookmark-score">
                       {Math.round(result.score * 100)}% match
                     </span>
+                    {newMatchIds.has(result.bookmark.id) && (
+                      <span className="search-new-badge">New</span>
+                    )}
+                    <button
+                      className="btn btn-link btn-small"
+                      onClick={() => showSimilar(result.bookmark.id)}
+                    >
+                      More like this
+                    </button>
+                    {!similarSource && lastSearch && (
+                      <span className="search-feedback">
+                        <button
+                          className={`btn btn-link btn-small ${votes.get(result.bookmark.id) === 'relevant' ? 'active' : ''}`}
+                          onClick={() => {
+                            void handleVote(result.bookmark.id, 'relevant');
+                          }}
+                          title="Mark as relevant for this query"
+                          aria-pressed={
+                            votes.get(result.bookmark.id) === 'relevant'
+                          }
+                        >
+                          Relevant
+                        </button>
+                        <button
+                          className={`btn btn-link btn-small ${votes.get(result.bookmark.id) === 'irrelevant' ? 'active' : ''}`}
+                          onClick={() => {
+                            void handleVote(result.bookmark.id, 'irrelevant');
+                          }}
+                          title="Mark as not relevant for this query"
+                          aria-pressed={
+                            votes.get(result.bookmark.id) === 'irrelevant'
+                          }
+                        >
+                          Not relevant
+                        </button>
+                      </span>
+                    )}
                   </div>
                 </div>
 
+                {result.contributingProviders &&
+                  providerSelection === ALL_PROVIDERS && (
+                    <div className="search-signal-scores">
+                      {result.contributingProviders.map((providerId) => (
+                        <span key={providerId}>
+                          {getProviderName(providerId)}{' '}
+                          {Math.round(
+                            (result.scores?.providers?.[providerId] ?? 0) * 100
+                          )}
+                          %
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                {result.scores && mode === 'hybrid' && (
+                  <div className="search-signal-scores">
+                    {result.scores.semantic !== undefined && (
+                      <span>
+                        Semantic {Math.round(result.scores.semantic * 100)}%
+                      </span>
+                    )}
+                    {result.scores.lexical !== undefined && (
+                      <span>
+                        Keyword {Math.round(result.scores.lexical * 100)}%
+                      </span>
+                    )}
+                    {result.scores.matchedTerms &&
+                      result.scores.matchedTerms.length > 0 && (
+                        <span>
+                          Matched: {result.scores.matchedTerms.join(', ')}
+                        </span>
+                      )}
+                  </div>
+                )}
+
                 <div className="bookmark-url">{result.bookmark.url}</div>
 
+                {result.explanation && (
+                  <SearchExplanationPanel
+                    explanation={result.explanation}
+                    getProviderName={getProviderName}
+                  />
+                )}
+
+                {result.passage && (
+                  <blockquote className="search-passage">
+                    <p>{result.passage.text}</p>
+                    {result.passage.url !== result.bookmark.url && (
+                      <cite>{result.passage.url}</cite>
+                    )}
+                  </blockquote>
+                )}
+
                 {result.bookmark.userDescription && (
                   <div className="bookmark-description">
                     {result.bookmark.userDescription}
@@ -137,6 +756,23 @@ export const SearchPage: React.FC = () => {
         </div>
       )}
 
+      {!hasSearched && (
+        <SearchHistoryPanel
+          history={history}
+          savedSearches={savedSearches}
+          onRunHistory={handleRunHistory}
+          onRunSaved={(saved) => {
+            void handleRunSaved(saved);
+          }}
+          onDeleteSaved={(id) => {
+            void handleDeleteSaved(id);
+          }}
+          onClearHistory={() => {
+            void handleClearHistory();
+          }}
+        />
+      )}
+
       {!hasSearched && (
         <div className="empty-state">
           <svg fill="currentColor" viewBox="0 0 24 24">
@@ -9,19 +9,26 @@ import type {
   AIProviderSettings,
   ProviderType,
 } from '@/types/provider';
-import type { CrawlerSettings } from '@/types/settings';
+import type { CrawlerSettings, IndexingSettings } from '@/types/settings';
 
 import { EmbeddingProviderService } from '@/services/EmbeddingProviderService';
+import { FeedbackService } from '@/services/FeedbackService';
+import { IndexingQueueService } from '@/services/IndexingQueueService';
 import { SettingsService } from '@/services/SettingsService';
 
 const settingsService = SettingsService.getInstance();
 const providerService = EmbeddingProviderService.getInstance();
+const feedbackService = FeedbackService.getInstance();
+const indexingQueue = IndexingQueueService.getInstance();
 
 export const SettingsPage: React.FC = () => {
   const [settings, setSettings] = useState<CrawlerSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [indexingSettings, setIndexingSettings] =
+    useState<IndexingSettings | null>(null);
+  const [hasIndexingChanges, setHasIndexingChanges] = useState(false);
 
   const [providers, setProviders] = useState<EmbeddingProvider[]>([]);
   const [activeProvider, setActiveProvider] =
@@ -38,16 +45,41 @@ export const SettingsPage: React.FC = () => {
   const [aiTestingConnection, setAiTestingConnection] = useState(false);
   const [hasAiChanges, setHasAiChanges] = useState(false);
 
+  const [feedbackCount, setFeedbackCount] = useState(0);
+
   useEffect(() => {
     void loadSettings();
     void loadProviders();
     void loadAISettings();
+    void loadFeedbackCount();
   }, []);
 
+  const loadFeedbackCount = async () => {
+    try {
+      setFeedbackCount(await feedbackService.countFeedback());
+    } catch (error) {
+      console.error('Failed to load search feedback:', error);
+    }
+  };
+
+  const handleResetFeedback = async () => {
+    if (
+      !confirm(
+        'Forget all recorded clicks and relevance votes? Search ranking will no longer use them.'
+      )
+    ) {
+      return;
+    }
+
+    await feedbackService.resetFeedback();
+    await loadFeedbackCount();
+  };
+
   const loadSettings = async () => {
     try {
       const crawlerSettings = await settingsService.getCrawlerSettings();
       setSettings(crawlerSettings);
+      setIndexingSettings(await settingsService.getIndexingSettings());
     } catch (error) {
       console.error('Failed to load settings:', error);
     } finally {
@@ -99,6 +131,17 @@ export const SettingsPage: React.FC = () => {
     setHasChanges(true);
   };
 
+  const handleIndexingChange = <K extends keyof IndexingSettings>(
+    key: K,
+    value: IndexingSettings[K]
+  ) => {
+    if (!indexingSettings) {
+      return;
+    }
+    setIndexingSettings({ ...indexingSettings, [key]: value });
+    setHasIndexingChanges(true);
+  };
+
   const handleSave = async () => {
     if (!settings || saving) {
       return;
@@ -107,7 +150,11 @@ export const SettingsPage: React.FC = () => {
     setSaving(true);
     try {
       await settingsService.updateCrawlerSettings(settings);
+      if (indexingSettings) {
+        await settingsService.updateIndexingSettings(indexingSettings);
+      }
       setHasChanges(false);
+      setHasIndexingChanges(false);
     } catch {
       alert('Failed to save settings. Please try again.');
     } finally {
@@ -192,6 +239,24 @@ export const SettingsPage: React.FC = () => {
     }
   };
 
+  const handleIndexProvider = async (providerId: string) => {
+    if (
+      !confirm(
+        `Generate embeddings with ${providerId} for all bookmarks that are new or changed? Indexing runs in the background.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await indexingQueue.requestIndexing({ providerId });
+    } catch (error) {
+      alert(
+        error instanceof Error ? error.message : 'Failed to start indexing'
+      );
+    }
+  };
+
   const handleTestProvider = async (providerId: string) => {
     try {
       const result = await providerService.testProviderConnection(providerId);
@@ -283,7 +348,7 @@ export const SettingsPage: React.FC = () => {
           >
             Reset to Defaults
           </button>
-          {(hasChanges || hasAiChanges) && (
+          {(hasChanges || hasIndexingChanges || hasAiChanges) && (
             <button
               className="btn btn-primary btn-small"
               onClick={() => {
@@ -486,6 +551,67 @@ export const SettingsPage: React.FC = () => {
           </div>
         </Accordion>
 
+        {indexingSettings && (
+          <Accordion
+            title="Indexing"
+            description="Control how many embedding requests run at once and how failures are retried"
+          >
+            <div className="settings-group">
+              <div className="setting-item">
+                <div className="setting-header">
+                  <label className="setting-label-text">
+                    Concurrent requests
+                  </label>
+                  <span className="setting-value">
+                    {indexingSettings.concurrency}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min="1"
+                  max="8"
+                  value={indexingSettings.concurrency}
+                  onChange={(e) =>
+                    handleIndexingChange(
+                      'concurrency',
+                      parseInt(e.target.value)
+                    )
+                  }
+                  className="setting-slider"
+                />
+                <p className="setting-description">
+                  Bookmarks indexed in parallel. Concurrency drops automatically
+                  while the provider is overloaded. Default: 2.
+                </p>
+              </div>
+
+              <div className="setting-item">
+                <div className="setting-header">
+                  <label className="setting-label-text">Maximum retries</label>
+                  <span className="setting-value">
+                    {indexingSettings.maxRetries}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="5"
+                  value={indexingSettings.maxRetries}
+                  onChange={(e) =>
+                    handleIndexingChange('maxRetries', parseInt(e.target.value))
+                  }
+                  className="setting-slider"
+                />
+                <p className="setting-description">
+                  Retries for timeouts, rate limits and server errors, with
+                  exponential backoff. Indexing pauses when several bookmarks in
+                  a row still fail.
+                </p>
+              </div>
+            </div>
+          </Accordion>
+        )}
+
         <Accordion
           title="Embedding Providers (Required)"
           description="Configure embedding providers for semantic search. At least one provider must be active."
@@ -592,11 +718,16 @@ export const SettingsPage: React.FC = () => {
                           {provider.isActive && (
                             <span className="badge">Active</span>
                           )}
+                          {provider.autoIndex && (
+                            <span className="badge">Kept up to date</span>
+                          )}
                         </div>
                         <div className="provider-list-meta">
                           {provider.endpoint} - {provider.modelName}
                           {provider.maxContextTokens &&
                             ` - ${provider.maxContextTokens} tokens`}
+                          {providerStats[provider.id] &&
+                            ` - ${providerStats[provider.id]?.indexed} / ${providerStats[provider.id]?.total} indexed`}
                         </div>
                       </div>
                       <div className="provider-list-actions">
@@ -610,6 +741,14 @@ export const SettingsPage: React.FC = () => {
                             Set Active
                           </button>
                         )}
+                        <button
+                          className="btn btn-link btn-small"
+                          onClick={() => {
+                            void handleIndexProvider(provider.id);
+                          }}
+                        >
+                          Index
+                        </button>
                         <button
                           className="btn btn-link btn-small"
                           onClick={() => handleEditProvider(provider.id)}
@@ -748,6 +887,30 @@ export const SettingsPage: React.FC = () => {
             </div>
           </Accordion>
         )}
+
+        <Accordion
+          title="Search Learning"
+          description="Clicks and relevance votes on search results adjust ranking for similar queries"
+        >
+          <div className="settings-group">
+            <div className="setting-item">
+              <p className="setting-description">
+                {feedbackCount === 0
+                  ? 'No feedback recorded yet.'
+                  : `${feedbackCount} recorded judgement${feedbackCount !== 1 ? 's' : ''} across past searches.`}
+              </p>
+              <button
+                className="btn btn-secondary btn-small"
+                onClick={() => {
+                  void handleResetFeedback();
+                }}
+                disabled={feedbackCount === 0}
+              >
+                Reset Learned Feedback
+              </button>
+            </div>
+          </div>
+        </Accordion>
       </div>
 
       <ProviderFormModal
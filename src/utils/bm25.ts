@@ -0,0 +1,143 @@
+import { tokenize } from './textUtils';
+
+export interface BM25Document {
+  id: string;
+  fields: Record<string, string | undefined>;
+}
+
+export interface BM25Options {
+  k1: number;
+  b: number;
+  fieldWeights: Record<string, number>;
+}
+
+export interface BM25Match {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+interface IndexedDocument {
+  id: string;
+  termFrequencies: Map<string, Map<string, number>>;
+  fieldLengths: Map<string, number>;
+}
+
+/**
+ * BM25F scorer: term frequencies are length-normalized per field and
+ * combined with field weights before the usual BM25 saturation.
+ */
+export class BM25Index {
+  private documents: IndexedDocument[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageFieldLengths = new Map<string, number>();
+
+  constructor(
+    documents: BM25Document[],
+    private options: BM25Options
+  ) {
+    const totalFieldLengths = new Map<string, number>();
+
+    for (const document of documents) {
+      const indexed: IndexedDocument = {
+        id: document.id,
+        termFrequencies: new Map(),
+        fieldLengths: new Map(),
+      };
+      const uniqueTerms = new Set<string>();
+
+      for (const [field, value] of Object.entries(document.fields)) {
+        if (!value || !(field in options.fieldWeights)) {
+          continue;
+        }
+
+        const tokens = tokenize(value);
+        indexed.fieldLengths.set(field, tokens.length);
+        totalFieldLengths.set(
+          field,
+          (totalFieldLengths.get(field) ?? 0) + tokens.length
+        );
+
+        for (const token of tokens) {
+          let fieldFrequencies = indexed.termFrequencies.get(token);
+          if (!fieldFrequencies) {
+            fieldFrequencies = new Map();
+            indexed.termFrequencies.set(token, fieldFrequencies);
+          }
+          fieldFrequencies.set(field, (fieldFrequencies.get(field) ?? 0) + 1);
+          uniqueTerms.add(token);
+        }
+      }
+
+      for (const term of uniqueTerms) {
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) ?? 0) + 1
+        );
+      }
+
+      this.documents.push(indexed);
+    }
+
+    for (const [field, total] of totalFieldLengths) {
+      this.averageFieldLengths.set(field, total / documents.length);
+    }
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(query: string): BM25Match[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const { k1, b, fieldWeights } = this.options;
+    const matches: BM25Match[] = [];
+
+    for (const document of this.documents) {
+      let score = 0;
+      const matchedTerms: string[] = [];
+
+      for (const term of queryTerms) {
+        const fieldFrequencies = document.termFrequencies.get(term);
+        if (!fieldFrequencies) {
+          continue;
+        }
+
+        let weightedFrequency = 0;
+        for (const [field, frequency] of fieldFrequencies) {
+          const fieldLength = document.fieldLengths.get(field) ?? 0;
+          const averageLength = this.averageFieldLengths.get(field) ?? 1;
+          const normalization =
+            1 - b + b * (fieldLength / Math.max(averageLength, 1));
+          weightedFrequency +=
+            ((fieldWeights[field] ?? 0) * frequency) / normalization;
+        }
+
+        score +=
+          this.inverseDocumentFrequency(term) *
+          (weightedFrequency / (k1 + weightedFrequency));
+        matchedTerms.push(term);
+      }
+
+      if (score > 0) {
+        matches.push({ id: document.id, score, matchedTerms });
+      }
+    }
+
+    matches.sort((a, c) => c.score - a.score);
+    return matches;
+  }
+
+  private inverseDocumentFrequency(term: string): number {
+    const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+    return Math.log(
+      1 +
+        (this.documents.length - documentFrequency + 0.5) /
+          (documentFrequency + 0.5)
+    );
+  }
+}
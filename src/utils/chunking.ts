@@ -0,0 +1,92 @@
+import { estimateTokenCount } from './vectorUtils';
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export interface TextChunk {
+  text: string;
+  index: number;
+}
+
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+|\n{2,}/;
+
+/**
+ * Splits text into windows of whole sentences, repeating trailing sentences
+ * of each window at the start of the next so passages keep their context.
+ * Sentences longer than a window are split on word boundaries.
+ */
+export function chunkText(text: string, options: ChunkOptions): TextChunk[] {
+  const { maxTokens, overlapTokens } = options;
+  const sentences = text
+    .split(SENTENCE_BOUNDARY)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((sentence) => splitLongSentence(sentence, maxTokens));
+
+  const chunks: TextChunk[] = [];
+  let window: string[] = [];
+  let windowTokens = 0;
+  let hasNewSentence = false;
+
+  const flush = () => {
+    if (!hasNewSentence) {
+      return;
+    }
+    chunks.push({ text: window.join(' '), index: chunks.length });
+    hasNewSentence = false;
+
+    const overlap: string[] = [];
+    let overlapSize = 0;
+    for (let i = window.length - 1; i > 0; i--) {
+      const tokens = estimateTokenCount(window[i]!);
+      if (overlapSize + tokens > overlapTokens) {
+        break;
+      }
+      overlap.unshift(window[i]!);
+      overlapSize += tokens;
+    }
+    window = overlap;
+    windowTokens = overlapSize;
+  };
+
+  for (const sentence of sentences) {
+    const tokens = estimateTokenCount(sentence);
+    if (windowTokens + tokens > maxTokens) {
+      flush();
+      if (windowTokens + tokens > maxTokens) {
+        window = [];
+        windowTokens = 0;
+      }
+    }
+    window.push(sentence);
+    windowTokens += tokens;
+    hasNewSentence = true;
+  }
+  flush();
+
+  return chunks;
+}
+
+function splitLongSentence(sentence: string, maxTokens: number): string[] {
+  if (estimateTokenCount(sentence) <= maxTokens) {
+    return [sentence];
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const word of sentence.split(' ')) {
+    const next = current ? `${current} ${word}` : word;
+    if (current && estimateTokenCount(next) > maxTokens) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
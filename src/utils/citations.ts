@@ -0,0 +1,55 @@
+export type AnswerSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; source: number };
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Splits a generated answer into text and citation segments. Markers such
+ * as [2] or [1, 3] become one segment per source; numbers outside
+ * 1..sourceCount are dropped so the answer never links to a missing source.
+ */
+export function parseCitations(
+  answer: string,
+  sourceCount: number
+): AnswerSegment[] {
+  const segments: AnswerSegment[] = [];
+  let last = 0;
+
+  const pushText = (text: string) => {
+    if (!text) {
+      return;
+    }
+    const previous = segments[segments.length - 1];
+    if (previous?.type === 'text') {
+      previous.text += text;
+    } else {
+      segments.push({ type: 'text', text });
+    }
+  };
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    pushText(answer.slice(last, match.index));
+    last = match.index + match[0].length;
+
+    for (const value of match[1]!.split(',')) {
+      const source = Number(value.trim());
+      if (source >= 1 && source <= sourceCount) {
+        segments.push({ type: 'citation', source });
+      }
+    }
+  }
+  pushText(answer.slice(last));
+
+  return segments;
+}
+
+export function citedSources(segments: AnswerSegment[]): number[] {
+  return [
+    ...new Set(
+      segments.flatMap((segment) =>
+        segment.type === 'citation' ? [segment.source] : []
+      )
+    ),
+  ].sort((a, b) => a - b);
+}
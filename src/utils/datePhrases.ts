@@ -0,0 +1,198 @@
+import type { DateHint } from '@/types/search';
+
+type DateUnit = 'day' | 'week' | 'month' | 'year';
+
+interface Period {
+  from: Date;
+  to: Date;
+}
+
+interface DatePattern {
+  pattern: RegExp;
+  /** Receives the lowercased match; group 1 is the leading preposition. */
+  resolve: (groups: (string | undefined)[], now: Date) => Period | null;
+}
+
+const PREPOSITION = String.raw`(?:\b(in|during|from|since|over|within)\s+)?(?:\bthe\s+)?`;
+const COUNT = String.raw`(\d{1,3}|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|(?:a\s+)?few|(?:a\s+)?couple(?:\s+of)?)`;
+const UNIT = String.raw`(day|week|month|year)s?`;
+const MONTH = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)`;
+
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const COUNT_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  few: 3,
+  couple: 2,
+};
+
+const datePattern = (
+  body: string,
+  resolve: DatePattern['resolve']
+): DatePattern => ({
+  pattern: new RegExp(`${PREPOSITION}\\b${body}\\b`, 'gi'),
+  resolve,
+});
+
+// Tried in order; the first pattern with a resolvable match wins
+const DATE_PATTERNS: DatePattern[] = [
+  datePattern('today', (_, now) => calendarPeriod(now, 'day', 0)),
+  datePattern('yesterday', (_, now) => calendarPeriod(now, 'day', -1)),
+  datePattern(
+    String.raw`(?:last|past|previous)\s+${COUNT}\s+${UNIT}`,
+    ([, , count, unit], now) =>
+      rollingPeriod(now, parseCount(count!), unit as DateUnit)
+  ),
+  datePattern(String.raw`${COUNT}\s+${UNIT}\s+ago`, ([, , count, unit], now) =>
+    calendarPeriod(now, unit as DateUnit, -parseCount(count!))
+  ),
+  datePattern(
+    String.raw`(this|last|past|previous)\s+${UNIT}`,
+    ([, , which, unit], now) => {
+      if (which === 'this') {
+        return calendarPeriod(now, unit as DateUnit, 0);
+      }
+      return which === 'past'
+        ? rollingPeriod(now, 1, unit as DateUnit)
+        : calendarPeriod(now, unit as DateUnit, -1);
+    }
+  ),
+  datePattern(
+    String.raw`(?:(last)\s+)?${MONTH}(?:\s+(\d{4}))?`,
+    ([, preposition, last, month, year], now) => {
+      // Bare month names are too often ordinary words ("may", "march")
+      if (!preposition && !last && !year) {
+        return null;
+      }
+
+      const index = MONTHS.indexOf(month!.slice(0, 3));
+      const current = now.getMonth();
+      const resolvedYear = year
+        ? Number(year)
+        : index < current || (index === current && !last)
+          ? now.getFullYear()
+          : now.getFullYear() - 1;
+
+      return {
+        from: new Date(resolvedYear, index, 1),
+        to: new Date(resolvedYear, index + 1, 1),
+      };
+    }
+  ),
+  datePattern(String.raw`((?:19|20)\d{2})`, ([, preposition, year]) =>
+    preposition
+      ? {
+          from: new Date(Number(year), 0, 1),
+          to: new Date(Number(year) + 1, 0, 1),
+        }
+      : null
+  ),
+  datePattern('recently', (_, now) => rollingPeriod(now, 1, 'month')),
+];
+
+/**
+ * Finds the first time period named in plain words, such as "last month",
+ * "3 weeks ago" or "in march", with its position in the text. "since
+ * <period>" extends the period up to now.
+ */
+export function findDateHint(
+  text: string,
+  now: Date = new Date()
+): { dateHint: DateHint; index: number; length: number } | null {
+  for (const { pattern, resolve } of DATE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const groups = Array.from(match, (group) => group?.toLowerCase());
+      const period = resolve(groups, now);
+      if (!period) {
+        continue;
+      }
+
+      return {
+        dateHint: {
+          phrase: match[0].trim(),
+          from: period.from,
+          to: groups[1] === 'since' ? now : period.to,
+        },
+        index: match.index ?? 0,
+        length: match[0].length,
+      };
+    }
+  }
+
+  return null;
+}
+
+function parseCount(value: string): number {
+  const word = value.replace(/^a\s+/, '').replace(/\s+of$/, '');
+  return /^\d+$/.test(word) ? Number(word) : (COUNT_WORDS[word] ?? 1);
+}
+
+/** The calendar day, week (from Monday), month or year `offset` units away. */
+function calendarPeriod(now: Date, unit: DateUnit, offset: number): Period {
+  const from = shiftDate(startOf(now, unit), offset, unit);
+  return { from, to: shiftDate(from, 1, unit) };
+}
+
+function rollingPeriod(now: Date, count: number, unit: DateUnit): Period {
+  return { from: shiftDate(now, -count, unit), to: now };
+}
+
+function startOf(date: Date, unit: DateUnit): Date {
+  if (unit === 'year') {
+    return new Date(date.getFullYear(), 0, 1);
+  }
+  if (unit === 'month') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (unit === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+}
+
+function shiftDate(date: Date, amount: number, unit: DateUnit): Date {
+  const shifted = new Date(date);
+  switch (unit) {
+    case 'day':
+      shifted.setDate(shifted.getDate() + amount);
+      break;
+    case 'week':
+      shifted.setDate(shifted.getDate() + amount * 7);
+      break;
+    case 'month':
+      shifted.setMonth(shifted.getMonth() + amount);
+      break;
+    case 'year':
+      shifted.setFullYear(shifted.getFullYear() + amount);
+      break;
+  }
+  return shifted;
+}
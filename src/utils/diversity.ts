@@ -0,0 +1,84 @@
+import { cosineSimilarity } from './vectorUtils';
+
+export interface MmrCandidate {
+  id: string;
+  score: number;
+  vector?: Float32Array;
+}
+
+function similarity(a: MmrCandidate, b: MmrCandidate): number {
+  if (!a.vector || !b.vector || a.vector.length !== b.vector.length) {
+    return 0;
+  }
+  return cosineSimilarity(a.vector, b.vector);
+}
+
+/**
+ * Greedy maximal marginal relevance: each pick maximizes
+ * `lambda * relevance - (1 - lambda) * max similarity to earlier picks`.
+ * Candidates without a vector are treated as unrelated to everything.
+ */
+export function maximalMarginalRelevance(
+  candidates: MmrCandidate[],
+  lambda: number,
+  k = candidates.length
+): string[] {
+  const remaining = [...candidates];
+  const redundancy = new Map<string, number>();
+  const selected: string[] = [];
+
+  while (selected.length < k && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const value =
+        lambda * candidate.score -
+        (1 - lambda) * (redundancy.get(candidate.id) ?? 0);
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    const [chosen] = remaining.splice(bestIndex, 1);
+    selected.push(chosen!.id);
+
+    for (const candidate of remaining) {
+      const sim = similarity(candidate, chosen!);
+      const current = redundancy.get(candidate.id);
+      if (current === undefined || sim > current) {
+        redundancy.set(candidate.id, sim);
+      }
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Keeps at most `max` items per group in their original order and moves
+ * the overflow behind them, so results are demoted rather than lost.
+ */
+export function capPerGroup<T>(
+  items: T[],
+  groupOf: (item: T) => string,
+  max: number
+): T[] {
+  const counts = new Map<string, number>();
+  const kept: T[] = [];
+  const overflow: T[] = [];
+
+  for (const item of items) {
+    const group = groupOf(item);
+    const count = counts.get(group) ?? 0;
+    if (count < max) {
+      kept.push(item);
+      counts.set(group, count + 1);
+    } else {
+      overflow.push(item);
+    }
+  }
+
+  return [...kept, ...overflow];
+}
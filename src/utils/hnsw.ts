@@ -0,0 +1,374 @@
+import { normalizeVector } from './vectorUtils';
+
+export interface HnswOptions {
+  m: number;
+  efConstruction: number;
+  random?: () => number;
+}
+
+export interface HnswNodeRecord {
+  id: string;
+  level: number;
+  neighbors: string[][];
+}
+
+export interface HnswSearchResult {
+  id: string;
+  score: number;
+}
+
+interface HnswNode extends HnswNodeRecord {
+  vector: Float32Array;
+}
+
+interface Candidate {
+  id: string;
+  score: number;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+}
+
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid]!.score > candidate.score) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, candidate);
+}
+
+/**
+ * Hierarchical navigable small world graph over cosine similarity.
+ * Vectors are normalized on insert so similarity is a plain dot product.
+ */
+export class HnswIndex {
+  private nodes = new Map<string, HnswNode>();
+  private entryPointId: string | undefined;
+  private topLevel = -1;
+  private readonly levelMultiplier: number;
+  private readonly random: () => number;
+
+  constructor(private options: HnswOptions) {
+    this.levelMultiplier = 1 / Math.log(options.m);
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Restores a persisted graph. Vectors already of unit length can be
+   * marked `normalized` to share them instead of copying each one.
+   */
+  static fromRecords(
+    options: HnswOptions,
+    records: HnswNodeRecord[],
+    vectors: Map<string, Float32Array>,
+    entryPoint: string | undefined,
+    normalized = false
+  ): HnswIndex {
+    const index = new HnswIndex(options);
+
+    for (const record of records) {
+      const vector = vectors.get(record.id);
+      if (!vector) {
+        continue;
+      }
+      index.nodes.set(record.id, {
+        ...record,
+        neighbors: record.neighbors.map((level) => [...level]),
+        vector: normalized ? vector : normalizeVector(vector),
+      });
+    }
+
+    for (const node of index.nodes.values()) {
+      node.neighbors = node.neighbors.map((level) =>
+        level.filter((id) => index.nodes.has(id))
+      );
+    }
+
+    if (entryPoint && index.nodes.has(entryPoint)) {
+      index.entryPointId = entryPoint;
+      index.topLevel = index.nodes.get(entryPoint)!.level;
+    } else {
+      index.electEntryPoint();
+    }
+
+    return index;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  get entryPoint(): string | undefined {
+    return this.entryPointId;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  getRecord(id: string): HnswNodeRecord | undefined {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return undefined;
+    }
+    return { id: node.id, level: node.level, neighbors: node.neighbors };
+  }
+
+  /**
+   * Inserts or replaces a vector and returns the ids of every node whose
+   * adjacency changed, so callers can persist only what was touched.
+   */
+  insert(id: string, vector: Float32Array): string[] {
+    const changed = new Set<string>();
+    if (this.nodes.has(id)) {
+      this.remove(id).forEach((changedId) => changed.add(changedId));
+    }
+
+    const level = Math.floor(
+      -Math.log(Math.max(this.random(), Number.EPSILON)) * this.levelMultiplier
+    );
+    const node: HnswNode = {
+      id,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      vector: normalizeVector(vector),
+    };
+    this.nodes.set(id, node);
+    changed.add(id);
+
+    if (this.entryPointId === undefined) {
+      this.entryPointId = id;
+      this.topLevel = level;
+      return [...changed];
+    }
+
+    let entry: Candidate = {
+      id: this.entryPointId,
+      score: dot(node.vector, this.nodes.get(this.entryPointId)!.vector),
+    };
+
+    for (let l = this.topLevel; l > level; l--) {
+      entry = this.searchLayer(node.vector, [entry], 1, l)[0] ?? entry;
+    }
+
+    let entries = [entry];
+    for (let l = Math.min(level, this.topLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(
+        node.vector,
+        entries,
+        this.options.efConstruction,
+        l
+      ).filter((c) => c.id !== id);
+
+      node.neighbors[l] = this.selectNeighbors(
+        candidates,
+        this.maxConnections(l)
+      );
+
+      for (const neighborId of node.neighbors[l]!) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[l]!.push(id);
+        if (neighbor.neighbors[l]!.length > this.maxConnections(l)) {
+          neighbor.neighbors[l] = this.selectNeighbors(
+            this.scoreAgainst(neighbor.vector, neighbor.neighbors[l]!),
+            this.maxConnections(l)
+          );
+        }
+        changed.add(neighborId);
+      }
+
+      entries = candidates.length > 0 ? candidates : entries;
+    }
+
+    if (level > this.topLevel) {
+      this.entryPointId = id;
+      this.topLevel = level;
+    }
+
+    return [...changed];
+  }
+
+  /**
+   * Removes a vector, reconnecting former neighbors through the removed
+   * node's adjacency. Returns the ids of nodes whose adjacency changed.
+   */
+  remove(id: string): string[] {
+    const removed = this.nodes.get(id);
+    if (!removed) {
+      return [];
+    }
+
+    this.nodes.delete(id);
+    const changed = new Set<string>();
+
+    for (const node of this.nodes.values()) {
+      for (let l = 0; l < node.neighbors.length; l++) {
+        const neighbors = node.neighbors[l]!;
+        if (!neighbors.includes(id)) {
+          continue;
+        }
+
+        const pool = new Set(
+          [...neighbors, ...(removed.neighbors[l] ?? [])].filter(
+            (candidateId) =>
+              candidateId !== id &&
+              candidateId !== node.id &&
+              this.nodes.has(candidateId)
+          )
+        );
+        node.neighbors[l] = this.selectNeighbors(
+          this.scoreAgainst(node.vector, [...pool]),
+          this.maxConnections(l)
+        );
+        changed.add(node.id);
+      }
+    }
+
+    if (this.entryPointId === id) {
+      this.electEntryPoint();
+    }
+
+    return [...changed];
+  }
+
+  search(query: Float32Array, k: number, ef = k): HnswSearchResult[] {
+    if (this.entryPointId === undefined) {
+      return [];
+    }
+
+    const normalizedQuery = normalizeVector(query);
+    let entry: Candidate = {
+      id: this.entryPointId,
+      score: dot(normalizedQuery, this.nodes.get(this.entryPointId)!.vector),
+    };
+
+    for (let l = this.topLevel; l > 0; l--) {
+      entry = this.searchLayer(normalizedQuery, [entry], 1, l)[0] ?? entry;
+    }
+
+    return this.searchLayer(normalizedQuery, [entry], Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(({ id, score }) => ({ id, score }));
+  }
+
+  private searchLayer(
+    query: Float32Array,
+    entries: Candidate[],
+    ef: number,
+    level: number
+  ): Candidate[] {
+    const visited = new Set(entries.map((e) => e.id));
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const entry of entries) {
+      insertSorted(candidates, entry);
+      insertSorted(results, entry);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      const worst = results[results.length - 1];
+      if (worst && current.score < worst.score && results.length >= ef) {
+        break;
+      }
+
+      const neighbors = this.nodes.get(current.id)?.neighbors[level] ?? [];
+      for (const neighborId of neighbors) {
+        if (visited.has(neighborId)) {
+          continue;
+        }
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) {
+          continue;
+        }
+
+        const score = dot(query, neighbor.vector);
+        const currentWorst = results[results.length - 1];
+        if (
+          results.length < ef ||
+          !currentWorst ||
+          score > currentWorst.score
+        ) {
+          const candidate = { id: neighborId, score };
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private selectNeighbors(candidates: Candidate[], max: number): string[] {
+    const sorted = [...candidates].sort((a, b) => b.score - a.score);
+    const selected: HnswNode[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= max) {
+        break;
+      }
+      const node = this.nodes.get(candidate.id);
+      if (!node) {
+        continue;
+      }
+      const isDiverse = selected.every(
+        (existing) => dot(existing.vector, node.vector) < candidate.score
+      );
+      if (isDiverse) {
+        selected.push(node);
+      } else {
+        pruned.push(candidate);
+      }
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= max) {
+        break;
+      }
+      selected.push(this.nodes.get(candidate.id)!);
+    }
+
+    return selected.map((node) => node.id);
+  }
+
+  private scoreAgainst(vector: Float32Array, ids: string[]): Candidate[] {
+    return ids.flatMap((id) => {
+      const node = this.nodes.get(id);
+      return node ? [{ id, score: dot(vector, node.vector) }] : [];
+    });
+  }
+
+  private maxConnections(level: number): number {
+    return level === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private electEntryPoint(): void {
+    this.entryPointId = undefined;
+    this.topLevel = -1;
+    for (const node of this.nodes.values()) {
+      if (node.level > this.topLevel) {
+        this.entryPointId = node.id;
+        this.topLevel = node.level;
+      }
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Map-backed least-recently-used cache. Map iteration follows insertion
+ * order, so reads re-insert the entry and eviction drops the first key.
+ */
+export class LruCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private capacity: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.capacity) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  deleteWhere(predicate: (key: K, value: V) => boolean): void {
+    for (const [key, value] of this.entries) {
+      if (predicate(key, value)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,38 @@
+import { getDomain } from './urlUtils';
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+export function escapeOmniboxXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => XML_ENTITIES[char] ?? char);
+}
+
+/**
+ * Describes a bookmark as "title - domain". Chrome parses descriptions as
+ * XML and styles markup; Firefox shows them as plain text.
+ */
+export function formatOmniboxSuggestion(
+  title: string,
+  url: string,
+  markup: boolean
+): string {
+  const label = title.trim() || url;
+  const domain = getDomain(url);
+
+  return markup
+    ? `${escapeOmniboxXml(label)} <dim>- ${escapeOmniboxXml(domain)}</dim>`
+    : `${label} - ${domain}`;
+}
+
+/**
+ * Accepted suggestions arrive as their bookmark URL; anything else is a
+ * query the user entered without picking a suggestion.
+ */
+export function isOmniboxUrl(text: string): boolean {
+  return /^[a-z][a-z\d+.-]*:\/\/\S+$/i.test(text.trim());
+}
@@ -0,0 +1,161 @@
+import { cosineSimilarity } from './vectorUtils';
+
+import type { Embedding, EmbeddingQuantization } from '@/types/provider';
+
+export type EncodedEmbedding = Pick<
+  Embedding,
+  'embedding' | 'quantization' | 'int8' | 'int8Scale' | 'binary'
+>;
+
+export interface QuantizedQuery {
+  vector: Float32Array;
+  int8: Int8Array;
+  binary: Uint8Array;
+}
+
+export const ENCODED_EMBEDDING_FIELDS: (keyof EncodedEmbedding)[] = [
+  'embedding',
+  'quantization',
+  'int8',
+  'int8Scale',
+  'binary',
+];
+
+const POPCOUNT = Uint8Array.from({ length: 256 }, (_, byte) => {
+  let count = 0;
+  for (let bits = byte; bits > 0; bits >>= 1) {
+    count += bits & 1;
+  }
+  return count;
+});
+
+export function quantizeInt8(vector: Float32Array): {
+  codes: Int8Array;
+  scale: number;
+} {
+  let maxAbs = 0;
+  for (let i = 0; i < vector.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(vector[i]!));
+  }
+
+  const scale = maxAbs === 0 ? 1 : maxAbs / 127;
+  const codes = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    codes[i] = Math.round(vector[i]! / scale);
+  }
+
+  return { codes, scale };
+}
+
+export function dequantizeInt8(codes: Int8Array, scale: number): Float32Array {
+  const vector = new Float32Array(codes.length);
+  for (let i = 0; i < codes.length; i++) {
+    vector[i] = codes[i]! * scale;
+  }
+  return vector;
+}
+
+export function binarize(vector: Float32Array): Uint8Array {
+  const bits = new Uint8Array(Math.ceil(vector.length / 8));
+  for (let i = 0; i < vector.length; i++) {
+    if (vector[i]! > 0) {
+      bits[i >> 3]! |= 1 << (i & 7);
+    }
+  }
+  return bits;
+}
+
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += POPCOUNT[a[i]! ^ b[i]!]!;
+  }
+  return distance;
+}
+
+/**
+ * The fields stored on an embedding row. Quantized rows drop the float
+ * vector, which callers keep in the full-precision vector tables.
+ */
+export function encodeEmbedding(
+  vector: Float32Array,
+  quantization: EmbeddingQuantization
+): EncodedEmbedding {
+  switch (quantization) {
+    case 'none':
+      return { embedding: vector, quantization };
+    case 'int8': {
+      const { codes, scale } = quantizeInt8(vector);
+      return { quantization, int8: codes, int8Scale: scale };
+    }
+    case 'binary':
+      return { quantization, binary: binarize(vector) };
+  }
+}
+
+/**
+ * Returns the vector an embedding row carries itself: its float vector, or
+ * its decoded int8 codes. Binary rows carry none.
+ */
+export function getEmbeddingVector(
+  embedding: EncodedEmbedding
+): Float32Array | undefined {
+  if (embedding.embedding) {
+    return embedding.embedding;
+  }
+  if (embedding.int8 && embedding.int8Scale !== undefined) {
+    return dequantizeInt8(embedding.int8, embedding.int8Scale);
+  }
+  return undefined;
+}
+
+export function createQuantizedQuery(vector: Float32Array): QuantizedQuery {
+  return {
+    vector,
+    int8: quantizeInt8(vector).codes,
+    binary: binarize(vector),
+  };
+}
+
+/**
+ * Cheap similarity estimate against the most compact representation of a
+ * row: Hamming distance on sign bits, then integer dot product on int8
+ * codes, then exact cosine for unquantized rows.
+ */
+export function approximateSimilarity(
+  query: QuantizedQuery,
+  embedding: EncodedEmbedding
+): number {
+  if (embedding.binary) {
+    const distance = hammingDistance(query.binary, embedding.binary);
+    return Math.cos((Math.PI * distance) / query.vector.length);
+  }
+
+  if (embedding.int8) {
+    return int8Cosine(query.int8, embedding.int8);
+  }
+
+  if (embedding.embedding) {
+    return cosineSimilarity(query.vector, embedding.embedding);
+  }
+
+  return 0;
+}
+
+function int8Cosine(a: Int8Array, b: Int8Array): number {
+  if (a.length !== b.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude === 0 ? 0 : dotProduct / magnitude;
+}
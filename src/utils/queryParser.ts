@@ -0,0 +1,312 @@
+import { findDateHint } from './datePhrases';
+
+import type {
+  DateHint,
+  DateRange,
+  ParsedQuery,
+  SearchFilters,
+  SearchStatus,
+} from '@/types/search';
+
+const QUERY_TOKEN = /(-?)([a-z][a-z-]*):("[^"]*"|\S+)|"([^"]*)"|(\S+)/gi;
+const DATE_PERIOD = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+const LITERAL_TOKEN = /"[^"]*"|\S+:(?:"[^"]*"|\S+)/g;
+
+type DateBound = 'after' | 'before' | 'within';
+
+const DATE_OPERATORS: Record<
+  string,
+  { field: 'dateAdded' | 'lastModified'; bound: DateBound }
+> = {
+  after: { field: 'dateAdded', bound: 'after' },
+  before: { field: 'dateAdded', bound: 'before' },
+  added: { field: 'dateAdded', bound: 'within' },
+  'modified-after': { field: 'lastModified', bound: 'after' },
+  'modified-before': { field: 'lastModified', bound: 'before' },
+  modified: { field: 'lastModified', bound: 'within' },
+};
+
+const STATUS_ALIASES: Record<string, SearchStatus | 'hidden'> = {
+  crawled: 'crawled',
+  content: 'crawled',
+  indexed: 'indexed',
+  embedded: 'indexed',
+  summarized: 'summarized',
+  summary: 'summarized',
+  described: 'described',
+  description: 'described',
+  hidden: 'hidden',
+};
+
+export function createEmptyFilters(): SearchFilters {
+  return {
+    tags: [],
+    excludedTags: [],
+    sites: [],
+    excludedSites: [],
+    folders: [],
+    status: {},
+    hidden: false,
+  };
+}
+
+/**
+ * Splits a query into free text and operator filters. A time period named
+ * in plain words becomes a date hint for recency ranking, or an `added:`
+ * filter when it is all the query contains.
+ */
+export function parseSearchQuery(
+  query: string,
+  now: Date = new Date()
+): ParsedQuery {
+  const filters = createEmptyFilters();
+  const textParts: string[] = [];
+  let hasFilters = false;
+
+  // Phrases and operator values are literal, so hide them from date matching
+  const found = findDateHint(
+    query.replace(LITERAL_TOKEN, (token) => ' '.repeat(token.length)),
+    now
+  );
+  const dateHint: DateHint | undefined = found?.dateHint;
+  const remaining = found
+    ? `${query.slice(0, found.index)} ${query.slice(found.index + found.length)}`
+    : query;
+
+  for (const match of remaining.matchAll(QUERY_TOKEN)) {
+    const [token, negation, operator, rawValue, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) {
+        textParts.push(phrase.trim());
+      }
+      continue;
+    }
+
+    if (word !== undefined || !operator || rawValue === undefined) {
+      textParts.push(token);
+      continue;
+    }
+
+    const value = unquote(rawValue);
+    const applied = applyOperator(
+      filters,
+      operator.toLowerCase(),
+      value,
+      negation === '-'
+    );
+
+    if (applied) {
+      hasFilters = true;
+    } else {
+      textParts.push(token);
+    }
+  }
+
+  const text = textParts.join(' ').trim();
+
+  if (dateHint && !text) {
+    filters.dateAdded = { from: dateHint.from, to: dateHint.to };
+    return { text, filters, hasFilters: true };
+  }
+
+  return {
+    text,
+    filters,
+    hasFilters,
+    ...(dateHint && { dateHint }),
+  };
+}
+
+function applyOperator(
+  filters: SearchFilters,
+  operator: string,
+  value: string,
+  negated: boolean
+): boolean {
+  if (!value) {
+    return false;
+  }
+
+  const dateOperator = DATE_OPERATORS[operator];
+  if (dateOperator) {
+    return (
+      !negated &&
+      applyDate(filters, dateOperator.field, dateOperator.bound, value)
+    );
+  }
+
+  switch (operator) {
+    case 'tag':
+      (negated ? filters.excludedTags : filters.tags).push(value.toLowerCase());
+      return true;
+    case 'site':
+    case 'domain':
+      (negated ? filters.excludedSites : filters.sites).push(
+        normalizeSite(value)
+      );
+      return true;
+    case 'folder':
+      if (negated) {
+        return false;
+      }
+      filters.folders.push(value.replace(/^\/+|\/+$/g, '').toLowerCase());
+      return true;
+    case 'is':
+    case 'has':
+      return applyStatus(filters, value.toLowerCase(), !negated);
+    default:
+      return false;
+  }
+}
+
+function applyStatus(
+  filters: SearchFilters,
+  value: string,
+  expected: boolean
+): boolean {
+  const status = STATUS_ALIASES[value];
+  if (!status) {
+    return false;
+  }
+
+  if (status === 'hidden') {
+    filters.hidden = expected;
+  } else {
+    filters.status[status] = expected;
+  }
+  return true;
+}
+
+function applyDate(
+  filters: SearchFilters,
+  field: 'dateAdded' | 'lastModified',
+  bound: DateBound,
+  value: string
+): boolean {
+  const period = parseDatePeriod(value);
+  if (!period) {
+    return false;
+  }
+
+  const range: DateRange = filters[field] ?? {};
+
+  if (bound === 'after') {
+    range.from = period.start;
+  } else if (bound === 'before') {
+    range.to = period.start;
+  } else {
+    range.from = period.start;
+    range.to = period.end;
+  }
+
+  filters[field] = range;
+  return true;
+}
+
+export function parseDatePeriod(
+  value: string
+): { start: Date; end: Date } | null {
+  const match = DATE_PERIOD.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  if (month !== undefined && (month < 0 || month > 11)) {
+    return null;
+  }
+
+  if (month === undefined) {
+    return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+  }
+
+  if (day === undefined) {
+    return {
+      start: new Date(year, month, 1),
+      end: new Date(year, month + 1, 1),
+    };
+  }
+
+  const start = new Date(year, month, day);
+  if (start.getMonth() !== month) {
+    return null;
+  }
+
+  return { start, end: new Date(year, month, day + 1) };
+}
+
+/**
+ * Renders parsed filters back into query syntax, e.g. for showing which
+ * pre-filters shaped a result set.
+ */
+export function describeFilters(filters: SearchFilters): string[] {
+  const descriptions = [
+    ...filters.tags.map((tag) => `tag:${tag}`),
+    ...filters.excludedTags.map((tag) => `-tag:${tag}`),
+    ...filters.sites.map((site) => `site:${site}`),
+    ...filters.excludedSites.map((site) => `-site:${site}`),
+    ...filters.folders.map((folder) => `folder:${folder}`),
+    ...Object.entries(filters.status).map(
+      ([status, expected]) => `${expected ? '' : '-'}is:${status}`
+    ),
+  ];
+
+  if (filters.dateAdded) {
+    descriptions.push(describeRange('added', filters.dateAdded));
+  }
+  if (filters.lastModified) {
+    descriptions.push(describeRange('modified', filters.lastModified));
+  }
+  if (filters.hidden) {
+    descriptions.push('is:hidden');
+  }
+
+  return descriptions;
+}
+
+function describeRange(label: string, range: DateRange): string {
+  const format = (date: Date) => date.toLocaleDateString();
+  if (range.from && range.to) {
+    return `${label} ${format(range.from)} – ${format(range.to)}`;
+  }
+  return range.from
+    ? `${label} after ${format(range.from)}`
+    : `${label} before ${format(range.to!)}`;
+}
+
+export function isWithinRange(date: Date, range: DateRange): boolean {
+  const time = new Date(date).getTime();
+  if (range.from && time < range.from.getTime()) {
+    return false;
+  }
+  if (range.to && time >= range.to.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+export function normalizeSite(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/.*$/, '');
+}
+
+export function matchesSite(url: string, site: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return false;
+  }
+  return hostname === site || hostname.endsWith(`.${site}`);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, '').trim();
+}
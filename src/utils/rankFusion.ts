@@ -0,0 +1,26 @@
+export interface RankedList {
+  ids: string[];
+  weight: number;
+}
+
+export function reciprocalRankFusion(
+  rankings: RankedList[],
+  k: number
+): Map<string, number> {
+  const fused = new Map<string, number>();
+
+  for (const { ids, weight } of rankings) {
+    ids.forEach((id, index) => {
+      fused.set(id, (fused.get(id) ?? 0) + weight / (k + index + 1));
+    });
+  }
+
+  return fused;
+}
+
+export function maxReciprocalRankScore(
+  rankings: RankedList[],
+  k: number
+): number {
+  return rankings.reduce((sum, { weight }) => sum + weight / (k + 1), 0);
+}
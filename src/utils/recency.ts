@@ -0,0 +1,45 @@
+import type { DateRange } from '@/types/search';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 1 for dates inside the range, halving for every `halfLifeDays` they lie
+ * outside it. Recency is proximity to the open range starting now.
+ */
+export function timeProximity(
+  date: Date,
+  range: DateRange,
+  halfLifeDays: number
+): number {
+  const time = new Date(date).getTime();
+  let distance = 0;
+  if (range.from && time < range.from.getTime()) {
+    distance = range.from.getTime() - time;
+  } else if (range.to && time >= range.to.getTime()) {
+    distance = time - range.to.getTime();
+  }
+
+  return Math.pow(0.5, distance / DAY_MS / Math.max(halfLifeDays, 1e-6));
+}
+
+export function recencyScore(
+  date: Date,
+  now: Date,
+  halfLifeDays: number
+): number {
+  return timeProximity(date, { from: now }, halfLifeDays);
+}
+
+/** Linear blend; a weight of 0 keeps the similarity unchanged. */
+export function blendWithRecency(
+  similarity: number,
+  timeScore: number,
+  weight: number
+): number {
+  const w = Math.min(Math.max(weight, 0), 1);
+  return (1 - w) * similarity + w * timeScore;
+}
+
+export function rangeLengthInDays(range: Required<DateRange>): number {
+  return (range.to.getTime() - range.from.getTime()) / DAY_MS;
+}
@@ -0,0 +1,86 @@
+import { tokenize } from './textUtils';
+import { normalizeVector } from './vectorUtils';
+
+export interface WeightedVector {
+  vector: Float32Array;
+  weight: number;
+}
+
+export interface RocchioOptions {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+function weightedCentroid(
+  vectors: WeightedVector[],
+  dimension: number
+): Float32Array | null {
+  const centroid = new Float32Array(dimension);
+  let totalWeight = 0;
+
+  for (const { vector, weight } of vectors) {
+    if (vector.length !== dimension || weight <= 0) {
+      continue;
+    }
+    const normalized = normalizeVector(vector);
+    for (let i = 0; i < dimension; i++) {
+      centroid[i] = centroid[i]! + normalized[i]! * weight;
+    }
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  for (let i = 0; i < dimension; i++) {
+    centroid[i] = centroid[i]! / totalWeight;
+  }
+  return centroid;
+}
+
+/**
+ * Rocchio update in cosine space: moves the normalized query towards the
+ * weighted centroid of relevant documents and away from irrelevant ones.
+ */
+export function rocchio(
+  query: Float32Array,
+  relevant: WeightedVector[],
+  irrelevant: WeightedVector[],
+  { alpha, beta, gamma }: RocchioOptions
+): Float32Array {
+  const positive = weightedCentroid(relevant, query.length);
+  const negative = weightedCentroid(irrelevant, query.length);
+  if (!positive && !negative) {
+    return query;
+  }
+
+  const normalizedQuery = normalizeVector(query);
+  const adjusted = new Float32Array(query.length);
+  for (let i = 0; i < query.length; i++) {
+    adjusted[i] =
+      alpha * normalizedQuery[i]! +
+      beta * (positive?.[i] ?? 0) -
+      gamma * (negative?.[i] ?? 0);
+  }
+
+  return normalizeVector(adjusted);
+}
+
+/** Jaccard overlap between the tokenized terms of two queries. */
+export function querySimilarity(a: string, b: string): number {
+  const aTerms = new Set(tokenize(a));
+  const bTerms = new Set(tokenize(b));
+  if (aTerms.size === 0 || bTerms.size === 0) {
+    return 0;
+  }
+
+  const shared = [...aTerms].filter((term) => bTerms.has(term)).length;
+  return shared / (aTerms.size + bTerms.size - shared);
+}
+
+/** Saturating boost in [0, weight) for a (possibly weighted) click count. */
+export function clickPrior(clicks: number, weight: number): number {
+  return clicks > 0 ? weight * (1 - 1 / (1 + clicks)) : 0;
+}
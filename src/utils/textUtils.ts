@@ -0,0 +1,52 @@
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'how',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'what',
+  'with',
+]);
+
+const TOKEN_SEPARATOR = /[^\p{L}\p{N}_.-]+/u;
+const COMPOUND_SEPARATOR = /[._-]+/;
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const raw of text.toLowerCase().split(TOKEN_SEPARATOR)) {
+    const token = raw.replace(/^[._-]+|[._-]+$/g, '');
+    if (!token || STOP_WORDS.has(token)) {
+      continue;
+    }
+
+    tokens.push(token);
+
+    if (COMPOUND_SEPARATOR.test(token)) {
+      for (const part of token.split(COMPOUND_SEPARATOR)) {
+        if (part && !STOP_WORDS.has(part)) {
+          tokens.push(part);
+        }
+      }
+    }
+  }
+
+  return tokens;
+}
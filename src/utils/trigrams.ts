@@ -0,0 +1,20 @@
+export function extractTrigrams(term: string): string[] {
+  const padded = `  ${term} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return [...trigrams];
+}
+
+/** Dice coefficient between the trigram sets of two terms. */
+export function trigramSimilarity(a: string, b: string): number {
+  const aTrigrams = extractTrigrams(a);
+  const bTrigrams = new Set(extractTrigrams(b));
+  if (aTrigrams.length === 0 || bTrigrams.size === 0) {
+    return 0;
+  }
+
+  const shared = aTrigrams.filter((trigram) => bTrigrams.has(trigram)).length;
+  return (2 * shared) / (aTrigrams.length + bTrigrams.size);
+}
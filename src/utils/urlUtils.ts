@@ -0,0 +1,36 @@
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref_src)$/i;
+
+/**
+ * Reduces a URL to the parts that identify the page: scheme, `www.`,
+ * fragments, trailing slashes and tracking parameters are dropped and the
+ * remaining query parameters are sorted.
+ */
+export function normalizeUrlForComparison(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url.trim().toLowerCase();
+  }
+
+  const host = parsed.host.toLowerCase().replace(/^www\./, '');
+  const path = parsed.pathname.replace(/\/(index\.html?)?$/i, '');
+  const params = [...parsed.searchParams]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+
+  return `${host}${path}${query ? `?${query}` : ''}`;
+}
+
+export function isNearDuplicateUrl(a: string, b: string): boolean {
+  return normalizeUrlForComparison(a) === normalizeUrlForComparison(b);
+}
+
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  approximateSimilarity,
+  createQuantizedQuery,
+  getEmbeddingVector,
+} from './quantization';
+import { cosineSimilarity } from './vectorUtils';
+
+import type { EncodedEmbedding, QuantizedQuery } from './quantization';
+
+import { SEARCH_CONFIG } from '@/constants/config';
+
+export interface VectorMatch<T> {
+  row: T;
+  score: number;
+}
+
+/**
+ * Incremental top-k scan over embedding rows. Rows are ranked by their most
+ * compact representation as batches arrive; only the best
+ * `k * RESCORE_MULTIPLIER` are kept and rescored with exact cosine at the
+ * end, against the full-precision vectors the caller reads for them.
+ */
+export class VectorScan<T extends EncodedEmbedding> {
+  private query: QuantizedQuery;
+  private pool: VectorMatch<T>[] = [];
+  private poolSize: number;
+
+  constructor(
+    queryEmbedding: Float32Array,
+    private k: number
+  ) {
+    this.query = createQuantizedQuery(queryEmbedding);
+    this.poolSize = k * SEARCH_CONFIG.RESCORE_MULTIPLIER;
+  }
+
+  add(rows: T[]): void {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const scored = rows.map((row) => ({
+      row,
+      score: approximateSimilarity(this.query, row),
+    }));
+    this.pool = selectTopK(this.pool.concat(scored), this.poolSize);
+  }
+
+  /** Current top-k by approximate score, before rescoring. */
+  get provisional(): VectorMatch<T>[] {
+    return this.pool.slice(0, this.k);
+  }
+
+  /** The rows kept for rescoring. */
+  get candidates(): T[] {
+    return this.pool.map(({ row }) => row);
+  }
+
+  /** See rescore; rows missing from `fullVectors` use their own vector. */
+  results(fullVectors?: Map<T, Float32Array>): VectorMatch<T>[] {
+    return rescore(this.query.vector, this.candidates, this.k, fullVectors);
+  }
+}
+
+/**
+ * The k rows most similar to the query by cosine against their entry in
+ * `fullVectors`, else the vector the row carries. Rows with neither, such
+ * as binary rows without a full-precision copy, are dropped.
+ */
+export function rescore<T extends EncodedEmbedding>(
+  queryEmbedding: Float32Array,
+  rows: T[],
+  k: number,
+  fullVectors?: Map<T, Float32Array>
+): VectorMatch<T>[] {
+  return selectTopK(
+    rows.flatMap((row) => {
+      const vector = fullVectors?.get(row) ?? getEmbeddingVector(row);
+      return vector
+        ? [{ row, score: cosineSimilarity(queryEmbedding, vector) }]
+        : [];
+    }),
+    k
+  );
+}
+
+export function selectTopK<T>(
+  matches: VectorMatch<T>[],
+  k: number
+): VectorMatch<T>[] {
+  return matches.sort((a, b) => b.score - a.score).slice(0, k);
+}
+
+export function scanVectors<T extends EncodedEmbedding>(
+  queryEmbedding: Float32Array,
+  rows: T[],
+  k: number
+): VectorMatch<T>[] {
+  const scan = new VectorScan<T>(queryEmbedding, k);
+  scan.add(rows);
+  return scan.results();
+}
@@ -0,0 +1,336 @@
+import type { ChunkEmbedding, Embedding } from '@/types/provider';
+import type {
+  EmbeddingUpdate,
+  ScoredVector,
+  VectorScoreRequest,
+} from '@/types/vectorScoring';
+import type { HnswOptions } from '@/utils/hnsw';
+import type { EncodedEmbedding } from '@/utils/quantization';
+
+import {
+  ANN_CONFIG,
+  SEARCH_CONFIG,
+  VECTOR_SCORING_CONFIG,
+} from '@/constants/config';
+import { db } from '@/storage/database';
+import { readFullVectors } from '@/storage/fullVectors';
+import { HnswIndex } from '@/utils/hnsw';
+import { getEmbeddingVector } from '@/utils/quantization';
+import { rescore, VectorScan } from '@/utils/vectorScan';
+import { normalizeVector } from '@/utils/vectorUtils';
+
+interface ResidentRow extends EncodedEmbedding {
+  bookmarkId: string;
+  chunkIndex?: number;
+  passage?: ScoredVector['passage'];
+}
+
+interface ResidentGraph {
+  index: HnswIndex;
+  revision: number;
+  dimension: number;
+  /** Built over decoded int8 codes, so a larger pool is rescored. */
+  quantized: boolean;
+}
+
+interface ResidentVectors {
+  documents: Map<string, ResidentRow>;
+  passages: Map<string, ResidentRow[]>;
+  /** The provider's ANN graph over the document vectors, once loaded. */
+  graph?: ResidentGraph;
+}
+
+const HNSW_OPTIONS: HnswOptions = {
+  m: ANN_CONFIG.M,
+  efConstruction: ANN_CONFIG.EF_CONSTRUCTION,
+};
+
+/**
+ * Keeps each provider's document and chunk vectors in memory after the
+ * first request, so repeated searches scan arrays instead of reading
+ * IndexedDB. Kept current through EmbeddingUpdate messages. Document
+ * requests are answered from the provider's persisted ANN graph when one
+ * exists, built over the same resident vectors. Full-precision copies of
+ * quantized rows stay in IndexedDB and are read only for the best matches.
+ */
+export class VectorStore {
+  private providers = new Map<string, Promise<ResidentVectors>>();
+
+  /**
+   * Scans the request's candidates in batches, reporting the provisional
+   * top-k after each one and yielding between them so cancellation can
+   * arrive. Resolves to null when cancelled.
+   */
+  async scan(
+    request: VectorScoreRequest,
+    onPartial: (results: ScoredVector[]) => void,
+    isCancelled: () => boolean
+  ): Promise<ScoredVector[] | null> {
+    const vectors = await this.load(request.providerId);
+    if (request.target === 'documents' && request.minApproximate) {
+      const approximate = await this.searchGraph(request, vectors);
+      if (approximate) {
+        return isCancelled() ? null : approximate;
+      }
+    }
+
+    const rows =
+      request.target === 'documents'
+        ? request.candidateIds.flatMap((id) => {
+            const row = vectors.documents.get(id);
+            return row ? [row] : [];
+          })
+        : request.candidateIds.flatMap((id) => vectors.passages.get(id) ?? []);
+
+    const scan = new VectorScan<ResidentRow>(request.query, request.limit);
+    const batchSize = VECTOR_SCORING_CONFIG.SCAN_BATCH_SIZE;
+
+    for (let start = 0; start < rows.length; start += batchSize) {
+      if (start > 0) {
+        onPartial(scan.provisional.map(toScoredVector));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      if (isCancelled()) {
+        return null;
+      }
+      scan.add(rows.slice(start, start + batchSize));
+    }
+
+    if (isCancelled()) {
+      return null;
+    }
+    const fullVectors = await this.readFullVectors(
+      request.providerId,
+      scan.candidates
+    );
+    return isCancelled() ? null : scan.results(fullVectors).map(toScoredVector);
+  }
+
+  async applyUpdate(update: EmbeddingUpdate): Promise<void> {
+    switch (update.type) {
+      case 'invalidate':
+        this.providers.delete(update.providerId);
+        return;
+      case 'remove':
+        for (const loaded of this.providers.values()) {
+          const vectors = await loaded;
+          vectors.documents.delete(update.bookmarkId);
+          vectors.passages.delete(update.bookmarkId);
+        }
+        return;
+      case 'upsert':
+        await this.reloadBookmark(update.providerId, update.bookmarkId);
+    }
+  }
+
+  /**
+   * The graph's nearest neighbours among the candidates, rescored like a
+   * scan's pool, or null when the provider has no usable graph or too few
+   * neighbours are candidates to trust it over a scan.
+   */
+  private async searchGraph(
+    request: VectorScoreRequest,
+    vectors: ResidentVectors
+  ): Promise<ScoredVector[] | null> {
+    let graph: ResidentGraph | null;
+    try {
+      graph = await this.loadGraph(request.providerId, vectors);
+    } catch (error) {
+      console.warn('ANN search failed, using exact scan:', error);
+      return null;
+    }
+    if (graph?.dimension !== request.query.length) {
+      return null;
+    }
+
+    const candidates = new Set(request.candidateIds);
+    const poolSize = graph.quantized
+      ? request.limit * SEARCH_CONFIG.RESCORE_MULTIPLIER
+      : request.limit;
+    const rows = graph.index
+      .search(request.query, poolSize, Math.max(poolSize, ANN_CONFIG.EF_SEARCH))
+      .flatMap(({ id }) => {
+        const row = candidates.has(id) && vectors.documents.get(id);
+        return row ? [row] : [];
+      });
+
+    // Pre-filters can discard most neighbours
+    if (rows.length < Math.min(request.minApproximate ?? 0, candidates.size)) {
+      return null;
+    }
+
+    const fullVectors = await this.readFullVectors(request.providerId, rows);
+    return rescore(request.query, rows, request.limit, fullVectors).map(
+      toScoredVector
+    );
+  }
+
+  private readFullVectors(
+    providerId: string,
+    rows: ResidentRow[]
+  ): Promise<Map<ResidentRow, Float32Array>> {
+    return readFullVectors(providerId, rows, (row) => ({
+      bookmarkId: row.bookmarkId,
+      url: row.passage?.url,
+      chunkIndex: row.chunkIndex,
+    }));
+  }
+
+  /**
+   * Restores the persisted graph when its revision changed. Only the node
+   * records are read; the vectors are the resident rows, normalized in
+   * place so the graph shares them.
+   */
+  private async loadGraph(
+    providerId: string,
+    vectors: ResidentVectors
+  ): Promise<ResidentGraph | null> {
+    const meta = await db.annIndexes.get(providerId);
+    if (!meta) {
+      vectors.graph = undefined;
+      return null;
+    }
+    if (vectors.graph?.revision === meta.revision) {
+      return vectors.graph;
+    }
+
+    const nodes = await db.annNodes
+      .where('providerId')
+      .equals(providerId)
+      .toArray();
+    const normalized = new Map<string, Float32Array>();
+    let quantized = false;
+    for (const [bookmarkId, row] of vectors.documents) {
+      const vector = getEmbeddingVector(row);
+      if (vector?.length !== meta.dimension) {
+        continue;
+      }
+      const unit = normalizeVector(vector);
+      if (row.embedding) {
+        row.embedding = unit;
+      } else {
+        quantized = true;
+      }
+      normalized.set(bookmarkId, unit);
+    }
+
+    vectors.graph = {
+      index: HnswIndex.fromRecords(
+        HNSW_OPTIONS,
+        nodes.map(({ bookmarkId, level, neighbors }) => ({
+          id: bookmarkId,
+          level,
+          neighbors,
+        })),
+        normalized,
+        meta.entryPoint,
+        true
+      ),
+      revision: meta.revision,
+      dimension: meta.dimension,
+      quantized,
+    };
+    return vectors.graph;
+  }
+
+  private load(providerId: string): Promise<ResidentVectors> {
+    let loaded = this.providers.get(providerId);
+    if (!loaded) {
+      loaded = this.readProvider(providerId);
+      this.providers.set(providerId, loaded);
+      loaded.catch(() => this.providers.delete(providerId));
+    }
+    return loaded;
+  }
+
+  private async readProvider(providerId: string): Promise<ResidentVectors> {
+    const [embeddings, chunks] = await Promise.all([
+      db.embeddings.where('providerId').equals(providerId).toArray(),
+      db.chunkEmbeddings.where('providerId').equals(providerId).toArray(),
+    ]);
+
+    const vectors: ResidentVectors = {
+      documents: new Map(),
+      passages: new Map(),
+    };
+
+    for (const embedding of embeddings) {
+      vectors.documents.set(embedding.bookmarkId, toResidentRow(embedding));
+    }
+
+    for (const chunk of chunks) {
+      const rows = vectors.passages.get(chunk.bookmarkId) ?? [];
+      rows.push(toResidentRow(chunk, chunk));
+      vectors.passages.set(chunk.bookmarkId, rows);
+    }
+
+    return vectors;
+  }
+
+  private async reloadBookmark(
+    providerId: string,
+    bookmarkId: string
+  ): Promise<void> {
+    const loaded = this.providers.get(providerId);
+    if (!loaded) {
+      return;
+    }
+
+    const vectors = await loaded;
+    const [embedding, chunks] = await Promise.all([
+      db.embeddings.get([bookmarkId, providerId]),
+      db.chunkEmbeddings
+        .where('[bookmarkId+providerId]')
+        .equals([bookmarkId, providerId])
+        .toArray(),
+    ]);
+
+    if (embedding) {
+      vectors.documents.set(bookmarkId, toResidentRow(embedding));
+    } else {
+      vectors.documents.delete(bookmarkId);
+    }
+
+    vectors.passages.set(
+      bookmarkId,
+      chunks.map((chunk) => toResidentRow(chunk, chunk))
+    );
+  }
+}
+
+/**
+ * Drops everything but the vectors, which is all a scan reads, and what
+ * identifies a chunk's passage.
+ */
+function toResidentRow(
+  row: Pick<Embedding, 'bookmarkId'> & EncodedEmbedding,
+  chunk?: Pick<ChunkEmbedding, 'text' | 'url' | 'chunkIndex'>
+): ResidentRow {
+  const { bookmarkId, embedding, quantization, int8, int8Scale, binary } = row;
+  return {
+    bookmarkId,
+    embedding,
+    quantization,
+    int8,
+    int8Scale,
+    binary,
+    ...(chunk && {
+      chunkIndex: chunk.chunkIndex,
+      passage: { text: chunk.text, url: chunk.url },
+    }),
+  };
+}
+
+function toScoredVector({
+  row,
+  score,
+}: {
+  row: ResidentRow;
+  score: number;
+}): ScoredVector {
+  return {
+    bookmarkId: row.bookmarkId,
+    score,
+    ...(row.passage && { passage: row.passage }),
+  };
+}
@@ -0,0 +1,59 @@
+import { VectorStore } from './VectorStore';
+
+import type {
+  EmbeddingUpdate,
+  VectorScoreRequest,
+  VectorWorkerRequest,
+  VectorWorkerResponse,
+} from '@/types/vectorScoring';
+
+import { VECTOR_SCORING_CONFIG } from '@/constants/config';
+
+interface WorkerScope {
+  postMessage(message: VectorWorkerResponse): void;
+  onmessage: ((event: MessageEvent<VectorWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+const store = new VectorStore();
+const cancelled = new Set<number>();
+
+async function score(request: VectorScoreRequest): Promise<void> {
+  const { requestId } = request;
+
+  try {
+    const results = await store.scan(
+      request,
+      (partial) =>
+        scope.postMessage({ type: 'partial', requestId, results: partial }),
+      () => cancelled.has(requestId)
+    );
+    if (results) {
+      scope.postMessage({ type: 'done', requestId, results });
+    }
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    cancelled.delete(requestId);
+  }
+}
+
+scope.onmessage = ({ data }) => {
+  if (data.type === 'cancel') {
+    cancelled.add(data.requestId);
+    return;
+  }
+  void score(data);
+};
+
+new BroadcastChannel(VECTOR_SCORING_CONFIG.UPDATES_CHANNEL).onmessage = ({
+  data,
+}: MessageEvent<EmbeddingUpdate>) => {
+  store.applyUpdate(data).catch((error) => {
+    console.warn('Failed to apply embedding update:', error);
+  });
+};
@@ -54,6 +54,9 @@ if (typeof global.structuredClone === 'undefined') {
     if (obj instanceof Date) {
       return new Date(obj.getTime());
     }
+    if (ArrayBuffer.isView(obj)) {
+      return (obj as any).slice();
+    }
     if (Array.isArray(obj)) {
       return obj.map((item) => global.structuredClone(item));
     }
@@ -67,6 +70,17 @@ if (typeof global.structuredClone === 'undefined') {
   };
 }
 
+// jsdom lacks TextEncoder and SubtleCrypto, used for content hashing
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+
+if (typeof global.TextEncoder === 'undefined') {
+  global.TextEncoder = TextEncoder as typeof global.TextEncoder;
+}
+if (!global.crypto.subtle) {
+  Object.defineProperty(global.crypto, 'subtle', { value: webcrypto.subtle });
+}
+
 // Mock IndexedDB (used by Dexie)
 import 'fake-indexeddb/auto';
 
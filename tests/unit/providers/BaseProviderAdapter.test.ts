@@ -0,0 +1,124 @@
+import { LocalAIAdapter } from '@/providers/LocalAIAdapter';
+import { OllamaAdapter } from '@/providers/OllamaAdapter';
+import { ProviderRequestError } from '@/providers/ProviderRequestError';
+
+const fetchMock = jest.fn();
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { get: (name: string) => headers[name] ?? null },
+    json: () => Promise.resolve(body),
+  }) as unknown as Response;
+
+const requestBody = (call: number) =>
+  JSON.parse(
+    (fetchMock.mock.calls[call] as [string, RequestInit])[1].body as string
+  ) as { input?: unknown; prompt?: unknown };
+
+describe('BaseProviderAdapter', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('should send OpenAI-style array input and restore input order', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+      })
+    );
+
+    const results = await new LocalAIAdapter().generateEmbeddings(
+      ['first', 'second'],
+      'http://localhost:8080',
+      'model',
+      'doc: '
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(requestBody(0).input).toEqual(['doc: first', 'doc: second']);
+    expect(results).toEqual([{ embedding: [1, 0] }, { embedding: [0, 1] }]);
+  });
+
+  it('should batch through /api/embed for Ollama', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ embeddings: [[1], [2]] }));
+
+    const results = await new OllamaAdapter().generateEmbeddings(
+      ['a', 'b'],
+      'http://localhost:11434',
+      'model'
+    );
+
+    expect(fetchMock.mock.calls[0]?.[0]).toBe(
+      'http://localhost:11434/api/embed'
+    );
+    expect(results).toEqual([{ embedding: [1] }, { embedding: [2] }]);
+  });
+
+  it('should fall back to single requests and remember the endpoint', async () => {
+    fetchMock.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.endsWith('/api/embed')
+          ? jsonResponse({}, 404)
+          : jsonResponse({ embedding: [3] })
+      )
+    );
+    const adapter = new OllamaAdapter();
+
+    const first = await adapter.generateEmbeddings(
+      ['a', 'b'],
+      'http://localhost:11434',
+      'model'
+    );
+    await adapter.generateEmbeddings(
+      ['c', 'd'],
+      'http://localhost:11434',
+      'model'
+    );
+
+    const urls = fetchMock.mock.calls.map(([url]) => url as string);
+    expect(first).toEqual([{ embedding: [3] }, { embedding: [3] }]);
+    expect(urls.filter((url) => url.endsWith('/api/embed'))).toHaveLength(1);
+    expect(requestBody(1).prompt).toBe('a');
+  });
+
+  it('should leave transient batch failures to the caller', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 429, { 'Retry-After': '2' }));
+
+    const error = (await new LocalAIAdapter()
+      .generateEmbeddings(['a', 'b'], 'http://localhost:8080', 'model')
+      .catch((e: unknown) => e)) as ProviderRequestError;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(ProviderRequestError);
+    expect(error).toMatchObject({
+      status: 429,
+      retryable: true,
+      retryAfterMs: 2000,
+    });
+  });
+
+  it('should mark unreachable providers retryable and bad requests not', async () => {
+    const adapter = new OllamaAdapter();
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 400));
+
+    const unreachable = adapter.generateEmbedding('a', 'http://x', 'model');
+    await expect(unreachable).rejects.toMatchObject({ retryable: true });
+    const rejected = adapter.generateEmbedding('a', 'http://x', 'model');
+    await expect(rejected).rejects.toMatchObject({
+      status: 400,
+      retryable: false,
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import browser from 'webextension-polyfill';
+
+import { AIService } from '@/services/AIService';
+import { db } from '@/storage/database';
+import { ContentType } from '@/types/content';
+import { MessageType } from '@/types/messages';
+
+jest.mock('webextension-polyfill', () => ({
+  runtime: {
+    sendMessage: jest.fn().mockResolvedValue(undefined),
+  },
+  storage: {
+    sync: {
+      get: jest.fn().mockResolvedValue({
+        app_settings: {
+          aiProvider: {
+            enabled: true,
+            type: 'ollama',
+            endpoint: 'http://localhost:11434',
+            modelName: 'test-model',
+            isConnected: true,
+          },
+        },
+      }),
+      set: jest.fn(),
+    },
+  },
+}));
+
+const fetchMock = jest.fn();
+
+const chatResponse = (content: string) => ({
+  ok: true,
+  json: () => Promise.resolve({ choices: [{ message: { content } }] }),
+});
+
+const candidates = [
+  { id: 'a', title: 'Rust ownership', url: 'https://example.com/a' },
+  {
+    id: 'b',
+    title: 'Async runtimes',
+    url: 'https://example.com/b',
+    passage: 'Tokio schedules futures on a work-stealing runtime.',
+  },
+];
+
+describe('AIService', () => {
+  const aiService = AIService.getInstance();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  describe('generateSummary', () => {
+    afterEach(async () => {
+      await db.delete();
+    });
+
+    it('should store the summary and report the bookmark as changed', async () => {
+      await db.open();
+      await db.bookmarks.add({
+        id: 'a',
+        url: 'https://example.com/a',
+        title: 'Rust ownership',
+        version: 0,
+        hidden: false,
+        dateAdded: new Date(),
+        lastModified: new Date(),
+      });
+      await db.content.add({
+        bookmarkId: 'a',
+        url: 'https://example.com/a',
+        type: ContentType.PRIMARY,
+        title: 'Rust ownership',
+        content: 'Ownership rules govern how Rust manages memory.',
+        contentHash: 'hash',
+        links: [],
+        fetchedAt: Date.now(),
+      });
+      fetchMock.mockResolvedValue(chatResponse('Explains Rust ownership.'));
+
+      const summary = await aiService.generateSummary('a');
+
+      expect(summary).toBe('Explains Rust ownership.');
+      expect((await db.bookmarks.get('a'))?.aiSummary).toBe(summary);
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+        type: MessageType.BOOKMARKS_CHANGED,
+        bookmarkIds: ['a'],
+      });
+    });
+  });
+
+  describe('rewriteQuery', () => {
+    it('should clean list markers and drop duplicates of the query', async () => {
+      fetchMock.mockResolvedValue(
+        chatResponse(
+          '1. tokio runtime\n- "rust futures"\n\nRust async\n2) tokio runtime'
+        )
+      );
+
+      expect(await aiService.rewriteQuery('rust async', 3)).toEqual([
+        'tokio runtime',
+        'rust futures',
+      ]);
+    });
+  });
+
+  describe('rerank', () => {
+    it('should map model scores to candidates', async () => {
+      fetchMock.mockResolvedValue(
+        chatResponse(
+          'Scores:\n[{"id": 1, "score": 3}, {"id": 2, "score": 12}, {"id": 9, "score": 5}]'
+        )
+      );
+
+      const scores = await aiService.rerank('tokio', candidates);
+
+      expect([...scores]).toEqual([
+        ['a', 0.3],
+        ['b', 1],
+      ]);
+      const body = JSON.parse(
+        (fetchMock.mock.calls[0]?.[1] as RequestInit).body as string
+      ) as { messages: { content: string }[] };
+      expect(body.messages[0]?.content).toContain(
+        'Passage: Tokio schedules futures'
+      );
+    });
+
+    it('should reject responses without scores', async () => {
+      fetchMock.mockResolvedValue(chatResponse('Both look relevant.'));
+
+      await expect(aiService.rerank('tokio', candidates)).rejects.toThrow(
+        'Invalid re-ranking response from AI provider'
+      );
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new Error('aborted'))
+            );
+          })
+      );
+
+      await expect(
+        aiService.rerank('tokio', candidates, { timeoutMs: 10 })
+      ).rejects.toThrow('AI provider did not respond within 10ms');
+    });
+  });
+});
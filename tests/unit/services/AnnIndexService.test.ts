@@ -0,0 +1,125 @@
+import { ANN_CONFIG } from '@/constants/config';
+import { AnnIndexService } from '@/services/AnnIndexService';
+import { db } from '@/storage/database';
+
+const createRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const random = createRandom(7);
+const randomVector = () =>
+  Float32Array.from({ length: 8 }, () => random() * 2 - 1);
+
+const addEmbeddings = async (count: number, providerId = 'provider-1') => {
+  await db.embeddings.bulkAdd(
+    Array.from({ length: count }, (_, i) => ({
+      bookmarkId: `bm-${i}`,
+      providerId,
+      embedding: randomVector(),
+      createdAt: new Date(),
+      modelName: 'test-model',
+    }))
+  );
+};
+
+describe('AnnIndexService', () => {
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    AnnIndexService.resetInstance();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should not build an index below the minimum size', async () => {
+    await addEmbeddings(10);
+    const service = AnnIndexService.getInstance();
+
+    await service.upsert('provider-1', 'bm-0', randomVector());
+    await service.upsert('provider-1', 'bm-1', randomVector());
+
+    expect(await db.annIndexes.count()).toBe(0);
+  });
+
+  it('should build the index once enough vectors are indexed', async () => {
+    await addEmbeddings(ANN_CONFIG.MIN_VECTORS);
+    const service = AnnIndexService.getInstance();
+
+    await service.upsert('provider-1', 'bm-0', randomVector());
+    // Waits for the build the first upsert started
+    await service.upsert('provider-1', 'bm-1', randomVector());
+
+    expect((await db.annIndexes.get('provider-1'))?.nodeCount).toBe(
+      ANN_CONFIG.MIN_VECTORS
+    );
+  });
+
+  it('should persist the graph and extend it from a fresh instance', async () => {
+    await addEmbeddings(ANN_CONFIG.MIN_VECTORS);
+    await AnnIndexService.getInstance().rebuildIndex('provider-1');
+
+    expect(await db.annNodes.count()).toBe(ANN_CONFIG.MIN_VECTORS);
+    const { revision } = (await db.annIndexes.get('provider-1'))!;
+
+    AnnIndexService.resetInstance();
+    await AnnIndexService.getInstance().upsert(
+      'provider-1',
+      'new-bookmark',
+      randomVector()
+    );
+
+    expect(await db.annNodes.get(['provider-1', 'new-bookmark'])).toBeDefined();
+    expect((await db.annIndexes.get('provider-1'))?.revision).toBe(
+      revision + 1
+    );
+  });
+
+  it('should apply concurrent updates to the same graph in turn', async () => {
+    await addEmbeddings(ANN_CONFIG.MIN_VECTORS);
+    await AnnIndexService.getInstance().rebuildIndex('provider-1');
+    const { revision } = (await db.annIndexes.get('provider-1'))!;
+
+    AnnIndexService.resetInstance();
+    const service = AnnIndexService.getInstance();
+    await Promise.all([
+      service.upsert('provider-1', 'new-a', randomVector()),
+      service.upsert('provider-1', 'new-b', randomVector()),
+      service.remove('bm-0', 'provider-1'),
+    ]);
+
+    expect((await db.annIndexes.get('provider-1'))?.revision).toBe(
+      revision + 3
+    );
+    expect((await db.annIndexes.get('provider-1'))?.nodeCount).toBe(
+      ANN_CONFIG.MIN_VECTORS + 1
+    );
+  });
+
+  it('should unlink removed bookmarks from the persisted graph', async () => {
+    await addEmbeddings(ANN_CONFIG.MIN_VECTORS);
+    const service = AnnIndexService.getInstance();
+    await service.rebuildIndex('provider-1');
+
+    await service.remove('bm-3');
+
+    const nodes = await db.annNodes.toArray();
+    expect(await db.annNodes.get(['provider-1', 'bm-3'])).toBeUndefined();
+    expect(
+      nodes.some((node) => node.neighbors.some((ids) => ids.includes('bm-3')))
+    ).toBe(false);
+  });
+
+  it('should drop the index when the embedding dimension changes', async () => {
+    await addEmbeddings(ANN_CONFIG.MIN_VECTORS);
+    const service = AnnIndexService.getInstance();
+    await service.rebuildIndex('provider-1');
+
+    await service.upsert('provider-1', 'bm-0', new Float32Array(16));
+
+    expect(await db.annIndexes.get('provider-1')).toBeUndefined();
+    expect(await db.annNodes.count()).toBe(0);
+  });
+});
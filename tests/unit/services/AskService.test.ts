@@ -0,0 +1,140 @@
+import { AskService } from '@/services/AskService';
+import { db } from '@/storage/database';
+import { ContentType } from '@/types/content';
+
+const mockAnswerQuestion = jest.fn();
+const mockSearchWithFallback = jest.fn();
+
+jest.mock('@/services/AIService', () => ({
+  AIService: {
+    getInstance: () => ({ answerQuestion: mockAnswerQuestion }),
+  },
+}));
+
+jest.mock('@/services/SearchService', () => ({
+  SearchService: {
+    getInstance: () => ({ searchWithFallback: mockSearchWithFallback }),
+  },
+}));
+
+const bookmark = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: `Bookmark ${id}`,
+  version: 0,
+  hidden: false,
+  dateAdded: new Date('2024-01-01'),
+  lastModified: new Date('2024-01-01'),
+  ...overrides,
+});
+
+describe('AskService', () => {
+  let askService: AskService;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    mockAnswerQuestion.mockReset();
+    mockSearchWithFallback.mockReset();
+    AskService.resetInstance();
+    askService = AskService.getInstance();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should answer from retrieved passages with citations', async () => {
+    await db.content.add({
+      bookmarkId: 'envoy',
+      url: 'https://example.com/envoy',
+      type: ContentType.PRIMARY,
+      title: 'Envoy',
+      content:
+        'Envoy is a proxy.\n\nRetries are configured with a retry_policy on each route.',
+      contentHash: 'hash',
+      links: [],
+      fetchedAt: Date.now(),
+    });
+    mockSearchWithFallback.mockResolvedValue([
+      {
+        bookmark: bookmark('chunked'),
+        score: 0.9,
+        providerId: 'provider-1',
+        passage: {
+          text: 'Timeouts default to 15 seconds.',
+          url: 'https://docs.example.com/timeouts',
+          score: 0.9,
+        },
+      },
+      { bookmark: bookmark('envoy'), score: 0.8, providerId: 'provider-1' },
+      { bookmark: bookmark('empty'), score: 0.7, providerId: 'provider-1' },
+    ]);
+    mockAnswerQuestion.mockResolvedValue(
+      'Set a retry_policy on the route [2][5].'
+    );
+
+    const answer = await askService.ask('how are envoy retries configured');
+
+    expect(mockAnswerQuestion).toHaveBeenCalledWith(
+      'how are envoy retries configured',
+      [
+        {
+          title: 'Bookmark chunked',
+          url: 'https://docs.example.com/timeouts',
+          text: 'Timeouts default to 15 seconds.',
+        },
+        expect.objectContaining({
+          text: expect.stringContaining('retry_policy'),
+        }),
+      ],
+      { signal: undefined }
+    );
+    expect(answer.segments).toEqual([
+      { type: 'text', text: 'Set a retry_policy on the route ' },
+      { type: 'citation', source: 2 },
+      { type: 'text', text: '.' },
+    ]);
+    expect(
+      answer.sources.map(({ number, bookmark, cited }) => [
+        number,
+        bookmark.id,
+        cited,
+      ])
+    ).toEqual([
+      [1, 'chunked', false],
+      [2, 'envoy', true],
+    ]);
+  });
+
+  it('should fail without asking the model when nothing matches', async () => {
+    mockSearchWithFallback.mockResolvedValue([
+      { bookmark: bookmark('empty'), score: 0.7, providerId: 'provider-1' },
+    ]);
+
+    await expect(askService.ask('anything')).rejects.toThrow(
+      'No bookmarked content matches this question'
+    );
+    expect(mockAnswerQuestion).not.toHaveBeenCalled();
+  });
+
+  it('should pass the signal to retrieval and the chat model', async () => {
+    mockSearchWithFallback.mockResolvedValue([
+      {
+        bookmark: bookmark('chunked'),
+        score: 0.9,
+        providerId: 'provider-1',
+        passage: { text: 'Passage', url: 'https://example.com', score: 0.9 },
+      },
+    ]);
+    mockAnswerQuestion.mockResolvedValue('Answer [1].');
+    const controller = new AbortController();
+
+    await askService.ask('question', { signal: controller.signal });
+
+    expect(mockSearchWithFallback.mock.calls[0]![1].signal).toBe(
+      controller.signal
+    );
+    expect(mockAnswerQuestion.mock.calls[0]![2].signal).toBe(controller.signal);
+  });
+});
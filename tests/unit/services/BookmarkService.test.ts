@@ -3,11 +3,15 @@ import browser from 'webextension-polyfill';
 import { BookmarkService } from '@/services/BookmarkService';
 import { TagService } from '@/services/TagService';
 import { db } from '@/storage/database';
+import { MessageType } from '@/types/messages';
 
 jest.mock('webextension-polyfill', () => ({
   bookmarks: {
     getTree: jest.fn(),
   },
+  runtime: {
+    sendMessage: jest.fn(),
+  },
 }));
 
 describe('BookmarkService', () => {
@@ -19,6 +23,9 @@ describe('BookmarkService', () => {
     await db.delete();
     await db.open();
     bookmarkService = new BookmarkService();
+    (browser.runtime.sendMessage as jest.Mock)
+      .mockReset()
+      .mockResolvedValue(undefined);
   });
 
   afterEach(async () => {
@@ -394,4 +401,96 @@ describe('BookmarkService', () => {
       expect(bookmarkTags).toHaveLength(0);
     });
   });
+
+  describe('Change Notifications', () => {
+    const changedMessage = (bookmarkIds: string[]) => ({
+      type: MessageType.BOOKMARKS_CHANGED,
+      bookmarkIds,
+    });
+
+    beforeEach(async () => {
+      await db.bookmarks.add({
+        id: '1',
+        url: 'https://example.com',
+        title: 'Example',
+        version: 0,
+        hidden: false,
+        dateAdded: new Date(),
+        lastModified: new Date(),
+      });
+    });
+
+    it('should report edits to the title and notes', async () => {
+      await bookmarkService.updateTitle('1', 'Renamed');
+      await bookmarkService.updateUserDescription('1', 'My notes');
+
+      expect(browser.runtime.sendMessage).toHaveBeenCalledTimes(2);
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith(
+        changedMessage(['1'])
+      );
+    });
+
+    it('should report deleted content', async () => {
+      await bookmarkService.deleteBookmarkContent('1');
+
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith(
+        changedMessage(['1'])
+      );
+    });
+
+    it('should report bookmarks added by a sync at once', async () => {
+      (browser.bookmarks.getTree as jest.Mock).mockResolvedValue([
+        {
+          id: 'root',
+          title: '',
+          children: [
+            {
+              id: 'work',
+              title: 'Work',
+              children: [
+                { id: '2', title: 'Two', url: 'https://two.com' },
+                { id: '3', title: 'Three', url: 'https://three.com' },
+              ],
+            },
+          ],
+        },
+      ]);
+
+      await bookmarkService.syncBookmarks();
+
+      expect(browser.runtime.sendMessage).toHaveBeenCalledTimes(1);
+      expect(browser.runtime.sendMessage).toHaveBeenCalledWith(
+        changedMessage(['2', '3'])
+      );
+    });
+  });
+
+  describe('Bookmark Removal', () => {
+    it('should delete the embeddings of bookmarks removed by a sync', async () => {
+      await db.bookmarks.add({
+        id: '1',
+        url: 'https://example.com',
+        title: 'Example',
+        version: 0,
+        hidden: false,
+        dateAdded: new Date(),
+        lastModified: new Date(),
+      });
+      await db.embeddings.add({
+        bookmarkId: '1',
+        providerId: 'provider-1',
+        embedding: new Float32Array([1, 0]),
+        createdAt: new Date(),
+        modelName: 'test-model',
+      });
+      (browser.bookmarks.getTree as jest.Mock).mockResolvedValue([
+        { id: 'root', title: '', children: [] },
+      ]);
+
+      await bookmarkService.syncBookmarks();
+
+      expect(await db.bookmarks.count()).toBe(0);
+      expect(await db.embeddings.count()).toBe(0);
+    });
+  });
 });
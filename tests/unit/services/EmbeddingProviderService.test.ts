@@ -0,0 +1,184 @@
+import { EmbeddingProviderService } from '@/services/EmbeddingProviderService';
+import { QueryEmbeddingCacheService } from '@/services/QueryEmbeddingCacheService';
+import { db } from '@/storage/database';
+
+const VECTOR = new Float32Array([0.2, -0.4, 0.9, 0.1]);
+
+describe('EmbeddingProviderService', () => {
+  const service = EmbeddingProviderService.getInstance();
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+
+    await db.embeddingProviders.add({
+      id: 'provider-1',
+      name: 'Test',
+      type: 'ollama',
+      endpoint: 'http://localhost:11434',
+      modelName: 'test-model',
+      isActive: true,
+      isConnected: true,
+      createdAt: new Date(),
+    });
+    await db.embeddings.add({
+      bookmarkId: 'bm-1',
+      providerId: 'provider-1',
+      embedding: VECTOR,
+      createdAt: new Date(),
+      modelName: 'test-model',
+    });
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  describe('quantization migration', () => {
+    it('should convert existing rows when quantization is enabled', async () => {
+      await service.updateProvider('provider-1', { quantization: 'binary' });
+
+      const row = await db.embeddings.get(['bm-1', 'provider-1']);
+      expect(row?.quantization).toBe('binary');
+      expect(row?.embedding).toBeUndefined();
+      expect(row?.int8).toBeUndefined();
+      expect(row?.binary).toHaveLength(1);
+      expect(
+        (await db.embeddingVectors.get(['bm-1', 'provider-1']))?.embedding
+      ).toEqual(VECTOR);
+    });
+
+    it('should restore the exact float vectors when quantization is turned off', async () => {
+      await db.chunkEmbeddings.add({
+        bookmarkId: 'bm-1',
+        providerId: 'provider-1',
+        url: 'https://example.com',
+        chunkIndex: 0,
+        text: 'Chunk',
+        embedding: VECTOR,
+        createdAt: new Date(),
+        modelName: 'test-model',
+      });
+
+      await service.updateProvider('provider-1', { quantization: 'int8' });
+      await service.updateProvider('provider-1', { quantization: 'binary' });
+      await service.updateProvider('provider-1', { quantization: 'none' });
+
+      const row = await db.embeddings.get(['bm-1', 'provider-1']);
+      const [chunk] = await db.chunkEmbeddings.toArray();
+      expect(row?.quantization).toBe('none');
+      expect(row?.binary).toBeUndefined();
+      expect(row?.embedding).toEqual(VECTOR);
+      expect(chunk?.embedding).toEqual(VECTOR);
+      expect(await db.embeddingVectors.count()).toBe(0);
+      expect(await db.chunkVectors.count()).toBe(0);
+    });
+
+    it('should leave rows untouched when the setting is unchanged', async () => {
+      await service.updateProvider('provider-1', { modelName: 'other' });
+
+      const row = await db.embeddings.get(['bm-1', 'provider-1']);
+      expect(row?.quantization).toBeUndefined();
+      expect(row?.embedding).toEqual(VECTOR);
+    });
+  });
+
+  describe('query embedding cache', () => {
+    const queryCache = QueryEmbeddingCacheService.getInstance();
+
+    beforeEach(async () => {
+      await queryCache.clear();
+      const provider = await service.getProvider('provider-1');
+      await queryCache.set(provider!, 'rust async', VECTOR);
+    });
+
+    it('should drop cached queries when the model changes', async () => {
+      await service.updateProvider('provider-1', { modelName: 'other' });
+
+      expect(await db.queryEmbeddings.count()).toBe(0);
+    });
+
+    it('should keep cached queries when only the name changes', async () => {
+      await service.updateProvider('provider-1', { name: 'Renamed' });
+
+      expect(await db.queryEmbeddings.count()).toBe(1);
+    });
+  });
+
+  describe('deleteProvider', () => {
+    it('should delete the provider with its embeddings, graph and jobs', async () => {
+      await db.embeddingProviders.update('provider-1', { isActive: false });
+      await db.chunkEmbeddings.add({
+        bookmarkId: 'bm-1',
+        providerId: 'provider-1',
+        url: 'https://example.com',
+        chunkIndex: 0,
+        text: 'Chunk',
+        embedding: VECTOR,
+        createdAt: new Date(),
+        modelName: 'test-model',
+      });
+      await db.embeddingVectors.add({
+        bookmarkId: 'bm-1',
+        providerId: 'provider-1',
+        embedding: VECTOR,
+      });
+      await db.chunkVectors.add({
+        bookmarkId: 'bm-1',
+        providerId: 'provider-1',
+        url: 'https://example.com',
+        chunkIndex: 0,
+        embedding: VECTOR,
+      });
+      await db.annIndexes.add({
+        providerId: 'provider-1',
+        dimension: 4,
+        entryPoint: 'bm-1',
+        nodeCount: 1,
+        revision: 1,
+        updatedAt: new Date(),
+      });
+      await db.annNodes.add({
+        providerId: 'provider-1',
+        bookmarkId: 'bm-1',
+        level: 0,
+        neighbors: [[]],
+      });
+      await db.indexingJobs.add({
+        id: 'job-1',
+        providerId: 'provider-1',
+        status: 'running',
+        total: 1,
+        processed: 0,
+        succeeded: 0,
+        skipped: 0,
+        failed: 0,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await db.indexingJobItems.add({
+        jobId: 'job-1',
+        bookmarkId: 'bm-1',
+        status: 'pending',
+        attempts: 0,
+        updatedAt: new Date(),
+      });
+
+      await service.deleteProvider('provider-1');
+
+      for (const table of [
+        db.embeddingProviders,
+        db.embeddings,
+        db.chunkEmbeddings,
+        db.embeddingVectors,
+        db.chunkVectors,
+        db.annIndexes,
+        db.annNodes,
+        db.indexingJobs,
+        db.indexingJobItems,
+      ]) {
+        expect(await table.count()).toBe(0);
+      }
+    });
+  });
+});
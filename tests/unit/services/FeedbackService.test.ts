@@ -0,0 +1,78 @@
+import { FeedbackService } from '@/services/FeedbackService';
+import { db } from '@/storage/database';
+
+describe('FeedbackService', () => {
+  let feedbackService: FeedbackService;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    FeedbackService.resetInstance();
+    feedbackService = FeedbackService.getInstance();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should count clicks per normalized query and bookmark', async () => {
+    await feedbackService.recordClick('Rust  Async', 'bm-1');
+    await feedbackService.recordClick('rust async tag:lang', 'bm-1');
+
+    const row = await db.searchFeedback.get(['rust async', 'bm-1']);
+
+    expect(row?.clicks).toBe(2);
+  });
+
+  it('should ignore filter-only queries', async () => {
+    await feedbackService.recordClick('tag:lang', 'bm-1');
+
+    expect(await feedbackService.countFeedback()).toBe(0);
+  });
+
+  it('should set, toggle and clear votes', async () => {
+    await feedbackService.setVote('rust', 'bm-1', 'relevant');
+    await feedbackService.setVote('rust', 'bm-2', 'irrelevant');
+
+    expect(await feedbackService.getVotes('rust')).toEqual(
+      new Map([
+        ['bm-1', 'relevant'],
+        ['bm-2', 'irrelevant'],
+      ])
+    );
+
+    await feedbackService.setVote('rust', 'bm-1', undefined);
+
+    expect(await db.searchFeedback.get(['rust', 'bm-1'])).toBeUndefined();
+  });
+
+  it('should keep clicks when a vote is cleared', async () => {
+    await feedbackService.recordClick('rust', 'bm-1');
+    await feedbackService.setVote('rust', 'bm-1', 'relevant');
+    await feedbackService.setVote('rust', 'bm-1', undefined);
+
+    const row = await db.searchFeedback.get(['rust', 'bm-1']);
+
+    expect(row?.clicks).toBe(1);
+    expect(row?.vote).toBeUndefined();
+  });
+
+  it('should return feedback from similar queries with their similarity', async () => {
+    await feedbackService.recordClick('rust async runtime', 'bm-1');
+    await feedbackService.recordClick('python packaging', 'bm-2');
+
+    const related = await feedbackService.getRelatedFeedback('rust async');
+
+    expect(related.map((r) => r.bookmarkId)).toEqual(['bm-1']);
+    expect(related[0]?.similarity).toBeCloseTo(2 / 3);
+  });
+
+  it('should reset all learned feedback', async () => {
+    await feedbackService.recordClick('rust', 'bm-1');
+    await feedbackService.setVote('python', 'bm-2', 'irrelevant');
+
+    await feedbackService.resetFeedback();
+
+    expect(await feedbackService.countFeedback()).toBe(0);
+  });
+});
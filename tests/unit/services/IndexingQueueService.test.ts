@@ -0,0 +1,490 @@
+import browser from 'webextension-polyfill';
+
+import { INDEXING_CONFIG, INDEXING_QUEUE_CONFIG } from '@/constants/config';
+import { ProviderFactory } from '@/providers/ProviderFactory';
+import { IndexingQueueService } from '@/services/IndexingQueueService';
+import { IndexingService } from '@/services/IndexingService';
+import { db } from '@/storage/database';
+import { MessageType } from '@/types/messages';
+
+jest.mock('webextension-polyfill', () => ({
+  storage: {
+    sync: {
+      get: jest.fn(),
+      set: jest.fn(),
+    },
+  },
+  runtime: {
+    sendMessage: jest.fn(),
+    onMessage: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
+  },
+}));
+
+const mockIndexingSettings = (concurrency: number, maxRetries: number) =>
+  (browser.storage.sync.get as jest.Mock).mockResolvedValue({
+    app_settings: { indexing: { concurrency, maxRetries } },
+  });
+
+const transientFailure = (bookmarkId: string) => ({
+  success: false,
+  bookmarkId,
+  providerId: '',
+  error: 'HTTP 503: Service Unavailable',
+  retryable: true,
+});
+
+const addProvider = (id: string, isActive: boolean, autoIndex?: boolean) =>
+  db.embeddingProviders.add({
+    id,
+    name: id,
+    type: 'ollama',
+    endpoint: 'http://localhost:11434',
+    modelName: 'nomic-embed-text',
+    isActive,
+    autoIndex,
+    isConnected: true,
+    createdAt: new Date(),
+  });
+
+const addBookmark = (id: string) =>
+  db.bookmarks.add({
+    id,
+    url: `https://example.com/${id}`,
+    title: id,
+    version: 0,
+    hidden: false,
+    dateAdded: new Date(),
+    lastModified: new Date(),
+  });
+
+describe('IndexingQueueService', () => {
+  const { ITEM_DELAY_MS, BACKOFF_BASE_MS } = INDEXING_QUEUE_CONFIG;
+  const { BATCH_SIZE } = INDEXING_CONFIG;
+  let queue: IndexingQueueService;
+  let indexBookmark: jest.SpyInstance;
+  let indexBookmarks: jest.SpyInstance;
+
+  beforeAll(() => {
+    INDEXING_QUEUE_CONFIG.ITEM_DELAY_MS = 0;
+    INDEXING_QUEUE_CONFIG.BACKOFF_BASE_MS = 0;
+  });
+
+  afterAll(() => {
+    INDEXING_QUEUE_CONFIG.ITEM_DELAY_MS = ITEM_DELAY_MS;
+    INDEXING_QUEUE_CONFIG.BACKOFF_BASE_MS = BACKOFF_BASE_MS;
+  });
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    IndexingQueueService.resetInstance();
+    queue = IndexingQueueService.getInstance();
+
+    (browser.runtime.sendMessage as jest.Mock)
+      .mockReset()
+      .mockResolvedValue(undefined);
+    mockIndexingSettings(1, 2);
+    indexBookmark = jest
+      .spyOn(IndexingService.prototype, 'indexBookmark')
+      .mockImplementation((bookmarkId: string) =>
+        Promise.resolve(
+          bookmarkId === 'bad'
+            ? {
+                success: false,
+                bookmarkId,
+                providerId: '',
+                error: 'provider offline',
+              }
+            : { success: true, bookmarkId, providerId: 'provider-1' }
+        )
+      );
+    // Batches go through the single-bookmark mock
+    indexBookmarks = jest
+      .spyOn(IndexingService.prototype, 'indexBookmarks')
+      .mockImplementation(function (
+        this: IndexingService,
+        bookmarkIds: string[],
+        options
+      ) {
+        return Promise.all(
+          bookmarkIds.map((id) => this.indexBookmark(id, options))
+        );
+      });
+
+    await addProvider('provider-1', true);
+    await addBookmark('a');
+    await addBookmark('b');
+    await addBookmark('bad');
+  });
+
+  afterEach(async () => {
+    indexBookmark.mockRestore();
+    indexBookmarks.mockRestore();
+    INDEXING_CONFIG.BATCH_SIZE = BATCH_SIZE;
+    await db.delete();
+  });
+
+  it('should persist a job with a pending item per bookmark', async () => {
+    const job = await queue.enqueue();
+
+    const items = await db.indexingJobItems
+      .where('jobId')
+      .equals(job.id)
+      .toArray();
+    expect(job).toMatchObject({
+      providerId: 'provider-1',
+      status: 'running',
+      total: 3,
+      processed: 0,
+    });
+    expect(items.map((item) => item.status)).toEqual([
+      'pending',
+      'pending',
+      'pending',
+    ]);
+    expect(await queue.getActiveJob()).toMatchObject({ id: job.id });
+  });
+
+  it('should index every item and record per-item results', async () => {
+    const { id } = await queue.enqueue();
+
+    const [job] = await queue.process();
+
+    const failed = await db.indexingJobItems.get([id, 'bad']);
+    expect(job).toMatchObject({
+      status: 'completed',
+      processed: 3,
+      succeeded: 2,
+      failed: 1,
+    });
+    expect(failed).toMatchObject({
+      status: 'failed',
+      error: 'provider offline',
+    });
+    expect(await queue.getActiveJob()).toBeNull();
+    expect(browser.runtime.sendMessage).toHaveBeenLastCalledWith({
+      type: MessageType.INDEXING_PROGRESS,
+      job: expect.objectContaining({ id, status: 'completed', processed: 3 }),
+    });
+  });
+
+  it('should count bookmarks with unchanged embeddings as skipped', async () => {
+    indexBookmark.mockImplementationOnce((bookmarkId: string) =>
+      Promise.resolve({
+        success: true,
+        skipped: true,
+        bookmarkId,
+        providerId: 'provider-1',
+      })
+    );
+    const { id } = await queue.enqueue({ bookmarkIds: ['a', 'b'] });
+
+    const [job] = await queue.process();
+
+    expect(job).toMatchObject({ processed: 2, succeeded: 1, skipped: 1 });
+    expect(await db.indexingJobItems.get([id, 'a'])).toMatchObject({
+      status: 'skipped',
+    });
+  });
+
+  it('should add new bookmarks to the running job and requeue finished ones', async () => {
+    const first = await queue.enqueue({ bookmarkIds: ['a', 'bad'] });
+    await db.indexingJobItems.update([first.id, 'a'], { status: 'succeeded' });
+    await db.indexingJobs.update(first.id, { processed: 1, succeeded: 1 });
+
+    const job = await queue.enqueue({ bookmarkIds: ['a', 'b', 'bad'] });
+
+    expect(job).toMatchObject({
+      id: first.id,
+      total: 3,
+      processed: 0,
+      succeeded: 0,
+    });
+    expect(
+      await db.indexingJobItems
+        .where('[jobId+status]')
+        .equals([first.id, 'pending'])
+        .count()
+    ).toBe(3);
+  });
+
+  it('should resume items left running by a suspended worker', async () => {
+    const { id } = await queue.enqueue({ bookmarkIds: ['a', 'b'] });
+    await db.indexingJobItems.update([id, 'a'], { status: 'running' });
+
+    IndexingQueueService.resetInstance();
+    const [job] = await IndexingQueueService.getInstance().process();
+
+    expect(indexBookmark).toHaveBeenCalledWith('a', {
+      providerId: 'provider-1',
+    });
+    expect(job).toMatchObject({ status: 'completed', succeeded: 2 });
+  });
+
+  it('should stop after the current item when cancelled', async () => {
+    INDEXING_CONFIG.BATCH_SIZE = 1;
+    const { id } = await queue.enqueue();
+    indexBookmark.mockImplementationOnce(async (bookmarkId: string) => {
+      await queue.cancel(id);
+      return { success: true, bookmarkId, providerId: 'provider-1' };
+    });
+
+    const [job] = await queue.process();
+
+    expect(indexBookmark).toHaveBeenCalledTimes(1);
+    expect(job).toMatchObject({ status: 'cancelled', processed: 1 });
+    expect(
+      await db.indexingJobItems
+        .where('[jobId+status]')
+        .equals([id, 'pending'])
+        .count()
+    ).toBe(2);
+  });
+
+  it('should index several bookmarks at once up to the concurrency', async () => {
+    mockIndexingSettings(2, 0);
+    INDEXING_CONFIG.BATCH_SIZE = 1;
+    let inFlight = 0;
+    let peak = 0;
+    indexBookmark.mockImplementation(async (bookmarkId: string) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return { success: true, bookmarkId, providerId: 'provider-1' };
+    });
+    await queue.enqueue();
+
+    const [job] = await queue.process();
+
+    expect(peak).toBe(2);
+    expect(job).toMatchObject({ status: 'completed', succeeded: 3 });
+  });
+
+  it('should embed claimed bookmarks together, one request per batch', async () => {
+    indexBookmark.mockRestore();
+    indexBookmarks.mockRestore();
+    const generateEmbeddings = jest.fn((texts: string[]) =>
+      Promise.resolve(texts.map(() => ({ embedding: [1, 0, 0] })))
+    );
+    const getAdapter = jest
+      .spyOn(ProviderFactory, 'getAdapter')
+      .mockReturnValue({
+        generateEmbeddings,
+      } as unknown as ReturnType<typeof ProviderFactory.getAdapter>);
+    for (let i = 0; i < 22; i++) {
+      await addBookmark(`bulk-${i}`);
+    }
+    await queue.enqueue();
+
+    const [job] = await queue.process();
+    getAdapter.mockRestore();
+
+    expect(job).toMatchObject({ status: 'completed', succeeded: 25 });
+    expect(generateEmbeddings).toHaveBeenCalledTimes(
+      Math.ceil(25 / INDEXING_CONFIG.BATCH_SIZE)
+    );
+    expect(await db.embeddings.count()).toBe(25);
+  });
+
+  it('should retry transient failures before recording them', async () => {
+    indexBookmark.mockImplementationOnce((bookmarkId: string) =>
+      Promise.resolve(transientFailure(bookmarkId))
+    );
+    const { id } = await queue.enqueue({ bookmarkIds: ['a'] });
+
+    const [job] = await queue.process();
+
+    expect(indexBookmark).toHaveBeenCalledTimes(2);
+    expect(job).toMatchObject({ status: 'completed', succeeded: 1 });
+    expect(await db.indexingJobItems.get([id, 'a'])).toMatchObject({
+      status: 'succeeded',
+      attempts: 2,
+    });
+  });
+
+  it('should pause while the provider is down and requeue those items', async () => {
+    indexBookmark.mockImplementation((bookmarkId: string) =>
+      Promise.resolve(transientFailure(bookmarkId))
+    );
+    const { id } = await queue.enqueue();
+
+    const [paused] = await queue.process();
+
+    // Each bookmark gets one attempt plus two retries
+    expect(indexBookmark).toHaveBeenCalledTimes(
+      INDEXING_QUEUE_CONFIG.PAUSE_AFTER_FAILURES * 3
+    );
+    expect(paused).toMatchObject({
+      status: 'paused',
+      processed: 0,
+      failed: 0,
+      lastError: 'HTTP 503: Service Unavailable',
+    });
+    expect(
+      await db.indexingJobItems
+        .where('[jobId+status]')
+        .equals([id, 'pending'])
+        .count()
+    ).toBe(3);
+
+    indexBookmark.mockClear();
+    expect(await queue.process()).toEqual([
+      expect.objectContaining({ status: 'paused' }),
+    ]);
+    expect(indexBookmark).not.toHaveBeenCalled();
+
+    indexBookmark.mockImplementation((bookmarkId: string) =>
+      Promise.resolve({ success: true, bookmarkId, providerId: 'provider-1' })
+    );
+    await queue.resume(id);
+    expect(await queue.process()).toEqual([
+      expect.objectContaining({ status: 'completed', succeeded: 3 }),
+    ]);
+  });
+
+  it('should queue the failed items of the latest job again', async () => {
+    await queue.enqueue();
+    await queue.process();
+    indexBookmark.mockClear();
+
+    const retry = await queue.retryFailed();
+    await queue.process();
+
+    expect(retry).toMatchObject({ total: 3, processed: 2, failed: 0 });
+    expect(indexBookmark).toHaveBeenCalledTimes(1);
+    expect(indexBookmark).toHaveBeenCalledWith('bad', {
+      providerId: 'provider-1',
+    });
+  });
+
+  it('should start a new job after the previous one finished', async () => {
+    const first = await queue.enqueue({ bookmarkIds: ['a'] });
+    await queue.process();
+
+    const second = await queue.enqueue({ bookmarkIds: ['b'] });
+
+    expect(second.id).not.toBe(first.id);
+    expect(await db.indexingJobs.get(first.id)).toBeUndefined();
+    expect(await queue.getLatestJob()).toMatchObject({ id: second.id });
+  });
+
+  it('should keep a job per provider and run them in turn', async () => {
+    await addProvider('provider-2', false, true);
+    await addProvider('provider-3', false);
+
+    const jobs = await queue.enqueueForProviders(['a']);
+    const backfill = await queue.enqueue({
+      bookmarkIds: ['a', 'b'],
+      providerId: 'provider-3',
+    });
+    const finished = await queue.process();
+
+    expect(jobs.map((job) => job.providerId)).toEqual([
+      'provider-1',
+      'provider-2',
+    ]);
+    expect(finished.map((job) => [job.providerId, job.status]).sort()).toEqual([
+      ['provider-1', 'completed'],
+      ['provider-2', 'completed'],
+      ['provider-3', 'completed'],
+    ]);
+    expect(indexBookmark).toHaveBeenCalledWith('a', {
+      providerId: 'provider-2',
+    });
+    expect(indexBookmark).toHaveBeenCalledWith('b', {
+      providerId: 'provider-3',
+    });
+    expect(await queue.getLatestJob('provider-3')).toMatchObject({
+      id: backfill.id,
+    });
+  });
+
+  it('should keep failures retryable when more bookmarks are queued', async () => {
+    const first = await queue.enqueue();
+    await queue.process();
+
+    const job = await queue.enqueue({ bookmarkIds: ['a'] });
+    await queue.process();
+    indexBookmark.mockClear();
+    await queue.retryFailed();
+    await queue.process();
+
+    expect(job).toMatchObject({ id: first.id, status: 'running' });
+    expect(indexBookmark).toHaveBeenCalledTimes(1);
+    expect(indexBookmark).toHaveBeenCalledWith('bad', {
+      providerId: 'provider-1',
+    });
+  });
+
+  it('should list the latest job of each provider', async () => {
+    await addProvider('provider-2', false);
+    const first = await queue.enqueue({ bookmarkIds: ['a'] });
+    await queue.process();
+    const second = await queue.enqueue({ bookmarkIds: ['b'] });
+    const other = await queue.enqueue({ providerId: 'provider-2' });
+
+    const latest = await queue.getLatestJobs();
+
+    expect(latest.map((job) => job.id).sort()).toEqual(
+      [second.id, other.id].sort()
+    );
+    expect(latest.map((job) => job.id)).not.toContain(first.id);
+  });
+
+  it('should queue changed bookmarks only for auto-indexing providers', async () => {
+    await addProvider('provider-2', false, true);
+    await addProvider('provider-3', false);
+
+    const jobs = await queue.enqueueChanged(['a']);
+
+    expect(jobs).toEqual([
+      expect.objectContaining({ providerId: 'provider-2', total: 1 }),
+    ]);
+  });
+
+  it('should cancel the job of a deleted provider', async () => {
+    await addProvider('provider-2', false);
+    const { id } = await queue.enqueue({ providerId: 'provider-2' });
+    await db.embeddingProviders.delete('provider-2');
+
+    const [job] = await queue.process();
+
+    expect(job).toMatchObject({ id, status: 'cancelled' });
+    expect(indexBookmark).not.toHaveBeenCalled();
+    await expect(queue.enqueue({ providerId: 'provider-2' })).rejects.toThrow(
+      'Provider with ID "provider-2" not found'
+    );
+  });
+
+  it('should resolve indexing requests with the queued job ids', async () => {
+    (browser.runtime.sendMessage as jest.Mock).mockResolvedValueOnce(['job-1']);
+
+    const jobIds = await queue.requestIndexing({ bookmarkIds: ['a'] });
+
+    expect(jobIds).toEqual(['job-1']);
+    expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+      type: MessageType.INDEXING_START,
+      bookmarkIds: ['a'],
+    });
+  });
+
+  it('should pass only progress messages to subscribers', () => {
+    const listener = jest.fn();
+    const unsubscribe = queue.onProgress(listener);
+    const handler = (browser.runtime.onMessage.addListener as jest.Mock).mock
+      .calls[0][0] as (message: unknown) => void;
+
+    handler({ type: MessageType.INDEXING_COMPLETED });
+    handler({ type: MessageType.INDEXING_PROGRESS, job: { id: 'job-1' } });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ id: 'job-1' });
+    expect(browser.runtime.onMessage.removeListener).toHaveBeenCalledWith(
+      handler
+    );
+  });
+});
@@ -0,0 +1,368 @@
+import { INDEXING_CONFIG } from '@/constants/config';
+import { ProviderFactory } from '@/providers/ProviderFactory';
+import { ProviderRequestError } from '@/providers/ProviderRequestError';
+import { BookmarkChangeService } from '@/services/BookmarkChangeService';
+import { IndexingService } from '@/services/IndexingService';
+import { db } from '@/storage/database';
+import { ContentType } from '@/types/content';
+
+jest.mock('webextension-polyfill', () => ({
+  runtime: {
+    sendMessage: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('@/providers/ProviderFactory', () => ({
+  ProviderFactory: {
+    getAdapter: jest.fn(),
+  },
+}));
+
+const generateEmbeddings = jest.fn();
+
+const addContent = async (
+  url: string,
+  type: ContentType,
+  content: string,
+  fetchError?: string
+) => {
+  await db.content.add({
+    bookmarkId: 'bm-1',
+    url,
+    type,
+    title: 'Page',
+    content,
+    contentHash: url,
+    links: [],
+    fetchedAt: Date.now(),
+    fetchError,
+  });
+};
+
+describe('IndexingService', () => {
+  const indexingService = IndexingService.getInstance();
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+
+    generateEmbeddings.mockReset();
+    generateEmbeddings.mockImplementation((texts: string[]) =>
+      Promise.resolve(texts.map(() => ({ embedding: [1, 0, 0] })))
+    );
+    (ProviderFactory.getAdapter as jest.Mock).mockReturnValue({
+      generateEmbeddings,
+    });
+
+    await db.embeddingProviders.add({
+      id: 'provider-1',
+      name: 'Test',
+      type: 'ollama',
+      endpoint: 'http://localhost:11434',
+      modelName: 'test-model',
+      isActive: true,
+      isConnected: true,
+      createdAt: new Date(),
+    });
+    await db.bookmarks.add({
+      id: 'bm-1',
+      url: 'https://example.com/',
+      title: 'Example',
+      version: 0,
+      hidden: false,
+      dateAdded: new Date(),
+      lastModified: new Date(),
+    });
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  describe('chunk embeddings', () => {
+    it('should embed crawled primary and related content as chunks', async () => {
+      const longText = Array.from(
+        { length: 80 },
+        (_, i) => `Sentence ${i} explains one more detail of the topic.`
+      ).join(' ');
+      await addContent('https://example.com/', ContentType.PRIMARY, longText);
+      await addContent(
+        'https://example.com/related',
+        ContentType.RELATED,
+        'A short related page.'
+      );
+      await addContent(
+        'https://example.com/broken',
+        ContentType.RELATED,
+        '',
+        'HTTP 500'
+      );
+
+      const result = await indexingService.indexBookmark('bm-1');
+      const chunks = await db.chunkEmbeddings.toArray();
+
+      expect(result.success).toBe(true);
+      expect(result.chunkCount).toBe(chunks.length);
+      expect(chunks.length).toBeGreaterThan(2);
+      expect(new Set(chunks.map((c) => c.url))).toEqual(
+        new Set(['https://example.com/', 'https://example.com/related'])
+      );
+      expect(generateEmbeddings).toHaveBeenCalledTimes(
+        Math.ceil((chunks.length + 1) / INDEXING_CONFIG.BATCH_SIZE)
+      );
+    });
+
+    it('should cap the number of chunks per bookmark', async () => {
+      const hugeText = Array.from(
+        { length: 2000 },
+        (_, i) => `Sentence ${i} adds filler text.`
+      ).join(' ');
+      await addContent('https://example.com/', ContentType.PRIMARY, hugeText);
+
+      await indexingService.indexBookmark('bm-1');
+
+      expect(await db.chunkEmbeddings.count()).toBe(
+        INDEXING_CONFIG.MAX_CHUNKS_PER_BOOKMARK
+      );
+      for (const [texts] of generateEmbeddings.mock.calls as [string[]][]) {
+        expect(texts.length).toBeLessThanOrEqual(INDEXING_CONFIG.BATCH_SIZE);
+      }
+    });
+
+    it('should replace stale chunks and delete them with the bookmark', async () => {
+      await addContent(
+        'https://example.com/',
+        ContentType.PRIMARY,
+        'Old text.'
+      );
+      await indexingService.indexBookmark('bm-1');
+      await db.content.update(['bm-1', 'https://example.com/'], {
+        content: 'New text.',
+      });
+      await indexingService.indexBookmark('bm-1');
+
+      const chunks = await db.chunkEmbeddings.toArray();
+      expect(chunks.map((c) => c.text)).toEqual(['New text.']);
+
+      await indexingService.deleteBookmarkEmbeddings('bm-1');
+      expect(await db.chunkEmbeddings.count()).toBe(0);
+    });
+
+    it('should keep full-precision vectors apart from binary codes', async () => {
+      await db.embeddingProviders.update('provider-1', {
+        quantization: 'binary',
+      });
+      await addContent('https://example.com/', ContentType.PRIMARY, 'Text.');
+
+      await indexingService.indexBookmark('bm-1');
+
+      const [row] = await db.embeddings.toArray();
+      const [chunk] = await db.chunkEmbeddings.toArray();
+      expect(row?.embedding).toBeUndefined();
+      expect(row?.binary).toBeInstanceOf(Uint8Array);
+      expect(chunk?.embedding).toBeUndefined();
+      expect(
+        (await db.embeddingVectors.get(['bm-1', 'provider-1']))?.embedding
+      ).toEqual(new Float32Array([1, 0, 0]));
+      expect(await db.chunkVectors.count()).toBe(1);
+      expect(await db.annNodes.count()).toBe(0);
+
+      await indexingService.deleteBookmarkEmbeddings('bm-1');
+      expect(await db.embeddingVectors.count()).toBe(0);
+      expect(await db.chunkVectors.count()).toBe(0);
+    });
+  });
+
+  describe('batch indexing', () => {
+    const addBookmark = (id: string) =>
+      db.bookmarks.add({
+        id,
+        url: `https://example.com/${id}`,
+        title: id,
+        version: 0,
+        hidden: false,
+        dateAdded: new Date(),
+        lastModified: new Date(),
+      });
+
+    it('should embed the texts of several bookmarks in one request', async () => {
+      await addContent('https://example.com/', ContentType.PRIMARY, 'Text.');
+      await addBookmark('bm-2');
+
+      const results = await indexingService.indexBookmarks([
+        'bm-1',
+        'missing',
+        'bm-2',
+      ]);
+
+      expect(results.map((r) => [r.bookmarkId, r.success])).toEqual([
+        ['bm-1', true],
+        ['missing', false],
+        ['bm-2', true],
+      ]);
+      expect(generateEmbeddings).toHaveBeenCalledTimes(1);
+      expect(generateEmbeddings.mock.calls[0][0]).toHaveLength(3);
+      expect(await db.chunkEmbeddings.count()).toBe(1);
+    });
+
+    it('should split pooled texts into requests of the batch size', async () => {
+      const ids = Array.from({ length: 25 }, (_, i) => `bm-${i + 2}`);
+      for (const id of ids) {
+        await addBookmark(id);
+      }
+      let next = 0;
+      generateEmbeddings.mockImplementation((texts: string[]) =>
+        Promise.resolve(texts.map(() => ({ embedding: [0, 1, ++next] })))
+      );
+
+      const results = await indexingService.indexBookmarks(ids);
+
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(generateEmbeddings).toHaveBeenCalledTimes(
+        Math.ceil(ids.length / INDEXING_CONFIG.BATCH_SIZE)
+      );
+      for (const [texts] of generateEmbeddings.mock.calls) {
+        expect(texts.length).toBeLessThanOrEqual(INDEXING_CONFIG.BATCH_SIZE);
+      }
+      const last = await db.embeddings.get([ids.at(-1)!, 'provider-1']);
+      expect(last?.embedding?.[2]).toBe(ids.length);
+    });
+
+    it('should embed each bookmark on its own when the batch is rejected', async () => {
+      await addBookmark('bm-2');
+      generateEmbeddings.mockRejectedValueOnce(
+        new ProviderRequestError('HTTP 413: Payload Too Large', {
+          status: 413,
+          retryable: false,
+        })
+      );
+
+      const results = await indexingService.indexBookmarks(['bm-1', 'bm-2']);
+
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(generateEmbeddings).toHaveBeenCalledTimes(3);
+    });
+
+    it('should leave transient batch failures to the caller to retry', async () => {
+      await addBookmark('bm-2');
+      generateEmbeddings.mockRejectedValueOnce(
+        new ProviderRequestError('HTTP 503: Service Unavailable', {
+          status: 503,
+          retryable: true,
+        })
+      );
+
+      const results = await indexingService.indexBookmarks(['bm-1', 'bm-2']);
+
+      expect(results).toEqual([
+        expect.objectContaining({ success: false, retryable: true }),
+        expect.objectContaining({ success: false, retryable: true }),
+      ]);
+      expect(generateEmbeddings).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('incremental indexing', () => {
+    it('should skip bookmarks whose embedded texts are unchanged', async () => {
+      await addContent('https://example.com/', ContentType.PRIMARY, 'Text.');
+      await indexingService.indexBookmark('bm-1');
+      generateEmbeddings.mockClear();
+
+      const unchanged = await indexingService.indexBookmark('bm-1');
+      await db.bookmarks.update('bm-1', { aiSummary: 'A new summary.' });
+      const summarized = await indexingService.indexBookmark('bm-1');
+      await db.content.update(['bm-1', 'https://example.com/'], {
+        content: 'Edited text.',
+      });
+      const recrawled = await indexingService.indexBookmark('bm-1');
+      const forced = await indexingService.indexBookmark('bm-1', {
+        force: true,
+      });
+
+      expect(unchanged.skipped).toBe(true);
+      expect(summarized.skipped).toBeUndefined();
+      expect(recrawled.skipped).toBeUndefined();
+      expect(forced.skipped).toBeUndefined();
+      expect(generateEmbeddings).toHaveBeenCalledTimes(3);
+    });
+
+    it('should re-embed when the provider model changes', async () => {
+      await indexingService.indexBookmark('bm-1');
+      await db.embeddingProviders.update('provider-1', {
+        modelName: 'other-model',
+      });
+
+      const result = await indexingService.indexBookmark('bm-1');
+
+      expect(result.skipped).toBeUndefined();
+      expect(generateEmbeddings).toHaveBeenCalledTimes(2);
+    });
+
+    it('should track staleness for each provider independently', async () => {
+      await db.embeddingProviders.add({
+        id: 'provider-2',
+        name: 'Second',
+        type: 'ollama',
+        endpoint: 'http://localhost:11434',
+        modelName: 'second-model',
+        isActive: false,
+        isConnected: true,
+        createdAt: new Date(),
+      });
+      await indexingService.indexBookmark('bm-1');
+      const bookmark = (await db.bookmarks.get('bm-1'))!;
+
+      const fresh = await indexingService.getEmbeddingStatuses([bookmark]);
+      const unindexed = await indexingService.getEmbeddingStatuses(
+        [bookmark],
+        'provider-2'
+      );
+      await indexingService.indexBookmark('bm-1', {
+        providerId: 'provider-2',
+      });
+      const edited = {
+        ...bookmark,
+        userDescription: 'My notes',
+        version: bookmark.version + 1,
+      };
+      await db.bookmarks.put(edited);
+      const stale = await indexingService.getEmbeddingStatuses([edited]);
+
+      expect(fresh.get('bm-1')).toEqual({
+        providerId: 'provider-1',
+        isIndexed: true,
+        isUpToDate: true,
+      });
+      expect(unindexed.get('bm-1')).toMatchObject({
+        isIndexed: false,
+        isUpToDate: false,
+      });
+      expect(stale.get('bm-1')).toMatchObject({
+        isIndexed: true,
+        isUpToDate: false,
+      });
+      expect(await db.embeddings.get(['bm-1', 'provider-2'])).toMatchObject({
+        modelName: 'second-model',
+      });
+    });
+
+    it('should mark embeddings stale when a change is recorded without re-preparing inputs', async () => {
+      await indexingService.indexBookmark('bm-1');
+      await BookmarkChangeService.getInstance().recordChanges(['bm-1']);
+      const changed = (await db.bookmarks.get('bm-1'))!;
+      const contentSpy = jest.spyOn(db.content, 'where');
+
+      const stale = await indexingService.getEmbeddingStatuses([changed]);
+      expect(contentSpy).not.toHaveBeenCalled();
+      contentSpy.mockRestore();
+
+      const result = await indexingService.indexBookmark('bm-1');
+      const refreshed = await indexingService.getEmbeddingStatuses([changed]);
+
+      expect(stale.get('bm-1')?.isUpToDate).toBe(false);
+      expect(result.skipped).toBe(true);
+      expect(refreshed.get('bm-1')?.isUpToDate).toBe(true);
+      expect(generateEmbeddings).toHaveBeenCalledTimes(1);
+    });
+  });
+});
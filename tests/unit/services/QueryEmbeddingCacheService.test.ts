@@ -0,0 +1,67 @@
+import type { EmbeddingProvider } from '@/types/provider';
+
+import { QueryEmbeddingCacheService } from '@/services/QueryEmbeddingCacheService';
+import { db } from '@/storage/database';
+
+const provider: EmbeddingProvider = {
+  id: 'provider-1',
+  name: 'Test',
+  type: 'ollama',
+  endpoint: 'http://localhost:11434',
+  modelName: 'test-model',
+  isActive: true,
+  isConnected: true,
+  createdAt: new Date(),
+};
+
+const VECTOR = new Float32Array([0.1, 0.2, 0.3]);
+
+describe('QueryEmbeddingCacheService', () => {
+  let cache: QueryEmbeddingCacheService;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    QueryEmbeddingCacheService.resetInstance();
+    cache = QueryEmbeddingCacheService.getInstance();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should serve persisted embeddings after a restart', async () => {
+    await cache.set(provider, 'rust async', VECTOR);
+    QueryEmbeddingCacheService.resetInstance();
+
+    const restored = await QueryEmbeddingCacheService.getInstance().get(
+      provider,
+      ' rust   async '
+    );
+
+    expect(restored).toEqual(VECTOR);
+  });
+
+  it('should key entries by model, prefix and suffix', async () => {
+    await cache.set(provider, 'rust async', VECTOR);
+
+    expect(
+      await cache.get({ ...provider, modelName: 'other' }, 'rust async')
+    ).toBeUndefined();
+    expect(
+      await cache.get({ ...provider, documentPrefix: 'query: ' }, 'rust async')
+    ).toBeUndefined();
+  });
+
+  it('should invalidate every entry of a provider', async () => {
+    await cache.set(provider, 'rust async', VECTOR);
+    await cache.set({ ...provider, id: 'provider-2' }, 'rust async', VECTOR);
+
+    await cache.invalidateProvider('provider-1');
+
+    expect(await cache.get(provider, 'rust async')).toBeUndefined();
+    expect(
+      await cache.get({ ...provider, id: 'provider-2' }, 'rust async')
+    ).toEqual(VECTOR);
+  });
+});
@@ -0,0 +1,73 @@
+import { QueryExpansionService } from '@/services/QueryExpansionService';
+import { db } from '@/storage/database';
+
+const mockRewriteQuery = jest.fn();
+const mockWriteHypotheticalDocument = jest.fn();
+
+jest.mock('@/services/AIService', () => ({
+  AIService: {
+    getInstance: () => ({
+      rewriteQuery: mockRewriteQuery,
+      writeHypotheticalDocument: mockWriteHypotheticalDocument,
+    }),
+  },
+}));
+
+describe('QueryExpansionService', () => {
+  let expansionService: QueryExpansionService;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    mockRewriteQuery.mockReset();
+    mockWriteHypotheticalDocument.mockReset();
+    QueryExpansionService.resetInstance();
+    expansionService = QueryExpansionService.getInstance();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should not call the model when expansion is off', async () => {
+    expect(await expansionService.expand('rust async', 'off')).toEqual([]);
+    expect(mockRewriteQuery).not.toHaveBeenCalled();
+  });
+
+  it('should cache rewrites per normalized query', async () => {
+    mockRewriteQuery.mockResolvedValue(['tokio runtime', 'rust futures']);
+
+    await expansionService.expand('Rust  async', 'rewrite');
+    const cached = await expansionService.expand('rust async', 'rewrite');
+
+    expect(cached).toEqual(['tokio runtime', 'rust futures']);
+    expect(mockRewriteQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cache hypothetical documents separately from rewrites', async () => {
+    mockRewriteQuery.mockResolvedValue(['tokio runtime']);
+    mockWriteHypotheticalDocument.mockResolvedValue('Rust async uses futures.');
+
+    await expansionService.expand('rust async', 'rewrite');
+    const hyde = await expansionService.expand('rust async', 'hyde');
+
+    expect(hyde).toEqual(['Rust async uses futures.']);
+    expect(mockWriteHypotheticalDocument).toHaveBeenCalledWith('rust async', {
+      signal: undefined,
+    });
+  });
+
+  it('should refresh expired entries', async () => {
+    await db.queryExpansions.put({
+      query: 'rust async',
+      mode: 'rewrite',
+      expansions: ['stale'],
+      createdAt: new Date('2020-01-01'),
+    });
+    mockRewriteQuery.mockResolvedValue(['tokio runtime']);
+
+    expect(await expansionService.expand('rust async', 'rewrite')).toEqual([
+      'tokio runtime',
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import browser from 'webextension-polyfill';
+
+import { SEARCH_CONFIG } from '@/constants/config';
+import { SearchHistoryService } from '@/services/SearchHistoryService';
+import { SearchService } from '@/services/SearchService';
+import { db } from '@/storage/database';
+import { MessageType } from '@/types/messages';
+
+jest.mock('webextension-polyfill', () => ({
+  runtime: {
+    sendMessage: jest.fn(),
+  },
+}));
+
+const mockResults = (ids: string[]) =>
+  ids.map((id) => ({
+    bookmark: {
+      id,
+      url: `https://example.com/${id}`,
+      title: id,
+      version: 0,
+      dateAdded: new Date(),
+      lastModified: new Date(),
+    },
+    score: 1,
+    providerId: 'provider-1',
+  }));
+
+describe('SearchHistoryService', () => {
+  let historyService: SearchHistoryService;
+  let search: jest.SpyInstance;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    SearchHistoryService.resetInstance();
+    historyService = SearchHistoryService.getInstance();
+    search = jest.spyOn(SearchService.prototype, 'search');
+  });
+
+  afterEach(async () => {
+    search.mockRestore();
+    await db.delete();
+  });
+
+  describe('history', () => {
+    it('should record query, parsed filters, options and result ids', async () => {
+      await historyService.recordSearch('rust tag:lang', { mode: 'hybrid' }, [
+        'a',
+        'b',
+      ]);
+
+      const [entry] = await historyService.getHistory();
+
+      expect(entry?.query).toBe('rust tag:lang');
+      expect(entry?.filters.tags).toEqual(['lang']);
+      expect(entry?.options).toEqual({ mode: 'hybrid' });
+      expect(entry?.resultIds).toEqual(['a', 'b']);
+    });
+
+    it('should refresh the latest entry when a search is repeated', async () => {
+      await historyService.recordSearch('rust', { mode: 'hybrid' }, ['a']);
+      await historyService.recordSearch('rust', { mode: 'hybrid' }, ['a', 'b']);
+      await historyService.recordSearch('rust', { mode: 'semantic' }, []);
+
+      const history = await historyService.getHistory();
+
+      expect(history).toHaveLength(2);
+      expect(history[1]?.resultIds).toEqual(['a', 'b']);
+    });
+
+    it('should keep only the most recent entries', async () => {
+      for (let i = 0; i < SEARCH_CONFIG.HISTORY_LIMIT + 2; i++) {
+        await historyService.recordSearch(`query ${i}`, {}, []);
+      }
+
+      const history = await historyService.getHistory();
+
+      expect(history).toHaveLength(SEARCH_CONFIG.HISTORY_LIMIT);
+      expect(history[0]?.query).toBe(
+        `query ${SEARCH_CONFIG.HISTORY_LIMIT + 1}`
+      );
+    });
+  });
+
+  describe('saved searches', () => {
+    it('should flag bookmarks that newly match since the last run', async () => {
+      const saved = await historyService.saveSearch('rust', {}, ['a', 'b']);
+      search.mockResolvedValue(mockResults(['a', 'c']));
+
+      const updated = await historyService.runSavedSearch(saved.id);
+
+      expect(search).toHaveBeenCalledWith('rust', {
+        limit: SEARCH_CONFIG.DEFAULT_RESULTS_LIMIT,
+      });
+      expect(updated.resultIds).toEqual(['a', 'c']);
+      expect(updated.newMatchIds).toEqual(['c']);
+    });
+
+    it('should keep unseen matches across runs until marked seen', async () => {
+      const saved = await historyService.saveSearch('rust', {}, ['a']);
+      search.mockResolvedValueOnce(mockResults(['a', 'b']));
+      search.mockResolvedValueOnce(mockResults(['b', 'c']));
+
+      await historyService.runSavedSearch(saved.id);
+      const updated = await historyService.runSavedSearch(saved.id);
+
+      expect(updated.newMatchIds).toEqual(['b', 'c']);
+
+      await historyService.markSeen(saved.id);
+
+      expect((await historyService.getSavedSearches())[0]?.newMatchIds).toEqual(
+        []
+      );
+    });
+
+    it('should not duplicate an existing saved search', async () => {
+      const first = await historyService.saveSearch('rust', {}, []);
+      const second = await historyService.saveSearch(' rust ', {}, []);
+
+      expect(second.id).toBe(first.id);
+      expect(await db.savedSearches.count()).toBe(1);
+    });
+
+    it('should record failures and continue with other saved searches', async () => {
+      await historyService.saveSearch('broken', {}, []);
+      await historyService.saveSearch('rust', {}, []);
+      search.mockImplementation((query: string) =>
+        query === 'broken'
+          ? Promise.reject(new Error('provider offline'))
+          : Promise.resolve(mockResults(['a']))
+      );
+
+      const unseen = await historyService.runSavedSearches();
+
+      const saved = await historyService.getSavedSearches();
+      const broken = saved.find((entry) => entry.query === 'broken');
+      const rust = saved.find((entry) => entry.query === 'rust');
+      expect(unseen).toBe(1);
+      expect(broken?.lastError).toBe('provider offline');
+      expect(rust?.newMatchIds).toEqual(['a']);
+    });
+  });
+
+  it('should notify the background when indexing completes', async () => {
+    await historyService.notifyIndexingCompleted();
+
+    expect(browser.runtime.sendMessage).toHaveBeenCalledWith({
+      type: MessageType.INDEXING_COMPLETED,
+    });
+  });
+});
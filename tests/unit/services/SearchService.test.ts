@@ -0,0 +1,1011 @@
+import type { SearchResult } from '@/services/SearchService';
+
+import { ProviderFactory } from '@/providers/ProviderFactory';
+import { QueryEmbeddingCacheService } from '@/services/QueryEmbeddingCacheService';
+import { SearchService } from '@/services/SearchService';
+import { TextIndexService } from '@/services/TextIndexService';
+import { VectorScoringService } from '@/services/VectorScoringService';
+import { db } from '@/storage/database';
+import { ContentType } from '@/types/content';
+import { encodeEmbedding } from '@/utils/quantization';
+
+jest.mock('@/providers/ProviderFactory', () => ({
+  ProviderFactory: {
+    getAdapter: jest.fn(),
+  },
+}));
+
+const mockRerank = jest.fn();
+const mockRewriteQuery = jest.fn();
+
+jest.mock('@/services/AIService', () => ({
+  AIService: {
+    getInstance: () => ({
+      rerank: mockRerank,
+      rewriteQuery: mockRewriteQuery,
+    }),
+  },
+}));
+
+const generateEmbedding = jest.fn();
+const generateEmbeddings = jest.fn((texts: string[], ...rest: unknown[]) =>
+  Promise.all(texts.map((text) => generateEmbedding(text, ...rest)))
+);
+
+const addBookmark = async (
+  id: string,
+  title: string,
+  embedding: number[],
+  overrides: Record<string, unknown> = {}
+) => {
+  await db.bookmarks.add({
+    id,
+    url: `https://example.com/${id}`,
+    title,
+    version: 0,
+    hidden: false,
+    dateAdded: new Date('2024-01-01'),
+    lastModified: new Date('2024-01-01'),
+    ...overrides,
+  });
+  await db.embeddings.add({
+    bookmarkId: id,
+    providerId: 'provider-1',
+    embedding: new Float32Array(embedding),
+    createdAt: new Date(),
+    modelName: 'test-model',
+  });
+};
+
+describe('SearchService', () => {
+  let searchService: SearchService;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+
+    generateEmbedding.mockReset();
+    generateEmbeddings.mockClear();
+    await QueryEmbeddingCacheService.getInstance().clear();
+    (ProviderFactory.getAdapter as jest.Mock).mockReturnValue({
+      generateEmbedding,
+      generateEmbeddings,
+    });
+
+    await db.embeddingProviders.add({
+      id: 'provider-1',
+      name: 'Test',
+      type: 'ollama',
+      endpoint: 'http://localhost:11434',
+      modelName: 'test-model',
+      isActive: true,
+      isConnected: true,
+      createdAt: new Date(),
+    });
+
+    SearchService.resetInstance();
+    searchService = SearchService.getInstance();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  describe('search', () => {
+    it('should rank bookmarks by cosine similarity', async () => {
+      await addBookmark('near', 'Near', [1, 0, 0]);
+      await addBookmark('far', 'Far', [0.6, 0.8, 0]);
+      await addBookmark('unrelated', 'Unrelated', [0, 0, 1]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search('query');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['near', 'far']);
+      expect(results[0]?.scores?.semantic).toBeCloseTo(1);
+    });
+
+    it('should exclude hidden bookmarks', async () => {
+      await addBookmark('hidden', 'Hidden', [1, 0, 0], { hidden: true });
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search('query');
+
+      expect(results).toHaveLength(0);
+    });
+  });
+
+  describe('hybrid mode', () => {
+    it('should surface exact identifier matches buried by similarity', async () => {
+      await addBookmark('semantic-1', 'Networking overview', [1, 0, 0]);
+      await addBookmark('semantic-2', 'TCP handshake explained', [0.9, 0.1, 0]);
+      await addBookmark(
+        'exact',
+        'Fixing ERR_SSL_PROTOCOL_ERROR',
+        [0.5, 0.5, 0.7]
+      );
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const semantic = await searchService.search('ERR_SSL_PROTOCOL_ERROR');
+      const hybrid = await searchService.search('ERR_SSL_PROTOCOL_ERROR', {
+        mode: 'hybrid',
+        semanticWeight: 0.3,
+      });
+
+      expect(semantic[0]?.bookmark.id).toBe('semantic-1');
+      expect(hybrid[0]?.bookmark.id).toBe('exact');
+      expect(hybrid[0]?.scores?.lexical).toBe(1);
+      expect(hybrid[0]?.scores?.matchedTerms).toContain(
+        'err_ssl_protocol_error'
+      );
+    });
+
+    it('should include crawled content in lexical scoring', async () => {
+      await addBookmark('page', 'Untitled page', [0, 1, 0]);
+      await db.content.add({
+        bookmarkId: 'page',
+        url: 'https://example.com/page',
+        type: ContentType.PRIMARY,
+        title: 'Untitled page',
+        content: 'Upgrading helm charts without downtime',
+        contentHash: 'hash',
+        links: [],
+        fetchedAt: Date.now(),
+      });
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search('helm', { mode: 'hybrid' });
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['page']);
+      expect(results[0]?.scores?.semantic).toBeUndefined();
+    });
+
+    it('should reuse the lexical index until a bookmark changes', async () => {
+      await addBookmark('page', 'Helm charts', [0, 1, 0]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+      const readContent = jest.spyOn(db.content, 'toArray');
+
+      await searchService.search('helm', { mode: 'hybrid' });
+      await searchService.search('charts', { mode: 'hybrid' });
+      await db.bookmarks.update('page', {
+        title: 'Kustomize overlays',
+        version: 1,
+      });
+      const renamed = await searchService.search('kustomize', {
+        mode: 'hybrid',
+      });
+      const reads = readContent.mock.calls.length;
+      readContent.mockRestore();
+
+      expect(reads).toBe(2);
+      expect(renamed.map((r) => r.bookmark.id)).toEqual(['page']);
+    });
+  });
+
+  describe('query filters', () => {
+    beforeEach(async () => {
+      await addBookmark('gh', 'Helm chart upgrades', [1, 0, 0], {
+        url: 'https://github.com/helm/helm',
+        dateAdded: new Date(2024, 2, 1),
+      });
+      await addBookmark('old', 'Helm chart basics', [1, 0, 0], {
+        url: 'https://github.com/old/helm',
+        dateAdded: new Date(2023, 5, 1),
+      });
+      await addBookmark('blog', 'Helm upgrade tips', [1, 0, 0], {
+        url: 'https://blog.example.com/helm',
+        dateAdded: new Date(2024, 3, 1),
+        folderPath: 'Work/Infra',
+      });
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+    });
+
+    it('should pre-filter candidates by site and date', async () => {
+      const results = await searchService.search(
+        'site:github.com after:2024-01 helm'
+      );
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['gh']);
+      expect(generateEmbedding).toHaveBeenCalledWith(
+        'helm',
+        expect.anything(),
+        expect.anything(),
+        undefined,
+        undefined,
+        undefined
+      );
+    });
+
+    it('should filter by folder prefix', async () => {
+      const results = await searchService.search('folder:work helm');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['blog']);
+    });
+
+    it('should list filtered bookmarks without embedding an empty query', async () => {
+      const results = await searchService.search('site:github.com');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['gh', 'old']);
+      expect(generateEmbedding).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('aggregate search', () => {
+    const addProvider = async (id: string, isConnected = true) => {
+      await db.embeddingProviders.add({
+        id,
+        name: id,
+        type: 'ollama',
+        endpoint: `http://${id}`,
+        modelName: id,
+        isActive: false,
+        isConnected,
+        createdAt: new Date(),
+      });
+    };
+
+    const addEmbedding = async (
+      bookmarkId: string,
+      providerId: string,
+      embedding: number[]
+    ) => {
+      await db.embeddings.add({
+        bookmarkId,
+        providerId,
+        embedding: new Float32Array(embedding),
+        createdAt: new Date(),
+        modelName: providerId,
+      });
+    };
+
+    beforeEach(async () => {
+      await addBookmark('both', 'Agreed by both', [1, 0]);
+      await addBookmark('first', 'Only provider one', [0.8, 0.6]);
+      await addBookmark('second', 'Only provider two', [0, 1]);
+      await addProvider('provider-2');
+      await addEmbedding('both', 'provider-2', [0, 1]);
+      await addEmbedding('second', 'provider-2', [0, 1]);
+      await addEmbedding('first', 'provider-2', [1, 0]);
+
+      generateEmbedding.mockImplementation(
+        async (_text: string, endpoint: string) => ({
+          embedding: endpoint === 'http://provider-2' ? [0, 1] : [1, 0],
+        })
+      );
+    });
+
+    it('should fuse normalized scores from every connected provider', async () => {
+      const results = await searchService.search('query', {
+        aggregate: true,
+      });
+
+      expect(results[0]?.bookmark.id).toBe('both');
+      expect(results[0]?.providerId).toBe('aggregate');
+      expect(results[0]?.contributingProviders).toEqual([
+        'provider-1',
+        'provider-2',
+      ]);
+      expect(
+        results.find((r) => r.bookmark.id === 'second')?.contributingProviders
+      ).toEqual(['provider-2']);
+    });
+
+    it('should skip disconnected providers and failing providers', async () => {
+      await addProvider('offline', false);
+      await addEmbedding('first', 'offline', [1, 0]);
+      generateEmbedding.mockImplementation(
+        async (_text: string, endpoint: string) => {
+          if (endpoint === 'http://provider-2') {
+            throw new Error('connection refused');
+          }
+          return { embedding: [1, 0] };
+        }
+      );
+
+      const results = await searchService.search('query', {
+        aggregate: true,
+      });
+
+      expect(generateEmbedding).toHaveBeenCalledTimes(2);
+      expect(
+        results.every(
+          (r) =>
+            r.contributingProviders?.length === 1 &&
+            r.contributingProviders[0] === 'provider-1'
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('aggregate search cancellation', () => {
+    it('should pass the signal to scoring for every provider', async () => {
+      await addBookmark('near', 'Near', [1, 0, 0]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+      const score = jest.spyOn(VectorScoringService.prototype, 'score');
+      const controller = new AbortController();
+
+      await searchService.search('query', {
+        aggregate: true,
+        signal: controller.signal,
+      });
+
+      expect(score).toHaveBeenCalled();
+      for (const call of score.mock.calls) {
+        expect(call[5]?.signal).toBe(controller.signal);
+      }
+      score.mockRestore();
+    });
+  });
+
+  describe('document scoring', () => {
+    let score: jest.SpyInstance;
+
+    beforeEach(() => {
+      score = jest.spyOn(VectorScoringService.prototype, 'score');
+    });
+
+    afterEach(() => {
+      score.mockRestore();
+    });
+
+    it('should let the scorer answer from the ANN graph for a page of results', async () => {
+      await addBookmark('a', 'A', [1, 0, 0]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      await searchService.search('query', { limit: 2 });
+
+      const documents = score.mock.calls.find(
+        ([target]) => target === 'documents'
+      );
+      expect(documents?.[5]?.minApproximate).toBe(2);
+    });
+
+    it('should pass provisional matches to onPartial', async () => {
+      await addBookmark('a', 'A', [1, 0, 0]);
+      await addBookmark('b', 'B', [0.8, 0.6, 0]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+      score.mockRestore();
+      const scoreVectors = VectorScoringService.prototype.score;
+      score = jest.spyOn(VectorScoringService.prototype, 'score');
+      score.mockImplementation(function (
+        this: VectorScoringService,
+        ...args: Parameters<VectorScoringService['score']>
+      ) {
+        if (args[0] === 'documents') {
+          args[5]?.onPartial?.([{ bookmarkId: 'b', score: 0.8 }]);
+        }
+        return scoreVectors.apply(this, args);
+      });
+      const onPartial = jest.fn();
+
+      const results = await searchService.search('query', { onPartial });
+
+      expect(onPartial).toHaveBeenCalledTimes(1);
+      expect(
+        onPartial.mock.calls[0][0].map((r: SearchResult) => r.bookmark.id)
+      ).toEqual(['b']);
+      expect(results.map((r) => r.bookmark.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('quantized storage', () => {
+    const quantizeAll = async (mode: 'int8' | 'binary') => {
+      const embeddings = await db.embeddings.toArray();
+      await db.embeddings.bulkPut(
+        embeddings.map(({ embedding, ...row }) => ({
+          ...row,
+          ...encodeEmbedding(embedding!, mode),
+        }))
+      );
+      await db.embeddingVectors.bulkPut(
+        embeddings.map(({ bookmarkId, providerId, embedding }) => ({
+          bookmarkId,
+          providerId,
+          embedding: embedding!,
+        }))
+      );
+    };
+
+    it('should rescore binary first-pass candidates at full precision', async () => {
+      await addBookmark('near', 'Near', [1, 0.1, 0]);
+      await addBookmark('far', 'Far', [0.6, 0.8, 0]);
+      await addBookmark('opposite', 'Opposite', [-1, -0.2, 0]);
+      await quantizeAll('binary');
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search('query');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['near', 'far']);
+      expect(results[0]?.score).toBeCloseTo(1 / Math.sqrt(1.01), 6);
+      expect(results[1]?.score).toBeCloseTo(0.6, 6);
+    });
+
+    it('should rank int8 rows by their rescored similarity', async () => {
+      for (let i = 0; i < 6; i++) {
+        await addBookmark(`bm-${i}`, `Bookmark ${i}`, [1, i / 10, 0]);
+      }
+      await quantizeAll('int8');
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search('query', { limit: 1 });
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['bm-0']);
+      expect(results[0]?.score).toBeCloseTo(1, 3);
+    });
+  });
+
+  describe('passages', () => {
+    const addChunk = async (
+      bookmarkId: string,
+      chunkIndex: number,
+      text: string,
+      embedding: number[],
+      url = `https://example.com/${bookmarkId}`
+    ) => {
+      await db.chunkEmbeddings.add({
+        bookmarkId,
+        providerId: 'provider-1',
+        url,
+        chunkIndex,
+        text,
+        embedding: new Float32Array(embedding),
+        createdAt: new Date(),
+        modelName: 'test-model',
+      });
+    };
+
+    it('should score bookmarks by their best-matching chunk', async () => {
+      await addBookmark('a', 'A', [0, 1, 0]);
+      await addBookmark('b', 'B', [0.7, 0.7, 0]);
+      await addChunk('a', 0, 'Unrelated intro', [0, 0, 1]);
+      await addChunk('a', 1, 'The matching passage', [1, 0, 0]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search('query');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['a', 'b']);
+      expect(results[0]?.score).toBeCloseTo(1);
+      expect(results[0]?.passage?.text).toBe('The matching passage');
+      expect(results[1]?.passage).toBeUndefined();
+    });
+
+    it('should return bookmarks matched only through related content', async () => {
+      await db.bookmarks.add({
+        id: 'crawled',
+        url: 'https://example.com/crawled',
+        title: 'Crawled',
+        version: 0,
+        hidden: false,
+        dateAdded: new Date('2024-01-01'),
+        lastModified: new Date('2024-01-01'),
+      });
+      await addChunk(
+        'crawled',
+        0,
+        'Deep link passage',
+        [1, 0, 0],
+        'https://example.com/related'
+      );
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search('query', { mode: 'hybrid' });
+
+      expect(results[0]?.bookmark.id).toBe('crawled');
+      expect(results[0]?.passage?.url).toBe('https://example.com/related');
+    });
+  });
+
+  describe('explain mode', () => {
+    const embeddingsByText: Record<string, number[]> = {
+      query: [1, 0, 0],
+      'rust query': [1, 0, 0],
+      Rust: [1, 0, 0],
+      'Systems programming notes': [0, 1, 0],
+    };
+
+    beforeEach(() => {
+      generateEmbedding.mockImplementation((text: string) =>
+        Promise.resolve({ embedding: embeddingsByText[text] ?? [0, 0, 1] })
+      );
+    });
+
+    it('should not explain results unless asked', async () => {
+      await addBookmark('a', 'Rust', [1, 0, 0]);
+
+      const [result] = await searchService.search('query');
+
+      expect(result?.explanation).toBeUndefined();
+    });
+
+    it('should report component contributions and raw scores', async () => {
+      await addBookmark('a', 'Rust', [0.8, 0.6, 0], {
+        userDescription: 'Systems programming notes',
+      });
+
+      const [result] = await searchService.search('query', { explain: true });
+      const explanation = result!.explanation!;
+
+      expect(explanation.components).toEqual([
+        { component: 'title', similarity: 1, share: 1 },
+        { component: 'userDescription', similarity: 0, share: 0 },
+      ]);
+      expect(explanation.componentProviderId).toBe('provider-1');
+      expect(explanation.rawScores.semantic).toBeCloseTo(0.8);
+      expect(explanation.normalizedScores.final).toBe(result!.score);
+      expect(explanation.filters).toEqual(['similarity ≥ 0.3']);
+    });
+
+    it('should embed the components of all results in one request', async () => {
+      await addBookmark('a', 'Rust', [1, 0, 0]);
+      await addBookmark('b', 'Rust', [0.8, 0.6, 0], {
+        userDescription: 'Systems programming notes',
+      });
+      const controller = new AbortController();
+
+      const [first] = await searchService.search('query', {
+        explain: true,
+        signal: controller.signal,
+      });
+
+      const provider = await db.embeddingProviders.get('provider-1');
+      expect(
+        await QueryEmbeddingCacheService.getInstance().get(provider!, 'Rust')
+      ).toBeUndefined();
+      expect(generateEmbeddings).toHaveBeenCalledTimes(1);
+      expect(generateEmbeddings.mock.calls[0]![0]).toEqual([
+        'Rust',
+        'Systems programming notes',
+      ]);
+      expect(generateEmbeddings.mock.calls[0]![5]).toBe(controller.signal);
+      expect(first!.explanation!.components).toEqual([
+        { component: 'title', similarity: 1, share: 1 },
+      ]);
+    });
+
+    it('should list matched terms, filters and fusion boosts', async () => {
+      await addBookmark('a', 'Rust', [1, 0, 0], {
+        url: 'https://docs.rs/query',
+      });
+
+      const [result] = await searchService.search('site:docs.rs rust query', {
+        explain: true,
+        mode: 'hybrid',
+      });
+      const explanation = result!.explanation!;
+
+      expect(explanation.matchedTerms).toEqual([
+        { term: 'rust', fields: ['title'] },
+        { term: 'query', fields: ['url'] },
+      ]);
+      expect(explanation.filters).toContain('site:docs.rs');
+      expect(explanation.rawScores.bm25).toBeGreaterThan(0);
+      expect(explanation.rawScores.rrf).toBeGreaterThan(0);
+      expect(explanation.normalizedScores.lexical).toBe(1);
+      expect(explanation.boosts[0]).toMatch(
+        /semantic rank 1 .* keyword rank 1/
+      );
+    });
+  });
+
+  describe('diversification', () => {
+    beforeEach(async () => {
+      await addBookmark('docs-a', 'Docs A', [1, 0, 0], {
+        url: 'https://docs.example.org/a',
+      });
+      await addBookmark('docs-b', 'Docs B', [0.99, 0.14, 0], {
+        url: 'https://docs.example.org/b',
+      });
+      await addBookmark('blog', 'Blog', [0.8, 0, 0.6], {
+        url: 'https://blog.example.net/post',
+      });
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+    });
+
+    it('should keep relevance order by default', async () => {
+      const results = await searchService.search('query');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual([
+        'docs-a',
+        'docs-b',
+        'blog',
+      ]);
+    });
+
+    it('should promote a distinct result over a near-duplicate with MMR', async () => {
+      const results = await searchService.search('query', {
+        diversify: true,
+        diversityLambda: 0.3,
+      });
+
+      expect(results.map((r) => r.bookmark.id)).toEqual([
+        'docs-a',
+        'blog',
+        'docs-b',
+      ]);
+    });
+
+    it('should demote results past the per-domain cap', async () => {
+      const results = await searchService.search('query', {
+        maxPerDomain: 1,
+        limit: 2,
+      });
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['docs-a', 'blog']);
+    });
+
+    it('should explain rank changes caused by diversification', async () => {
+      const results = await searchService.search('query', {
+        maxPerDomain: 1,
+        explain: true,
+      });
+
+      expect(results[2]?.bookmark.id).toBe('docs-b');
+      expect(results[2]?.explanation?.boosts).toContain(
+        'Diversification moved this result from rank 2 to 3'
+      );
+    });
+  });
+
+  describe('recency', () => {
+    const now = new Date();
+    const daysAgo = (days: number) =>
+      new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+    it('should blend similarity with recency when weighted', async () => {
+      await addBookmark('old', 'Old', [1, 0, 0], { dateAdded: daysAgo(720) });
+      await addBookmark('new', 'New', [0.9, 0.1, 0], {
+        dateAdded: daysAgo(1),
+      });
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const plain = await searchService.search('query');
+      const recent = await searchService.search('query', {
+        recencyWeight: 0.3,
+        explain: true,
+      });
+
+      expect(plain.map((r) => r.bookmark.id)).toEqual(['old', 'new']);
+      expect(plain[0]?.scores?.recency).toBeUndefined();
+      expect(recent.map((r) => r.bookmark.id)).toEqual(['new', 'old']);
+      expect(recent[0]?.scores?.recency).toBeGreaterThan(0.99);
+      expect(recent[0]?.explanation?.boosts).toContainEqual(
+        expect.stringContaining('Recency')
+      );
+    });
+
+    it('should favor bookmarks from a period named in the query', async () => {
+      await addBookmark('older', 'Older', [1, 0, 0], {
+        dateAdded: new Date(now.getFullYear(), now.getMonth() - 6, 15),
+      });
+      await addBookmark('last-month', 'Last month', [0.9, 0.1, 0], {
+        dateAdded: new Date(now.getFullYear(), now.getMonth() - 1, 15),
+      });
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      const results = await searchService.search(
+        'that article I saved last month about postgres vacuum'
+      );
+
+      expect(results.map((r) => r.bookmark.id)).toEqual([
+        'last-month',
+        'older',
+      ]);
+      expect(results[0]?.scores?.recency).toBe(1);
+      expect(generateEmbedding.mock.calls[0]![0]).toBe(
+        'that article I saved about postgres vacuum'
+      );
+    });
+  });
+
+  describe('relevance feedback', () => {
+    beforeEach(async () => {
+      await addBookmark('top', 'Top', [0.95, 0, 0.312]);
+      await addBookmark('chosen', 'Chosen', [0.9, 0.436, 0]);
+      await addBookmark('other', 'Other', [0.8, 0, 0.6]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+    });
+
+    it('should raise repeatedly clicked bookmarks for similar queries', async () => {
+      await db.searchFeedback.put({
+        query: 'rust async runtime',
+        bookmarkId: 'chosen',
+        clicks: 3,
+        updatedAt: new Date(),
+      });
+
+      const results = await searchService.search('rust async', {
+        explain: true,
+      });
+      const chosen = results.find((r) => r.bookmark.id === 'chosen');
+
+      expect(results[0]?.bookmark.id).toBe('chosen');
+      expect(chosen?.scores?.clickPrior).toBeGreaterThan(0);
+      expect(chosen?.score).toBeGreaterThan(
+        results.find((r) => r.bookmark.id === 'other')!.score
+      );
+      expect(chosen?.explanation?.boosts).toEqual(
+        expect.arrayContaining([expect.stringMatching(/^Click prior/)])
+      );
+    });
+
+    it('should move the query towards bookmarks voted relevant', async () => {
+      await db.searchFeedback.put({
+        query: 'rust',
+        bookmarkId: 'chosen',
+        clicks: 0,
+        vote: 'relevant',
+        updatedAt: new Date(),
+      });
+      await db.searchFeedback.put({
+        query: 'rust',
+        bookmarkId: 'top',
+        clicks: 0,
+        vote: 'irrelevant',
+        updatedAt: new Date(),
+      });
+
+      const results = await searchService.search('rust');
+
+      expect(results[0]?.bookmark.id).toBe('chosen');
+    });
+
+    it('should ignore feedback when disabled', async () => {
+      await db.searchFeedback.put({
+        query: 'rust',
+        bookmarkId: 'chosen',
+        clicks: 0,
+        vote: 'relevant',
+        updatedAt: new Date(),
+      });
+
+      const results = await searchService.search('rust', {
+        useFeedback: false,
+      });
+
+      expect(results[0]?.bookmark.id).toBe('top');
+    });
+  });
+
+  describe('re-ranking', () => {
+    beforeEach(async () => {
+      mockRerank.mockReset();
+      await addBookmark('first', 'First', [1, 0, 0]);
+      await addBookmark('second', 'Second', [0.9, 0.436, 0]);
+      await addBookmark('third', 'Third', [0.8, 0, 0.6]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+    });
+
+    it('should not call the model unless requested', async () => {
+      await searchService.search('query');
+
+      expect(mockRerank).not.toHaveBeenCalled();
+    });
+
+    it('should reorder candidates by model relevance', async () => {
+      mockRerank.mockResolvedValue(
+        new Map([
+          ['first', 0.2],
+          ['second', 0.5],
+          ['third', 0.9],
+        ])
+      );
+
+      const results = await searchService.search('query', {
+        rerank: true,
+        explain: true,
+      });
+
+      expect(mockRerank).toHaveBeenCalledWith(
+        'query',
+        expect.arrayContaining([
+          expect.objectContaining({ id: 'third', title: 'Third' }),
+        ]),
+        { signal: undefined }
+      );
+      expect(results.map((r) => r.bookmark.id)).toEqual([
+        'third',
+        'second',
+        'first',
+      ]);
+      expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+      expect(results[0]?.scores?.rerank).toBe(0.9);
+      expect(results[0]?.explanation?.boosts).toContain(
+        'Chat model rated relevance 9.0/10 (was rank 3 before re-ranking)'
+      );
+    });
+
+    it('should keep the embedding order when the model fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockRerank.mockRejectedValue(new Error('Re-ranking timed out'));
+
+      const results = await searchService.search('query', { rerank: true });
+
+      expect(results.map((r) => r.bookmark.id)).toEqual([
+        'first',
+        'second',
+        'third',
+      ]);
+      expect(results[0]?.scores?.rerank).toBeUndefined();
+      warn.mockRestore();
+    });
+  });
+
+  describe('query expansion', () => {
+    beforeEach(async () => {
+      mockRewriteQuery.mockReset();
+      await addBookmark('literal', 'Literal', [1, 0, 0]);
+      await addBookmark('synonym', 'Synonym', [0, 1, 0]);
+      generateEmbedding.mockImplementation((text: string) =>
+        Promise.resolve({
+          embedding: text === 'tokio runtime' ? [0, 1, 0] : [1, 0, 0],
+        })
+      );
+    });
+
+    it('should fuse results retrieved by rewritten queries', async () => {
+      mockRewriteQuery.mockResolvedValue(['tokio runtime']);
+
+      const results = await searchService.search('rust async', {
+        queryExpansion: 'rewrite',
+        explain: true,
+      });
+      const synonym = results.find((r) => r.bookmark.id === 'synonym');
+
+      expect(results.map((r) => r.bookmark.id).sort()).toEqual([
+        'literal',
+        'synonym',
+      ]);
+      expect(synonym?.scores?.expansionMatches).toBe(1);
+      expect(synonym?.explanation?.boosts).toContain(
+        'Also retrieved by 1 expanded query'
+      );
+    });
+
+    it('should search with the original query when expansion fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockRewriteQuery.mockRejectedValue(new Error('AI provider is offline'));
+
+      const results = await searchService.search('rust async', {
+        queryExpansion: 'rewrite',
+      });
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['literal']);
+      warn.mockRestore();
+    });
+  });
+
+  describe('query embedding cache', () => {
+    it('should embed a repeated query only once', async () => {
+      await addBookmark('near', 'Near', [1, 0, 0]);
+      generateEmbedding.mockResolvedValue({ embedding: [1, 0, 0] });
+
+      await searchService.search('rust  async');
+      const results = await searchService.search('rust async');
+
+      expect(generateEmbedding).toHaveBeenCalledTimes(1);
+      expect(results.map((r) => r.bookmark.id)).toEqual(['near']);
+    });
+  });
+
+  describe('cancellation', () => {
+    beforeEach(async () => {
+      await addBookmark('near', 'Near', [1, 0, 0]);
+    });
+
+    it('should not embed a query that is already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        searchService.search('query', { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(generateEmbedding).not.toHaveBeenCalled();
+    });
+
+    it('should pass the signal to the adapter and skip the text fallback', async () => {
+      const controller = new AbortController();
+      generateEmbedding.mockImplementation(() => {
+        controller.abort();
+        return Promise.resolve({ embedding: [1, 0, 0] });
+      });
+
+      await expect(
+        searchService.searchWithFallback('query', {
+          signal: controller.signal,
+        })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(generateEmbedding).toHaveBeenCalledWith(
+        'query',
+        'http://localhost:11434',
+        'test-model',
+        undefined,
+        undefined,
+        controller.signal
+      );
+    });
+
+    it('should cancel text and similarity searches', async () => {
+      await addBookmark('other', 'Other', [0.8, 0.6, 0]);
+      await TextIndexService.getInstance().ensureIndexed();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        searchService.textSearch('near', { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(
+        searchService.findSimilar('near', { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('text fallback', () => {
+    it('should find misspelled queries when embedding fails', async () => {
+      await addBookmark('k8s', 'Kubernetes networking', [1, 0, 0]);
+      await addBookmark('rust', 'Rust ownership', [0, 1, 0]);
+      await TextIndexService.getInstance().ensureIndexed();
+      generateEmbedding.mockRejectedValue(new Error('provider offline'));
+
+      const results = await searchService.searchWithFallback('kubernets');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['k8s']);
+      expect(results[0]?.providerId).toBe('text-search');
+      expect(results[0]?.score).toBeGreaterThan(0);
+      expect(results[0]?.score).toBeLessThanOrEqual(1);
+      expect(results[0]?.scores?.matchedTerms).toEqual(['kubernetes']);
+    });
+  });
+
+  describe('findSimilar', () => {
+    it('should rank by the source embedding without embedding a query', async () => {
+      await addBookmark('source', 'Source', [1, 0, 0]);
+      await addBookmark('close', 'Close', [0.9, 0.1, 0]);
+      await addBookmark('related', 'Related', [0.6, 0.8, 0]);
+      await addBookmark('unrelated', 'Unrelated', [0, 0, 1]);
+
+      const results = await searchService.findSimilar('source');
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['close', 'related']);
+      expect(generateEmbedding).not.toHaveBeenCalled();
+    });
+
+    it('should exclude near-identical URLs and respect limit', async () => {
+      await addBookmark('source', 'Source', [1, 0, 0], {
+        url: 'https://example.com/page',
+      });
+      await addBookmark('copy', 'Copy', [1, 0, 0], {
+        url: 'http://www.example.com/page/?utm_source=feed',
+      });
+      await addBookmark('a', 'A', [0.9, 0.1, 0]);
+      await addBookmark('b', 'B', [0.8, 0.2, 0]);
+
+      const results = await searchService.findSimilar('source', { limit: 1 });
+
+      expect(results.map((r) => r.bookmark.id)).toEqual(['a']);
+    });
+
+    it('should apply minScore', async () => {
+      await addBookmark('source', 'Source', [1, 0, 0]);
+      await addBookmark('a', 'A', [0.6, 0.8, 0]);
+
+      expect(
+        await searchService.findSimilar('source', { minScore: 0.7 })
+      ).toEqual([]);
+    });
+
+    it('should fail when the bookmark is not indexed', async () => {
+      await db.bookmarks.add({
+        id: 'fresh',
+        url: 'https://example.com/fresh',
+        title: 'Fresh',
+        version: 0,
+        hidden: false,
+        dateAdded: new Date(),
+        lastModified: new Date(),
+      });
+
+      await expect(searchService.findSimilar('fresh')).rejects.toThrow(
+        'not indexed'
+      );
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import { BookmarkChangeService } from '@/services/BookmarkChangeService';
 import { TagService } from '@/services/TagService';
 import { db } from '@/storage/database';
 import { TagSource, TagAssignmentSource } from '@/types/tag';
@@ -334,6 +335,51 @@ describe('TagService', () => {
     });
   });
 
+  describe('change notifications', () => {
+    let recordChanges: jest.SpyInstance;
+
+    beforeEach(() => {
+      recordChanges = jest
+        .spyOn(BookmarkChangeService.prototype, 'recordChanges')
+        .mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      recordChanges.mockRestore();
+    });
+
+    it('should report bookmarks whose tags change', async () => {
+      const tag = await tagService.createTag('test-tag');
+      await tagService.assignTagToBookmark('bookmark1', tag.id);
+      await tagService.removeTagFromBookmark('bookmark1', tag.id);
+
+      expect(recordChanges).toHaveBeenCalledTimes(2);
+      expect(recordChanges).toHaveBeenCalledWith(['bookmark1']);
+    });
+
+    it('should report every bookmark carrying a renamed tag', async () => {
+      const tag = await tagService.createTag('old-name');
+      await tagService.assignTagToBookmark('bookmark1', tag.id);
+      await tagService.assignTagToBookmark('bookmark2', tag.id);
+      recordChanges.mockClear();
+
+      await tagService.renameTag(tag.id, 'new-name');
+
+      expect(recordChanges).toHaveBeenCalledWith(['bookmark1', 'bookmark2']);
+    });
+
+    it('should leave folder tags assigned during sync to the sync', async () => {
+      const tag = await tagService.createTag('Work', TagSource.FOLDER);
+      await tagService.assignTagToBookmark(
+        'bookmark1',
+        tag.id,
+        TagAssignmentSource.FOLDER_SYNC
+      );
+
+      expect(recordChanges).not.toHaveBeenCalled();
+    });
+  });
+
   describe('removeTagFromBookmark', () => {
     it('should remove tag from bookmark', async () => {
       const tag = await tagService.createTag('test-tag');
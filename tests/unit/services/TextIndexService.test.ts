@@ -0,0 +1,137 @@
+import { TEXT_INDEX_CONFIG } from '@/constants/config';
+import { TextIndexService } from '@/services/TextIndexService';
+import { db } from '@/storage/database';
+import { ContentType } from '@/types/content';
+
+const addBookmark = async (
+  id: string,
+  title: string,
+  overrides: Record<string, unknown> = {}
+) => {
+  await db.bookmarks.add({
+    id,
+    url: `https://example.com/${id}`,
+    title,
+    version: 0,
+    hidden: false,
+    dateAdded: new Date('2024-01-01'),
+    lastModified: new Date('2024-01-01'),
+    ...overrides,
+  });
+};
+
+describe('TextIndexService', () => {
+  let textIndex: TextIndexService;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    TextIndexService.resetInstance();
+    textIndex = TextIndexService.getInstance();
+
+    await addBookmark('k8s', 'Kubernetes deployment guide');
+    await addBookmark('py', 'Python packaging tutorial');
+    await textIndex.ensureIndexed();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should search only what has been indexed', async () => {
+    await addBookmark('guide', 'Kubernetes operators');
+
+    const before = await textIndex.search('kubernetes');
+    await textIndex.ensureIndexed();
+    const after = await textIndex.search('kubernetes');
+
+    expect(before.map((r) => r.bookmarkId)).toEqual(['k8s']);
+    expect(before[0]?.score).toBeCloseTo(1);
+    expect(after.map((r) => r.bookmarkId).sort()).toEqual(['guide', 'k8s']);
+    expect(await db.textDocuments.count()).toBe(3);
+  });
+
+  it('should match misspelled terms', async () => {
+    const results = await textIndex.search('kuberntes');
+
+    expect(results[0]?.bookmarkId).toBe('k8s');
+    expect(results[0]?.matchedTerms).toEqual(['kubernetes']);
+    expect(results[0]?.score).toBeLessThan(1);
+  });
+
+  it('should score only the fuzzy candidates sharing the most trigrams', async () => {
+    const maxCandidates = TEXT_INDEX_CONFIG.MAX_FUZZY_CANDIDATES;
+    TEXT_INDEX_CONFIG.MAX_FUZZY_CANDIDATES = 1;
+    await addBookmark('typo', 'Kubarnetas');
+    await textIndex.ensureIndexed();
+    const readTerms = jest.spyOn(db.textTerms, 'bulkGet');
+
+    const results = await textIndex.search('kubernetis');
+    const read = readTerms.mock.calls.map(([keys]) => keys);
+    readTerms.mockRestore();
+    TEXT_INDEX_CONFIG.MAX_FUZZY_CANDIDATES = maxCandidates;
+
+    expect(read).toEqual([['kubernetes']]);
+    expect(results.map((r) => r.bookmarkId)).toEqual(['k8s']);
+  });
+
+  it('should match prefixes', async () => {
+    const results = await textIndex.search('packag');
+
+    expect(results.map((r) => r.bookmarkId)).toEqual(['py']);
+  });
+
+  it('should weight title matches above content matches', async () => {
+    await db.content.add({
+      bookmarkId: 'py',
+      url: 'https://example.com/py',
+      type: ContentType.PRIMARY,
+      title: 'Python packaging tutorial',
+      content: 'Deploying packages to a kubernetes cluster.',
+      links: [],
+      contentHash: 'hash',
+      fetchedAt: Date.now(),
+    });
+    await textIndex.indexBookmark('py');
+
+    const results = await textIndex.search('kubernetes');
+
+    expect(results.map((r) => r.bookmarkId)).toEqual(['k8s', 'py']);
+    expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+  });
+
+  it('should restrict results to candidate ids', async () => {
+    const results = await textIndex.search(
+      'kubernetes python',
+      new Set(['py'])
+    );
+
+    expect(results.map((r) => r.bookmarkId)).toEqual(['py']);
+    expect(results[0]?.score).toBeGreaterThan(0);
+    expect(results[0]?.score).toBeLessThan(1);
+  });
+
+  it('should update postings and vocabulary when a bookmark changes', async () => {
+    await textIndex.ensureIndexed();
+    await db.bookmarks.update('k8s', { title: 'Helm charts' });
+
+    await textIndex.indexBookmark('k8s');
+
+    expect(await textIndex.search('kubernetes')).toEqual([]);
+    expect(await db.textTerms.get('kubernetes')).toBeUndefined();
+    expect((await textIndex.search('helm'))[0]?.bookmarkId).toBe('k8s');
+  });
+
+  it('should drop documents of deleted bookmarks', async () => {
+    await textIndex.ensureIndexed();
+    await db.bookmarks.delete('py');
+
+    await textIndex.ensureIndexed();
+
+    expect(await db.textDocuments.get('py')).toBeUndefined();
+    expect(await db.textPostings.where('bookmarkId').equals('py').count()).toBe(
+      0
+    );
+    expect(await db.textTerms.get('python')).toBeUndefined();
+  });
+});
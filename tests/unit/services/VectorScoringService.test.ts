@@ -0,0 +1,211 @@
+import type { VectorWorkerResponse } from '@/types/vectorScoring';
+
+import { VectorScoringService } from '@/services/VectorScoringService';
+import { db } from '@/storage/database';
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  messages: any[] = [];
+  terminated = false;
+  onmessage: ((event: { data: VectorWorkerResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  constructor(
+    public url: string,
+    public options: WorkerOptions
+  ) {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: unknown): void {
+    this.messages.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  respond(response: VectorWorkerResponse): void {
+    this.onmessage?.({ data: response });
+  }
+}
+
+const addEmbedding = async (bookmarkId: string, embedding: number[]) => {
+  await db.embeddings.add({
+    bookmarkId,
+    providerId: 'provider-1',
+    embedding: new Float32Array(embedding),
+    createdAt: new Date(),
+    modelName: 'test-model',
+  });
+};
+
+const addChunk = async (
+  bookmarkId: string,
+  chunkIndex: number,
+  embedding: number[]
+) => {
+  await db.chunkEmbeddings.add({
+    bookmarkId,
+    providerId: 'provider-1',
+    url: `https://example.com/${bookmarkId}`,
+    chunkIndex,
+    text: `${bookmarkId} chunk ${chunkIndex}`,
+    embedding: new Float32Array(embedding),
+    createdAt: new Date(),
+    modelName: 'test-model',
+  });
+};
+
+describe('VectorScoringService', () => {
+  const query = new Float32Array([1, 0]);
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    VectorScoringService.resetInstance();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  describe('without worker support', () => {
+    it('should score candidate documents on this thread', async () => {
+      await addEmbedding('bm-1', [0, 1]);
+      await addEmbedding('bm-2', [1, 0.1]);
+      await addEmbedding('bm-3', [1, 0]);
+
+      const results = await VectorScoringService.getInstance().score(
+        'documents',
+        'provider-1',
+        query,
+        ['bm-1', 'bm-2'],
+        5
+      );
+
+      expect(results.map((result) => result.bookmarkId)).toEqual([
+        'bm-2',
+        'bm-1',
+      ]);
+      expect(results[0]!.passage).toBeUndefined();
+    });
+
+    it('should return the top chunks with their passages', async () => {
+      await addChunk('bm-1', 0, [0, 1]);
+      await addChunk('bm-1', 1, [1, 0]);
+      await addChunk('bm-2', 0, [1, 1]);
+
+      const results = await VectorScoringService.getInstance().score(
+        'passages',
+        'provider-1',
+        query,
+        ['bm-1', 'bm-2'],
+        2
+      );
+
+      expect(results).toEqual([
+        {
+          bookmarkId: 'bm-1',
+          score: expect.closeTo(1),
+          passage: { text: 'bm-1 chunk 1', url: 'https://example.com/bm-1' },
+        },
+        expect.objectContaining({ bookmarkId: 'bm-2' }),
+      ]);
+    });
+  });
+
+  describe('with a worker', () => {
+    beforeEach(() => {
+      FakeWorker.instances = [];
+      (global as any).Worker = FakeWorker;
+    });
+
+    afterEach(() => {
+      delete (global as any).Worker;
+    });
+
+    const startScoring = (options = {}) =>
+      VectorScoringService.getInstance().score(
+        'documents',
+        'provider-1',
+        query,
+        ['bm-1'],
+        5,
+        options
+      );
+
+    it('should stream partial results and resolve when the worker is done', async () => {
+      const onPartial = jest.fn();
+      const scoring = startScoring({ onPartial });
+
+      const worker = FakeWorker.instances[0]!;
+      expect(worker.options).toEqual({ type: 'module' });
+      const [request] = worker.messages;
+      expect(request).toMatchObject({
+        type: 'score',
+        target: 'documents',
+        providerId: 'provider-1',
+        candidateIds: ['bm-1'],
+        limit: 5,
+      });
+
+      const partial = [{ bookmarkId: 'bm-1', score: 0.5 }];
+      worker.respond({
+        type: 'partial',
+        requestId: request.requestId,
+        results: partial,
+      });
+      worker.respond({
+        type: 'done',
+        requestId: request.requestId,
+        results: [{ bookmarkId: 'bm-1', score: 0.6 }],
+      });
+
+      await expect(scoring).resolves.toEqual([
+        { bookmarkId: 'bm-1', score: 0.6 },
+      ]);
+      expect(onPartial).toHaveBeenCalledWith(partial);
+    });
+
+    it('should cancel the worker request when the signal aborts', async () => {
+      const controller = new AbortController();
+      const scoring = startScoring({ signal: controller.signal });
+
+      controller.abort();
+
+      await expect(scoring).rejects.toMatchObject({ name: 'AbortError' });
+      const [request, cancel] = FakeWorker.instances[0]!.messages;
+      expect(cancel).toEqual({ type: 'cancel', requestId: request.requestId });
+    });
+
+    it('should reject with the error the worker reports', async () => {
+      const scoring = startScoring();
+      const worker = FakeWorker.instances[0]!;
+
+      worker.respond({
+        type: 'error',
+        requestId: worker.messages[0].requestId,
+        message: 'Database closed',
+      });
+
+      await expect(scoring).rejects.toThrow('Database closed');
+    });
+
+    it('should finish pending requests on this thread when the worker fails', async () => {
+      await addEmbedding('bm-1', [1, 0]);
+      const scoring = startScoring();
+      const worker = FakeWorker.instances[0]!;
+
+      worker.onerror?.({ message: 'Failed to load worker script' });
+
+      await expect(scoring).resolves.toEqual([
+        { bookmarkId: 'bm-1', score: expect.closeTo(1) },
+      ]);
+      expect(worker.terminated).toBe(true);
+
+      await startScoring();
+      expect(FakeWorker.instances).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import Dexie from 'dexie';
+
+import { STORAGE_CONFIG } from '@/constants/config';
+import { db } from '@/storage/database';
+import { encodeEmbedding } from '@/utils/quantization';
+import { cosineSimilarity } from '@/utils/vectorUtils';
+
+const VECTOR = new Float32Array([0.2, -0.4, 0.9, 0.1]);
+
+describe('SemanticBookmarkDatabase', () => {
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  it('should move the vectors of quantized rows to the full-precision tables', async () => {
+    await db.delete();
+    const legacy = new Dexie(STORAGE_CONFIG.DB_NAME);
+    legacy.version(12).stores({
+      embeddings: '[bookmarkId+providerId], bookmarkId, providerId, createdAt',
+      chunkEmbeddings:
+        '[bookmarkId+providerId+url+chunkIndex], [bookmarkId+providerId], bookmarkId, providerId',
+    });
+    // Binary rows used to keep their int8 codes next to the sign bits
+    const { int8, int8Scale } = encodeEmbedding(VECTOR, 'int8');
+    await legacy.table('embeddings').bulkAdd([
+      {
+        bookmarkId: 'binary',
+        providerId: 'provider-1',
+        ...encodeEmbedding(VECTOR, 'binary'),
+        int8,
+        int8Scale,
+        configFingerprint: 'fingerprint',
+      },
+      {
+        bookmarkId: 'float',
+        providerId: 'provider-1',
+        ...encodeEmbedding(VECTOR, 'none'),
+        configFingerprint: 'fingerprint',
+      },
+    ]);
+    await legacy.table('chunkEmbeddings').add({
+      bookmarkId: 'binary',
+      providerId: 'provider-1',
+      url: 'https://example.com',
+      chunkIndex: 0,
+      ...encodeEmbedding(VECTOR, 'int8'),
+    });
+    legacy.close();
+
+    await db.open();
+
+    const binary = await db.embeddings.get(['binary', 'provider-1']);
+    expect(binary?.int8).toBeUndefined();
+    expect(binary?.binary).toHaveLength(1);
+    expect(binary?.configFingerprint).toBeUndefined();
+    const moved = await db.embeddingVectors.get(['binary', 'provider-1']);
+    expect(cosineSimilarity(moved!.embedding, VECTOR)).toBeCloseTo(1, 3);
+
+    const [chunk] = await db.chunkVectors.toArray();
+    expect(chunk).toMatchObject({ url: 'https://example.com', chunkIndex: 0 });
+    expect((await db.chunkEmbeddings.toArray())[0]?.int8).toHaveLength(4);
+
+    expect(
+      (await db.embeddings.get(['float', 'provider-1']))?.configFingerprint
+    ).toBe('fingerprint');
+    expect(await db.embeddingVectors.count()).toBe(1);
+  });
+});
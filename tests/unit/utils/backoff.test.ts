@@ -0,0 +1,21 @@
+import { backoffDelay, parseRetryAfter } from '@/utils/backoff';
+
+describe('backoff', () => {
+  it('should double the jitter window up to the cap', () => {
+    const max = () => 1;
+
+    expect(backoffDelay(0, 1000, 60000, max)).toBe(1000);
+    expect(backoffDelay(3, 1000, 60000, max)).toBe(8000);
+    expect(backoffDelay(10, 1000, 60000, max)).toBe(60000);
+    expect(backoffDelay(3, 1000, 60000, () => 0.25)).toBe(2000);
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { BM25Index } from '@/utils/bm25';
+import { reciprocalRankFusion } from '@/utils/rankFusion';
+import { tokenize } from '@/utils/textUtils';
+
+const OPTIONS = {
+  k1: 1.2,
+  b: 0.75,
+  fieldWeights: { title: 3, content: 1 },
+};
+
+describe('tokenize', () => {
+  it('should keep compound identifiers alongside their parts', () => {
+    expect(tokenize('ERR_CONNECTION_REFUSED in JIRA-1234')).toEqual([
+      'err_connection_refused',
+      'err',
+      'connection',
+      'refused',
+      'jira-1234',
+      'jira',
+      '1234',
+    ]);
+  });
+
+  it('should drop stop words and punctuation', () => {
+    expect(tokenize('How to use the react-router?')).toEqual([
+      'use',
+      'react-router',
+      'react',
+      'router',
+    ]);
+  });
+});
+
+describe('BM25Index', () => {
+  it('should rank exact identifier matches first', () => {
+    const index = new BM25Index(
+      [
+        { id: '1', fields: { title: 'Kubernetes networking guide' } },
+        {
+          id: '2',
+          fields: {
+            title: 'Fixing ERR_CONNECTION_REFUSED',
+            content: 'Chrome shows ERR_CONNECTION_REFUSED when...',
+          },
+        },
+        { id: '3', fields: { title: 'Connection pooling in Postgres' } },
+      ],
+      OPTIONS
+    );
+
+    const matches = index.search('ERR_CONNECTION_REFUSED');
+
+    expect(matches[0]?.id).toBe('2');
+    expect(matches[0]?.matchedTerms).toContain('err_connection_refused');
+  });
+
+  it('should weight title matches above content matches', () => {
+    const index = new BM25Index(
+      [
+        { id: 'content', fields: { title: 'Notes', content: 'helm charts' } },
+        { id: 'title', fields: { title: 'Helm', content: 'notes' } },
+      ],
+      OPTIONS
+    );
+
+    const matches = index.search('helm');
+
+    expect(matches.map((m) => m.id)).toEqual(['title', 'content']);
+  });
+
+  it('should return no matches for unknown terms', () => {
+    const index = new BM25Index(
+      [{ id: '1', fields: { title: 'Rust async book' } }],
+      OPTIONS
+    );
+
+    expect(index.search('golang')).toEqual([]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should favour documents ranked highly in both lists', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { ids: ['a', 'b', 'c'], weight: 0.5 },
+        { ids: ['b', 'c', 'a'], weight: 0.5 },
+      ],
+      60
+    );
+
+    const ranked = [...fused.entries()].sort((x, y) => y[1] - x[1]);
+    expect(ranked[0]?.[0]).toBe('b');
+  });
+});
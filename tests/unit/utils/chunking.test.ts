@@ -0,0 +1,41 @@
+import { chunkText } from '@/utils/chunking';
+
+const sentence = (n: number) => `Sentence number ${n} talks about topic ${n}.`;
+
+describe('chunkText', () => {
+  it('should return a single chunk for short text', () => {
+    expect(
+      chunkText('Just one line.', { maxTokens: 50, overlapTokens: 10 })
+    ).toEqual([{ text: 'Just one line.', index: 0 }]);
+  });
+
+  it('should return nothing for blank text', () => {
+    expect(chunkText('  \n\n ', { maxTokens: 50, overlapTokens: 10 })).toEqual(
+      []
+    );
+  });
+
+  it('should split on sentence boundaries with overlap', () => {
+    const text = Array.from({ length: 8 }, (_, i) => sentence(i)).join(' ');
+    const chunks = chunkText(text, { maxTokens: 30, overlapTokens: 12 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i);
+      expect(chunk.text.length / 4).toBeLessThanOrEqual(30);
+      expect(chunk.text.endsWith('.')).toBe(true);
+    });
+
+    const lastOfFirst = chunks[0]!.text.split(/(?<=\.) /).pop()!;
+    expect(chunks[1]!.text.startsWith(lastOfFirst)).toBe(true);
+    expect(chunks[chunks.length - 1]!.text).toContain(sentence(7));
+  });
+
+  it('should split sentences longer than a chunk on word boundaries', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(text, { maxTokens: 20, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map((c) => c.text).join(' ')).toBe(text);
+  });
+});
@@ -0,0 +1,34 @@
+import { citedSources, parseCitations } from '@/utils/citations';
+
+describe('citations', () => {
+  describe('parseCitations', () => {
+    it('should split text and citation markers', () => {
+      expect(parseCitations('Retries are set per route [2].', 3)).toEqual([
+        { type: 'text', text: 'Retries are set per route ' },
+        { type: 'citation', source: 2 },
+        { type: 'text', text: '.' },
+      ]);
+    });
+
+    it('should expand grouped and adjacent markers', () => {
+      expect(parseCitations('Yes [1, 3][2]', 3)).toEqual([
+        { type: 'text', text: 'Yes ' },
+        { type: 'citation', source: 1 },
+        { type: 'citation', source: 3 },
+        { type: 'citation', source: 2 },
+      ]);
+    });
+
+    it('should drop markers for missing sources', () => {
+      expect(parseCitations('See [4] and [0].', 3)).toEqual([
+        { type: 'text', text: 'See  and .' },
+      ]);
+    });
+  });
+
+  describe('citedSources', () => {
+    it('should list each cited source once in order', () => {
+      expect(citedSources(parseCitations('a [3] b [1][3]', 3))).toEqual([1, 3]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { findDateHint } from '@/utils/datePhrases';
+
+describe('findDateHint', () => {
+  // Thursday
+  const now = new Date(2024, 5, 20, 15, 30);
+
+  const period = (text: string) => {
+    const found = findDateHint(text, now);
+    return found && { from: found.dateHint.from, to: found.dateHint.to };
+  };
+
+  it('should resolve calendar days, weeks, months and years', () => {
+    expect(period('today')).toEqual({
+      from: new Date(2024, 5, 20),
+      to: new Date(2024, 5, 21),
+    });
+    expect(period('this week')).toEqual({
+      from: new Date(2024, 5, 17),
+      to: new Date(2024, 5, 24),
+    });
+    expect(period('last week')).toEqual({
+      from: new Date(2024, 5, 10),
+      to: new Date(2024, 5, 17),
+    });
+    expect(period('last year')).toEqual({
+      from: new Date(2023, 0, 1),
+      to: new Date(2024, 0, 1),
+    });
+  });
+
+  it('should resolve rolling periods and counts ago', () => {
+    expect(period('in the past 3 days')).toEqual({
+      from: new Date(2024, 5, 17, 15, 30),
+      to: now,
+    });
+    expect(period('last few weeks')).toEqual({
+      from: new Date(2024, 4, 30, 15, 30),
+      to: now,
+    });
+    expect(period('two months ago')).toEqual({
+      from: new Date(2024, 3, 1),
+      to: new Date(2024, 4, 1),
+    });
+  });
+
+  it('should resolve months to their most recent occurrence', () => {
+    expect(period('in march')).toEqual({
+      from: new Date(2024, 2, 1),
+      to: new Date(2024, 3, 1),
+    });
+    expect(period('from december')).toEqual({
+      from: new Date(2023, 11, 1),
+      to: new Date(2024, 0, 1),
+    });
+    expect(period('last june')).toEqual({
+      from: new Date(2023, 5, 1),
+      to: new Date(2023, 6, 1),
+    });
+    expect(period('sept 2022')).toEqual({
+      from: new Date(2022, 8, 1),
+      to: new Date(2022, 9, 1),
+    });
+  });
+
+  it('should extend periods introduced by "since" up to now', () => {
+    expect(period('since 2023')).toEqual({
+      from: new Date(2023, 0, 1),
+      to: now,
+    });
+  });
+
+  it('should report the phrase and its position', () => {
+    const found = findDateHint('rust articles from last month please', now);
+
+    expect(found?.dateHint.phrase).toBe('from last month');
+    expect(found?.index).toBe(14);
+    expect(found?.length).toBe('from last month'.length);
+  });
+
+  it('should ignore month names and years used as ordinary words', () => {
+    expect(findDateHint('how may I help', now)).toBeNull();
+    expect(findDateHint('march of progress', now)).toBeNull();
+    expect(findDateHint('windows 2000 drivers', now)).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { capPerGroup, maximalMarginalRelevance } from '@/utils/diversity';
+
+describe('diversity', () => {
+  describe('maximalMarginalRelevance', () => {
+    const candidates = [
+      { id: 'a', score: 0.95, vector: new Float32Array([1, 0]) },
+      { id: 'a-copy', score: 0.94, vector: new Float32Array([1, 0.01]) },
+      { id: 'b', score: 0.8, vector: new Float32Array([0, 1]) },
+    ];
+
+    it('should rank by relevance alone when lambda is 1', () => {
+      expect(maximalMarginalRelevance(candidates, 1)).toEqual([
+        'a',
+        'a-copy',
+        'b',
+      ]);
+    });
+
+    it('should penalize candidates similar to earlier picks', () => {
+      expect(maximalMarginalRelevance(candidates, 0.7)).toEqual([
+        'a',
+        'b',
+        'a-copy',
+      ]);
+    });
+
+    it('should respect k', () => {
+      expect(maximalMarginalRelevance(candidates, 0.7, 2)).toEqual(['a', 'b']);
+    });
+
+    it('should treat candidates without vectors as unrelated', () => {
+      expect(
+        maximalMarginalRelevance(
+          [
+            { id: 'a', score: 0.9, vector: new Float32Array([1, 0]) },
+            { id: 'a-copy', score: 0.85, vector: new Float32Array([1, 0]) },
+            { id: 'unknown', score: 0.7 },
+          ],
+          0.5
+        )
+      ).toEqual(['a', 'unknown', 'a-copy']);
+    });
+  });
+
+  describe('capPerGroup', () => {
+    it('should move overflow behind the capped items', () => {
+      const items = ['x1', 'x2', 'y1', 'x3', 'y2'];
+
+      expect(capPerGroup(items, (item) => item[0]!, 1)).toEqual([
+        'x1',
+        'y1',
+        'x2',
+        'x3',
+        'y2',
+      ]);
+    });
+
+    it('should keep order when no group exceeds the cap', () => {
+      expect(capPerGroup(['a', 'b'], (item) => item, 2)).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { HnswIndex } from '@/utils/hnsw';
+import { cosineSimilarity } from '@/utils/vectorUtils';
+
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const randomVector = (random: () => number, dimension: number) =>
+  Float32Array.from({ length: dimension }, () => random() * 2 - 1);
+
+const bruteForce = (
+  vectors: Map<string, Float32Array>,
+  query: Float32Array,
+  k: number
+) =>
+  [...vectors.entries()]
+    .map(([id, vector]) => ({ id, score: cosineSimilarity(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((r) => r.id);
+
+const recallAt = (
+  index: HnswIndex,
+  vectors: Map<string, Float32Array>,
+  queries: Float32Array[],
+  k: number
+) => {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = new Set(bruteForce(vectors, query, k));
+    hits += index.search(query, k, 64).filter((r) => expected.has(r.id)).length;
+  }
+  return hits / (queries.length * k);
+};
+
+describe('HnswIndex', () => {
+  const random = createRandom(42);
+  const vectors = new Map<string, Float32Array>();
+  let index: HnswIndex;
+
+  beforeAll(() => {
+    index = new HnswIndex({ m: 12, efConstruction: 64, random });
+    for (let i = 0; i < 1000; i++) {
+      const vector = randomVector(random, 24);
+      vectors.set(`bm-${i}`, vector);
+      index.insert(`bm-${i}`, vector);
+    }
+  });
+
+  it('should match brute-force neighbours with high recall', () => {
+    const queries = Array.from({ length: 50 }, () => randomVector(random, 24));
+
+    expect(index.size).toBe(1000);
+    expect(recallAt(index, vectors, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('should return cosine similarity as the score', () => {
+    const query = vectors.get('bm-7')!;
+    const [top] = index.search(query, 1);
+
+    expect(top?.id).toBe('bm-7');
+    expect(top?.score).toBeCloseTo(1);
+  });
+
+  it('should keep recall after removals and re-inserts', () => {
+    for (let i = 0; i < 1000; i += 5) {
+      index.remove(`bm-${i}`);
+      vectors.delete(`bm-${i}`);
+    }
+    for (let i = 1; i < 1000; i += 50) {
+      const vector = randomVector(random, 24);
+      vectors.set(`bm-${i}`, vector);
+      index.insert(`bm-${i}`, vector);
+    }
+
+    const queries = Array.from({ length: 50 }, () => randomVector(random, 24));
+
+    expect(index.size).toBe(vectors.size);
+    expect(index.has('bm-0')).toBe(false);
+    expect(recallAt(index, vectors, queries, 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('should restore an equivalent graph from node records', () => {
+    const records = [...vectors.keys()].map((id) => index.getRecord(id)!);
+    const restored = HnswIndex.fromRecords(
+      { m: 12, efConstruction: 64 },
+      records,
+      vectors,
+      index.entryPoint
+    );
+    const query = randomVector(random, 24);
+
+    expect(restored.search(query, 10, 64)).toEqual(index.search(query, 10, 64));
+  });
+
+  it('should return nothing from an empty index', () => {
+    const empty = new HnswIndex({ m: 4, efConstruction: 16 });
+
+    expect(empty.search(new Float32Array([1, 0]), 5)).toEqual([]);
+  });
+});
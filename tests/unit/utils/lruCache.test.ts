@@ -0,0 +1,28 @@
+import { LruCache } from '@/utils/lruCache';
+
+describe('LruCache', () => {
+  it('should evict the least recently used entry', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it('should delete entries matching a predicate', () => {
+    const cache = new LruCache<string, number>(3);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    cache.deleteWhere((_key, value) => value % 2 === 1);
+
+    expect(cache.size).toBe(1);
+    expect(cache.get('b')).toBe(2);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  escapeOmniboxXml,
+  formatOmniboxSuggestion,
+  isOmniboxUrl,
+} from '@/utils/omnibox';
+
+describe('omnibox', () => {
+  it('should escape XML special characters', () => {
+    expect(escapeOmniboxXml(`Tom & Jerry's <b>"cartoon"</b>`)).toBe(
+      'Tom &amp; Jerry&apos;s &lt;b&gt;&quot;cartoon&quot;&lt;/b&gt;'
+    );
+  });
+
+  it('should describe a bookmark by title and domain', () => {
+    expect(
+      formatOmniboxSuggestion(
+        'Rust & async',
+        'https://www.example.com/post',
+        true
+      )
+    ).toBe('Rust &amp; async <dim>- example.com</dim>');
+    expect(
+      formatOmniboxSuggestion(
+        'Rust & async',
+        'https://www.example.com/post',
+        false
+      )
+    ).toBe('Rust & async - example.com');
+  });
+
+  it('should fall back to the URL for untitled bookmarks', () => {
+    expect(formatOmniboxSuggestion(' ', 'https://example.com/a', false)).toBe(
+      'https://example.com/a - example.com'
+    );
+  });
+
+  it('should distinguish accepted suggestions from typed queries', () => {
+    expect(isOmniboxUrl('https://example.com/page?q=1')).toBe(true);
+    expect(isOmniboxUrl('file:///home/notes.html')).toBe(true);
+    expect(isOmniboxUrl('rust async runtime')).toBe(false);
+    expect(isOmniboxUrl('how to use https://example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  approximateSimilarity,
+  binarize,
+  createQuantizedQuery,
+  dequantizeInt8,
+  encodeEmbedding,
+  getEmbeddingVector,
+  hammingDistance,
+  quantizeInt8,
+} from '@/utils/quantization';
+import { cosineSimilarity } from '@/utils/vectorUtils';
+
+describe('quantization', () => {
+  const vector = new Float32Array([
+    0.5, -0.25, 0.1, -1, 0.75, 0, 0.3, -0.6, 0.2,
+  ]);
+
+  it('should round-trip int8 codes within one quantization step', () => {
+    const { codes, scale } = quantizeInt8(vector);
+    const restored = dequantizeInt8(codes, scale);
+
+    expect(Math.max(...Array.from(codes, Math.abs))).toBe(127);
+    restored.forEach((value, i) => {
+      expect(Math.abs(value - vector[i]!)).toBeLessThanOrEqual(scale / 2);
+    });
+  });
+
+  it('should pack sign bits and count differing bits', () => {
+    const bits = binarize(vector);
+
+    expect(bits.length).toBe(2);
+    expect(bits[0]).toBe(0b01010101);
+    expect(bits[1]).toBe(0b1);
+    expect(hammingDistance(bits, binarize(vector.map((v) => -v)))).toBe(8);
+  });
+
+  it('should encode rows according to the quantization mode', () => {
+    expect(encodeEmbedding(vector, 'none')).toEqual({
+      embedding: vector,
+      quantization: 'none',
+    });
+
+    const int8 = encodeEmbedding(vector, 'int8');
+    expect(int8.embedding).toBeUndefined();
+    expect(int8.int8).toBeInstanceOf(Int8Array);
+    expect(int8.binary).toBeUndefined();
+
+    expect(cosineSimilarity(getEmbeddingVector(int8)!, vector)).toBeCloseTo(
+      1,
+      3
+    );
+
+    const binary = encodeEmbedding(vector, 'binary');
+    expect(binary).toEqual({
+      quantization: 'binary',
+      binary: binarize(vector),
+    });
+    expect(getEmbeddingVector(binary)).toBeUndefined();
+  });
+
+  it('should estimate similarity from the most compact representation', () => {
+    const query = createQuantizedQuery(vector);
+
+    expect(
+      approximateSimilarity(query, encodeEmbedding(vector, 'binary'))
+    ).toBeCloseTo(1);
+    expect(
+      approximateSimilarity(query, encodeEmbedding(vector, 'int8'))
+    ).toBeCloseTo(1, 3);
+    expect(
+      approximateSimilarity(
+        query,
+        encodeEmbedding(
+          vector.map((v) => -v),
+          'binary'
+        )
+      )
+    ).toBeLessThan(-0.9);
+  });
+});
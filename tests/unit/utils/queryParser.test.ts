@@ -0,0 +1,127 @@
+import {
+  describeFilters,
+  matchesSite,
+  parseSearchQuery,
+} from '@/utils/queryParser';
+
+describe('parseSearchQuery', () => {
+  it('should extract filters and keep the free-text remainder', () => {
+    const parsed = parseSearchQuery(
+      'tag:kubernetes site:github.com after:2024-01 is:crawled "helm chart upgrades"'
+    );
+
+    expect(parsed.text).toBe('helm chart upgrades');
+    expect(parsed.hasFilters).toBe(true);
+    expect(parsed.filters.tags).toEqual(['kubernetes']);
+    expect(parsed.filters.sites).toEqual(['github.com']);
+    expect(parsed.filters.status).toEqual({ crawled: true });
+    expect(parsed.filters.dateAdded?.from).toEqual(new Date(2024, 0, 1));
+    expect(parsed.filters.dateAdded?.to).toBeUndefined();
+  });
+
+  it('should support negated and quoted operator values', () => {
+    const parsed = parseSearchQuery(
+      '-tag:"machine learning" -site:https://www.reddit.com/r/x -is:indexed rust'
+    );
+
+    expect(parsed.text).toBe('rust');
+    expect(parsed.filters.excludedTags).toEqual(['machine learning']);
+    expect(parsed.filters.excludedSites).toEqual(['reddit.com']);
+    expect(parsed.filters.status).toEqual({ indexed: false });
+  });
+
+  it('should turn a named period into a date hint', () => {
+    const now = new Date(2024, 5, 20);
+    const parsed = parseSearchQuery(
+      'tag:db that article I saved last month about postgres vacuum',
+      now
+    );
+
+    expect(parsed.text).toBe('that article I saved about postgres vacuum');
+    expect(parsed.hasFilters).toBe(true);
+    expect(parsed.dateHint).toEqual({
+      phrase: 'last month',
+      from: new Date(2024, 4, 1),
+      to: new Date(2024, 5, 1),
+    });
+    expect(parsed.filters.dateAdded).toBeUndefined();
+  });
+
+  it('should leave date words inside quotes and operator values alone', () => {
+    const parsed = parseSearchQuery('"news today" tag:today');
+
+    expect(parsed.text).toBe('news today');
+    expect(parsed.dateHint).toBeUndefined();
+  });
+
+  it('should filter by a named period that is the whole query', () => {
+    const now = new Date(2024, 5, 20);
+    const parsed = parseSearchQuery('yesterday', now);
+
+    expect(parsed.text).toBe('');
+    expect(parsed.hasFilters).toBe(true);
+    expect(parsed.dateHint).toBeUndefined();
+    expect(parsed.filters.dateAdded).toEqual({
+      from: new Date(2024, 5, 19),
+      to: new Date(2024, 5, 20),
+    });
+  });
+
+  it('should expand whole-period dates into ranges', () => {
+    const parsed = parseSearchQuery('added:2023 modified:2024-02-29');
+
+    expect(parsed.filters.dateAdded).toEqual({
+      from: new Date(2023, 0, 1),
+      to: new Date(2024, 0, 1),
+    });
+    expect(parsed.filters.lastModified).toEqual({
+      from: new Date(2024, 1, 29),
+      to: new Date(2024, 2, 1),
+    });
+  });
+
+  it('should treat unknown operators and invalid values as text', () => {
+    const parsed = parseSearchQuery('node:fs after:yesterday is:awesome');
+
+    expect(parsed.text).toBe('node:fs after:yesterday is:awesome');
+    expect(parsed.hasFilters).toBe(false);
+  });
+
+  it('should only include hidden bookmarks when asked', () => {
+    expect(parseSearchQuery('docs').filters.hidden).toBe(false);
+    expect(parseSearchQuery('docs is:hidden').filters.hidden).toBe(true);
+  });
+});
+
+describe('matchesSite', () => {
+  it('should match subdomains but not lookalike domains', () => {
+    expect(matchesSite('https://docs.github.com/en', 'github.com')).toBe(true);
+    expect(matchesSite('https://www.github.com', 'github.com')).toBe(true);
+    expect(matchesSite('https://notgithub.com', 'github.com')).toBe(false);
+  });
+});
+
+describe('describeFilters', () => {
+  it('should render filters back into query syntax', () => {
+    const { filters } = parseSearchQuery(
+      'tag:react -site:example.com folder:work is:crawled -is:indexed rust'
+    );
+
+    expect(describeFilters(filters)).toEqual([
+      'tag:react',
+      '-site:example.com',
+      'folder:work',
+      'is:crawled',
+      '-is:indexed',
+    ]);
+  });
+
+  it('should describe open and closed date ranges', () => {
+    const { filters } = parseSearchQuery('added:2024 modified-after:2024-03');
+
+    expect(describeFilters(filters)).toEqual([
+      `added ${new Date(2024, 0, 1).toLocaleDateString()} – ${new Date(2025, 0, 1).toLocaleDateString()}`,
+      `modified after ${new Date(2024, 2, 1).toLocaleDateString()}`,
+    ]);
+  });
+});
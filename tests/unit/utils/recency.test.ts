@@ -0,0 +1,34 @@
+import {
+  blendWithRecency,
+  rangeLengthInDays,
+  recencyScore,
+  timeProximity,
+} from '@/utils/recency';
+
+describe('recency', () => {
+  const now = new Date(2024, 5, 20);
+  const days = (count: number) =>
+    new Date(now.getTime() + count * 24 * 60 * 60 * 1000);
+
+  it('should halve the recency score every half-life', () => {
+    expect(recencyScore(now, now, 30)).toBe(1);
+    expect(recencyScore(days(-30), now, 30)).toBeCloseTo(0.5);
+    expect(recencyScore(days(-60), now, 30)).toBeCloseTo(0.25);
+    expect(recencyScore(days(5), now, 30)).toBe(1);
+  });
+
+  it('should score dates by their distance outside a range', () => {
+    const range = { from: days(-10), to: days(-5) };
+
+    expect(timeProximity(days(-7), range, 5)).toBe(1);
+    expect(timeProximity(days(-15), range, 5)).toBeCloseTo(0.5);
+    expect(timeProximity(days(0), range, 5)).toBeCloseTo(0.5);
+    expect(rangeLengthInDays({ from: days(-10), to: days(-5) })).toBe(5);
+  });
+
+  it('should blend with a clamped weight', () => {
+    expect(blendWithRecency(0.8, 0.2, 0)).toBe(0.8);
+    expect(blendWithRecency(0.8, 0.2, 0.5)).toBeCloseTo(0.5);
+    expect(blendWithRecency(0.8, 0.2, 2)).toBeCloseTo(0.2);
+  });
+});
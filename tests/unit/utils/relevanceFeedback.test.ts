@@ -0,0 +1,83 @@
+import {
+  clickPrior,
+  querySimilarity,
+  rocchio,
+} from '@/utils/relevanceFeedback';
+import { cosineSimilarity } from '@/utils/vectorUtils';
+
+const options = { alpha: 1, beta: 0.75, gamma: 0.15 };
+
+describe('relevanceFeedback', () => {
+  describe('rocchio', () => {
+    const query = new Float32Array([1, 0, 0]);
+
+    it('should return the query unchanged without judgements', () => {
+      expect(rocchio(query, [], [], options)).toBe(query);
+    });
+
+    it('should move the query towards relevant documents', () => {
+      const relevant = new Float32Array([0, 1, 0]);
+
+      const adjusted = rocchio(
+        query,
+        [{ vector: relevant, weight: 1 }],
+        [],
+        options
+      );
+
+      expect(cosineSimilarity(adjusted, relevant)).toBeGreaterThan(
+        cosineSimilarity(query, relevant)
+      );
+      expect(cosineSimilarity(adjusted, query)).toBeGreaterThan(0.7);
+    });
+
+    it('should move the query away from irrelevant documents', () => {
+      const irrelevant = new Float32Array([0.7, 0.7, 0]);
+
+      const adjusted = rocchio(
+        query,
+        [],
+        [{ vector: irrelevant, weight: 1 }],
+        options
+      );
+
+      expect(cosineSimilarity(adjusted, irrelevant)).toBeLessThan(
+        cosineSimilarity(query, irrelevant)
+      );
+    });
+
+    it('should ignore vectors of a different dimension', () => {
+      expect(
+        rocchio(
+          query,
+          [{ vector: new Float32Array([1, 1]), weight: 1 }],
+          [],
+          options
+        )
+      ).toBe(query);
+    });
+  });
+
+  describe('querySimilarity', () => {
+    it('should compare queries by shared terms', () => {
+      expect(querySimilarity('rust async', 'async rust')).toBe(1);
+      expect(querySimilarity('rust async runtime', 'rust async')).toBeCloseTo(
+        2 / 3
+      );
+      expect(querySimilarity('rust', 'python')).toBe(0);
+    });
+
+    it('should ignore stop words', () => {
+      expect(querySimilarity('the rust book', 'rust book')).toBe(1);
+    });
+  });
+
+  describe('clickPrior', () => {
+    it('should saturate below the weight', () => {
+      expect(clickPrior(0, 0.05)).toBe(0);
+      expect(clickPrior(1, 0.05)).toBeCloseTo(0.025);
+      expect(clickPrior(100, 0.05)).toBeLessThan(0.05);
+      expect(clickPrior(3, 0.05)).toBeGreaterThan(clickPrior(1, 0.05));
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { extractTrigrams, trigramSimilarity } from '@/utils/trigrams';
+
+describe('trigrams', () => {
+  describe('extractTrigrams', () => {
+    it('should pad terms so word boundaries form trigrams', () => {
+      expect(extractTrigrams('go')).toEqual(['  g', ' go', 'go ']);
+    });
+
+    it('should deduplicate repeated trigrams', () => {
+      const trigrams = extractTrigrams('aaaa');
+
+      expect(trigrams).toEqual([...new Set(trigrams)]);
+    });
+  });
+
+  describe('trigramSimilarity', () => {
+    it('should be 1 for identical terms', () => {
+      expect(trigramSimilarity('kubernetes', 'kubernetes')).toBe(1);
+    });
+
+    it('should stay high for single-character typos', () => {
+      expect(trigramSimilarity('kubernetes', 'kuberntes')).toBeGreaterThan(0.6);
+    });
+
+    it('should be low for unrelated terms', () => {
+      expect(trigramSimilarity('kubernetes', 'python')).toBeLessThan(0.2);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  isNearDuplicateUrl,
+  normalizeUrlForComparison,
+} from '@/utils/urlUtils';
+
+describe('normalizeUrlForComparison', () => {
+  it('should ignore scheme, www, fragments and trailing slashes', () => {
+    expect(
+      normalizeUrlForComparison('https://www.Example.com/docs/#intro')
+    ).toBe('example.com/docs');
+    expect(
+      normalizeUrlForComparison('http://example.com/docs/index.html')
+    ).toBe('example.com/docs');
+  });
+
+  it('should drop tracking parameters and sort the rest', () => {
+    expect(
+      normalizeUrlForComparison(
+        'https://example.com/a?utm_source=x&b=2&fbclid=abc&a=1'
+      )
+    ).toBe('example.com/a?a=1&b=2');
+  });
+});
+
+describe('isNearDuplicateUrl', () => {
+  it('should distinguish different pages on the same site', () => {
+    expect(
+      isNearDuplicateUrl('https://example.com/a/', 'http://www.example.com/a')
+    ).toBe(true);
+    expect(
+      isNearDuplicateUrl('https://example.com/a', 'https://example.com/b')
+    ).toBe(false);
+    expect(
+      isNearDuplicateUrl(
+        'https://example.com/?id=1',
+        'https://example.com/?id=2'
+      )
+    ).toBe(false);
+  });
+});
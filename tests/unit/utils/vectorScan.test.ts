@@ -0,0 +1,73 @@
+import { encodeEmbedding } from '@/utils/quantization';
+import { scanVectors, selectTopK, VectorScan } from '@/utils/vectorScan';
+import { cosineSimilarity } from '@/utils/vectorUtils';
+
+describe('vectorScan', () => {
+  const query = new Float32Array([1, 0, 0, 0]);
+  const vectors = [
+    new Float32Array([0, 1, 0, 0]),
+    new Float32Array([0.9, 0.1, 0, 0]),
+    new Float32Array([0.5, 0.5, 0.5, 0]),
+    new Float32Array([1, 0, 0.05, 0]),
+  ];
+
+  it('should select the k highest scores in descending order', () => {
+    const top = selectTopK(
+      [0.2, 0.9, 0.5, 0.7].map((score, row) => ({ row, score })),
+      2
+    );
+
+    expect(top).toEqual([
+      { row: 1, score: 0.9 },
+      { row: 3, score: 0.7 },
+    ]);
+  });
+
+  it('should return exact cosine scores for float rows', () => {
+    const rows = vectors.map((embedding, id) => ({ id, embedding }));
+
+    const results = scanVectors(query, rows, 2);
+
+    expect(results.map(({ row }) => row.id)).toEqual([3, 1]);
+    expect(results[0]!.score).toBeCloseTo(cosineSimilarity(query, vectors[3]!));
+  });
+
+  it('should rescore quantized candidates against their full vectors', () => {
+    const rows = vectors.map((vector, id) => ({
+      id,
+      ...encodeEmbedding(vector, 'binary'),
+    }));
+    const scan = new VectorScan<(typeof rows)[number]>(query, 2);
+    scan.add(rows);
+
+    const results = scan.results(
+      new Map(scan.candidates.map((row) => [row, vectors[row.id]!]))
+    );
+
+    expect(results.map(({ row }) => row.id)).toEqual([3, 1]);
+    expect(results[0]!.score).toBeCloseTo(
+      cosineSimilarity(query, vectors[3]!),
+      6
+    );
+  });
+
+  it('should drop binary rows without a full vector', () => {
+    const rows = vectors.map((vector, id) => ({
+      id,
+      ...encodeEmbedding(vector, 'binary'),
+    }));
+
+    expect(scanVectors(query, rows, 2)).toEqual([]);
+  });
+
+  it('should match a single scan when rows arrive in batches', () => {
+    const rows = vectors.map((embedding, id) => ({ id, embedding }));
+    const scan = new VectorScan<(typeof rows)[number]>(query, 3);
+
+    scan.add(rows.slice(0, 2));
+    expect(scan.provisional.map(({ row }) => row.id)).toEqual([1, 0]);
+
+    scan.add(rows.slice(2));
+    expect(scan.results()).toEqual(scanVectors(query, rows, 3));
+  });
+});
@@ -0,0 +1,238 @@
+import type { VectorScoreRequest } from '@/types/vectorScoring';
+
+import { ANN_CONFIG, VECTOR_SCORING_CONFIG } from '@/constants/config';
+import { AnnIndexService } from '@/services/AnnIndexService';
+import { db } from '@/storage/database';
+import { HnswIndex } from '@/utils/hnsw';
+import { encodeEmbedding } from '@/utils/quantization';
+import { VectorStore } from '@/workers/VectorStore';
+
+const addEmbedding = async (bookmarkId: string, embedding: number[]) => {
+  await db.embeddings.put({
+    bookmarkId,
+    providerId: 'provider-1',
+    embedding: new Float32Array(embedding),
+    createdAt: new Date(),
+    modelName: 'test-model',
+  });
+};
+
+const request = (
+  overrides: Partial<VectorScoreRequest> = {}
+): VectorScoreRequest => ({
+  type: 'score',
+  requestId: 1,
+  target: 'documents',
+  providerId: 'provider-1',
+  query: new Float32Array([1, 0]),
+  candidateIds: ['bm-1', 'bm-2', 'bm-3'],
+  limit: 3,
+  ...overrides,
+});
+
+const ids = (results: { bookmarkId: string }[] | null) =>
+  results?.map((result) => result.bookmarkId);
+
+describe('VectorStore', () => {
+  let store: VectorStore;
+
+  beforeEach(async () => {
+    await db.delete();
+    await db.open();
+    store = new VectorStore();
+    await addEmbedding('bm-1', [0, 1]);
+    await addEmbedding('bm-2', [1, 1]);
+    await addEmbedding('bm-3', [1, 0]);
+  });
+
+  afterEach(async () => {
+    await db.delete();
+  });
+
+  const scan = (overrides: Partial<VectorScoreRequest> = {}) =>
+    store.scan(
+      request(overrides),
+      () => {},
+      () => false
+    );
+
+  it('should keep vectors resident until an update arrives', async () => {
+    expect(ids(await scan())).toEqual(['bm-3', 'bm-2', 'bm-1']);
+
+    await addEmbedding('bm-1', [1, 0.01]);
+    await db.embeddings.delete(['bm-3', 'provider-1']);
+    expect(ids(await scan())).toEqual(['bm-3', 'bm-2', 'bm-1']);
+
+    await store.applyUpdate({
+      type: 'upsert',
+      providerId: 'provider-1',
+      bookmarkId: 'bm-1',
+    });
+    await store.applyUpdate({ type: 'remove', bookmarkId: 'bm-3' });
+    expect(ids(await scan())).toEqual(['bm-1', 'bm-2']);
+  });
+
+  it('should reload a provider after it is invalidated', async () => {
+    await scan();
+    await addEmbedding('bm-1', [1, 0]);
+
+    await store.applyUpdate({ type: 'invalidate', providerId: 'provider-1' });
+
+    expect(ids(await scan({ limit: 1, candidateIds: ['bm-1'] }))).toEqual([
+      'bm-1',
+    ]);
+  });
+
+  describe('approximate scores', () => {
+    const minVectors = ANN_CONFIG.MIN_VECTORS;
+    let graphSearch: jest.SpyInstance;
+
+    beforeEach(async () => {
+      ANN_CONFIG.MIN_VECTORS = 1;
+      AnnIndexService.resetInstance();
+      await AnnIndexService.getInstance().rebuildIndex('provider-1');
+      graphSearch = jest.spyOn(HnswIndex.prototype, 'search');
+    });
+
+    afterEach(() => {
+      ANN_CONFIG.MIN_VECTORS = minVectors;
+      graphSearch.mockRestore();
+    });
+
+    it('should answer document requests from the persisted graph', async () => {
+      const results = await scan({ minApproximate: 3 });
+
+      expect(graphSearch).toHaveBeenCalledTimes(1);
+      expect(ids(results)).toEqual(['bm-3', 'bm-2', 'bm-1']);
+      expect(results?.[0]?.score).toBeCloseTo(1);
+    });
+
+    it('should scan exactly unless approximate scores are requested', async () => {
+      await scan();
+      await scan({ target: 'passages', minApproximate: 3 });
+
+      expect(graphSearch).not.toHaveBeenCalled();
+    });
+
+    it('should scan when filters discard too many neighbours', async () => {
+      const results = await scan({
+        candidateIds: ['bm-1'],
+        limit: 1,
+        minApproximate: 1,
+      });
+
+      expect(graphSearch).toHaveBeenCalledTimes(1);
+      expect(ids(results)).toEqual(['bm-1']);
+    });
+
+    it('should follow graph revisions from the resident vectors', async () => {
+      await scan({ minApproximate: 3 });
+      await addEmbedding('bm-4', [1, 0.1]);
+      await AnnIndexService.getInstance().upsert(
+        'provider-1',
+        'bm-4',
+        new Float32Array([1, 0.1])
+      );
+      await store.applyUpdate({
+        type: 'upsert',
+        providerId: 'provider-1',
+        bookmarkId: 'bm-4',
+      });
+      const readEmbeddings = jest.spyOn(db.embeddings, 'where');
+
+      const results = await scan({
+        candidateIds: ['bm-1', 'bm-2', 'bm-3', 'bm-4'],
+        minApproximate: 3,
+      });
+      const reads = readEmbeddings.mock.calls.length;
+      readEmbeddings.mockRestore();
+
+      expect(ids(results)?.slice(0, 2)).toEqual(['bm-3', 'bm-4']);
+      expect(reads).toBe(0);
+    });
+  });
+
+  describe('batched scans', () => {
+    const batchSize = VECTOR_SCORING_CONFIG.SCAN_BATCH_SIZE;
+
+    beforeEach(() => {
+      VECTOR_SCORING_CONFIG.SCAN_BATCH_SIZE = 1;
+    });
+
+    afterEach(() => {
+      VECTOR_SCORING_CONFIG.SCAN_BATCH_SIZE = batchSize;
+    });
+
+    it('should report provisional results between batches', async () => {
+      const onPartial = jest.fn();
+
+      const results = await store.scan(request(), onPartial, () => false);
+
+      expect(onPartial).toHaveBeenCalledTimes(2);
+      expect(ids(onPartial.mock.calls[0][0])).toEqual(['bm-1']);
+      expect(ids(results)).toEqual(['bm-3', 'bm-2', 'bm-1']);
+    });
+
+    it('should stop when the request is cancelled', async () => {
+      let cancelled = false;
+
+      const results = await store.scan(
+        request(),
+        () => {
+          cancelled = true;
+        },
+        () => cancelled
+      );
+
+      expect(results).toBeNull();
+    });
+  });
+
+  describe('quantized rows', () => {
+    it('should rescore the best matches from their full-precision vectors', async () => {
+      const vector = new Float32Array([0.8, 0.6]);
+      await db.embeddings.put({
+        bookmarkId: 'bm-2',
+        providerId: 'provider-1',
+        ...encodeEmbedding(vector, 'binary'),
+        createdAt: new Date(),
+        modelName: 'test-model',
+      });
+      await db.embeddingVectors.put({
+        bookmarkId: 'bm-2',
+        providerId: 'provider-1',
+        embedding: vector,
+      });
+      await db.chunkEmbeddings.put({
+        bookmarkId: 'bm-2',
+        providerId: 'provider-1',
+        url: 'https://example.com',
+        chunkIndex: 3,
+        text: 'Chunk',
+        ...encodeEmbedding(vector, 'int8'),
+        createdAt: new Date(),
+        modelName: 'test-model',
+      });
+      await db.chunkVectors.put({
+        bookmarkId: 'bm-2',
+        providerId: 'provider-1',
+        url: 'https://example.com',
+        chunkIndex: 3,
+        embedding: vector,
+      });
+
+      const [document] = (await scan({ candidateIds: ['bm-2'] }))!;
+      const [passage] = (await scan({
+        target: 'passages',
+        candidateIds: ['bm-2'],
+      }))!;
+
+      expect(document?.score).toBeCloseTo(0.8, 6);
+      expect(passage).toEqual({
+        bookmarkId: 'bm-2',
+        score: expect.closeTo(0.8, 6),
+        passage: { text: 'Chunk', url: 'https://example.com' },
+      });
+    });
+  });
+});
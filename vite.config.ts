@@ -84,6 +84,7 @@ export default defineConfig({
       input: {
         background: resolve(__dirname, 'src/background/index.ts'),
         popup: resolve(__dirname, 'src/ui/index.html'),
+        vectorScoring: resolve(__dirname, 'src/workers/vectorScoring.ts'),
       },
       output: {
         entryFileNames: '[name].js',